@@ -20,10 +20,41 @@ import ClientEarnings from "@/pages/client-earnings";
 import ClientWithdrawals from "@/pages/client-withdrawals";
 import ClientSettings from "@/pages/client-settings";
 import Payment from "@/pages/payment";
+import AdminWithdrawals from "@/pages/admin-withdrawals";
+import AdminSettings from "@/pages/admin-settings";
 import ManageUsers from "@/pages/manage-users";
 import Plans from "@/pages/plans";
 import ClientPlans from "@/pages/client-plans";
 import NotFound from "@/pages/not-found";
+import SetupWizard from "@/pages/setup";
+import ChangeDefaultPassword from "@/pages/change-password";
+import type { SetupStatus } from "@shared/schema";
+
+function LoadingScreen() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50">
+      <div className="text-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-slate-600">Loading...</p>
+      </div>
+    </div>
+  );
+}
+
+// A fresh install shows nothing but the setup wizard until the owner exists
+function SetupGate({ children }: { children: React.ReactNode }) {
+  const { data: status, isLoading } = useQuery<SetupStatus>({
+    queryKey: ['/api/setup/status'],
+  });
+
+  if (isLoading) {
+    return <LoadingScreen />;
+  }
+  if (status?.required) {
+    return <SetupWizard />;
+  }
+  return <>{children}</>;
+}
 
 function AuthWrapper({ children }: { children: React.ReactNode }) {
   const { user, isInitialized, setUser, setInitialized } = useAuthStore();
@@ -50,14 +81,7 @@ function AuthWrapper({ children }: { children: React.ReactNode }) {
   }, [userData, error, isInitialized, setUser, setInitialized]);
 
   if (!isInitialized && isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-slate-50">
-        <div className="text-center">
-          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-slate-600">Loading...</p>
-        </div>
-      </div>
-    );
+    return <LoadingScreen />;
   }
 
   return <>{children}</>;
@@ -70,6 +94,10 @@ function Router() {
     return <LoginPage />;
   }
 
+  if (user.mustChangePassword) {
+    return <ChangeDefaultPassword />;
+  }
+
   return (
     <Switch>
       <Route path="/admin/add-client" component={() => user.role === 'admin' ? <AddClient /> : <NotFound />} />
@@ -80,6 +108,11 @@ function Router() {
       <Route path="/admin/users/overview" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
       <Route path="/admin/users/referrals" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
       <Route path="/admin/users/earnings" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
+      <Route path="/admin/withdrawals" component={() => user.role === 'admin' ? <AdminWithdrawals /> : <NotFound />} />
+      <Route path="/admin/withdrawals/pending" component={() => user.role === 'admin' ? <AdminWithdrawals /> : <NotFound />} />
+      <Route path="/admin/withdrawals/approved" component={() => user.role === 'admin' ? <AdminWithdrawals /> : <NotFound />} />
+      <Route path="/admin/withdrawals/batches" component={() => user.role === 'admin' ? <AdminWithdrawals /> : <NotFound />} />
+      <Route path="/admin/settings" component={() => user.role === 'admin' ? <AdminSettings /> : <NotFound />} />
       <Route path="/admin/plans" component={() => user.role === 'admin' ? <Plans /> : <NotFound />} />
       <Route path="/admin" component={() => user.role === 'admin' ? <AdminDashboard /> : <NotFound />} />
       <Route path="/client/add-client" component={() => user.role === 'client' ? <ClientAddClient /> : <NotFound />} />
@@ -103,9 +136,11 @@ function App() {
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
           <Toaster />
-          <AuthWrapper>
-            <Router />
-          </AuthWrapper>
+          <SetupGate>
+            <AuthWrapper>
+              <Router />
+            </AuthWrapper>
+          </SetupGate>
         </TooltipProvider>
       </QueryClientProvider>
     </ThemeProvider>
@@ -0,0 +1,150 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ActiveSession } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MonitorSmartphone } from "lucide-react";
+
+// Browsers the signed-in user is logged in on, with sign-out per session
+export function ActiveSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string | null) => {
+      const response = id
+        ? await apiRequest("DELETE", `/api/auth/sessions/${id}`)
+        : await apiRequest("POST", "/api/auth/sessions/revoke-others");
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Signed out", description: result.message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to sign out the session."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const others = sessions.filter(session => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices signed in to your account. Signing one out takes effect immediately.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="animate-pulse h-16 bg-gray-200 rounded" />
+        ) : (
+          sessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between rounded-lg border p-3" data-testid={`session-${session.id}`}>
+              <div>
+                <div className="flex items-center gap-2 font-medium">
+                  {session.device}
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {session.ipAddress || "Unknown IP"} · Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  data-testid={`button-revoke-session-${session.id}`}
+                >
+                  Sign out
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+        {others.length > 0 && (
+          <Button
+            variant="destructive"
+            disabled={revokeMutation.isPending}
+            onClick={() => revokeMutation.mutate(null)}
+            data-testid="button-revoke-other-sessions"
+          >
+            Sign out all other sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Admin view of a client's sessions with a force-logout button
+export function ClientSessions({ clientId }: { clientId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [] } = useQuery<ActiveSession[]>({
+    queryKey: [`/api/clients/${clientId}/sessions`],
+    staleTime: 0,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/clients/${clientId}/sessions`);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}/sessions`] });
+      toast({ title: "Client signed out", description: result.message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to sign out the client."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">Sessions</h4>
+      {sessions.length === 0 ? (
+        <div className="text-sm text-muted-foreground">Not signed in anywhere</div>
+      ) : (
+        <>
+          {sessions.map((session) => (
+            <div key={session.id} className="text-sm text-muted-foreground">
+              {session.device} · {session.ipAddress || "Unknown IP"} · {new Date(session.lastSeenAt).toLocaleString()}
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={logoutMutation.isPending}
+            onClick={() => logoutMutation.mutate()}
+            data-testid="button-force-logout"
+          >
+            Sign out everywhere
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -23,7 +23,7 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
-import logoPath from "@assets/logo_1755178929997.png";
+import { useBranding } from "@/hooks/use-branding";
 
 interface MenuItem {
   id: string;
@@ -93,7 +93,8 @@ const menuItems: MenuItem[] = [
     subItems: [
       { id: "all-withdrawals", label: "All Withdrawals", icon: <Building2 className="h-4 w-4" />, href: "/admin/withdrawals" },
       { id: "pending-withdrawals", label: "Pending", icon: <Building2 className="h-4 w-4" />, href: "/admin/withdrawals/pending" },
-      { id: "approved-withdrawals", label: "Approved", icon: <Building2 className="h-4 w-4" />, href: "/admin/withdrawals/approved" }
+      { id: "approved-withdrawals", label: "Approved", icon: <Building2 className="h-4 w-4" />, href: "/admin/withdrawals/approved" },
+      { id: "payout-batches", label: "Payout Batches", icon: <Building2 className="h-4 w-4" />, href: "/admin/withdrawals/batches" }
     ]
   },
   {
@@ -133,6 +134,7 @@ export function AdminSidebar({ className = "" }: AdminSidebarProps) {
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
+  const { companyName, logoUrl } = useBranding();
 
   const toggleExpanded = (itemId: string) => {
     const newExpanded = new Set(expandedItems);
@@ -270,14 +272,14 @@ export function AdminSidebar({ className = "" }: AdminSidebarProps) {
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <img
-                src={logoPath}
-                alt="Napping Hand Academy"
+                src={logoUrl}
+                alt={companyName}
                 className="h-10 w-10 rounded-full shadow-lg"
               />
               {!isCollapsed && (
                 <div>
                   <h2 className="text-white font-bold text-lg">Admin Panel</h2>
-                  <p className="text-slate-400 text-xs">Napping Hand Academy</p>
+                  <p className="text-slate-400 text-xs">{companyName}</p>
                 </div>
               )}
             </div>
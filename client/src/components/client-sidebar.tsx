@@ -20,7 +20,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { useAuthStore } from "@/hooks/use-auth";
-import logoPath from "@assets/logo_1755178929997.png";
+import { useBranding } from "@/hooks/use-branding";
 
 interface MenuItem {
   id: string;
@@ -89,6 +89,7 @@ export function ClientSidebar() {
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { logout } = useAuthStore();
+  const { companyName, logoUrl } = useBranding();
 
   const toggleExpanded = (itemId: string) => {
     const newExpanded = new Set(expandedItems);
@@ -195,10 +196,10 @@ export function ClientSidebar() {
           {/* Logo section */}
           <div className="flex items-center justify-between p-6 border-b border-slate-800">
             <div className="flex items-center">
-              <img src={logoPath} alt="MLM Logo" className="h-8 w-8 mr-3" />
+              <img src={logoUrl} alt={companyName} className="h-8 w-8 mr-3" />
               <div>
                 <h2 className="text-lg font-semibold text-white">Client Panel</h2>
-                <p className="text-xs text-slate-400">MLM System</p>
+                <p className="text-xs text-slate-400">{companyName}</p>
               </div>
             </div>
             <ThemeToggle />
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { DeletionImpact, DeletionPlan, DeletionPolicy, UserWithoutPassword } from "@shared/schema";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const policyLabels: Record<DeletionPolicy, { title: string; description: string }> = {
+  deactivate: {
+    title: "Deactivate",
+    description: "Keep the client and their downline in place; they can no longer sign in.",
+  },
+  block: {
+    title: "Delete only if nothing depends on them",
+    description: "Refuses when the client has downline members or money history.",
+  },
+  promote_child: {
+    title: "Promote a child",
+    description: "The left child (or only child) takes the vacated slot.",
+  },
+  reattach_to_grandparent: {
+    title: "Re-attach children to the grandparent",
+    description: "Children move up into the grandparent's free slots.",
+  },
+};
+
+const removalLabels: Record<DeletionPlan["removal"], string> = {
+  deactivate: "The account is deactivated",
+  detach: "The account is removed from the tree and deactivated to keep its money history",
+  delete: "The account is deleted",
+};
+
+interface DeleteClientDialogProps {
+  client: UserWithoutPassword | null;
+  users: UserWithoutPassword[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets the admin pick a deletion policy after seeing what each one would do
+export function DeleteClientDialog({ client, users, onOpenChange }: DeleteClientDialogProps) {
+  const [policy, setPolicy] = useState<DeletionPolicy>("deactivate");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: impact, isLoading } = useQuery<DeletionImpact>({
+    queryKey: [`/api/clients/${client?.id}/deletion-impact`],
+    enabled: !!client,
+    staleTime: 0,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/clients/${client!.id}`, { policy });
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      toast({ title: "Client removed", description: result.message });
+      close();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete client."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Start from the default policy each time the dialog opens
+  const close = () => {
+    setPolicy("deactivate");
+    onOpenChange(false);
+  };
+
+  const nameOf = (id: string | null) => {
+    if (!id) return "the top of the tree";
+    const user = users.find(u => u.id === id);
+    return user ? (user.name || user.username) : "another member";
+  };
+
+  const selectedPlan = impact?.plans.find(plan => plan.policy === policy);
+
+  return (
+    <Dialog open={!!client} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-lg" data-testid="dialog-delete-client">
+        <DialogHeader>
+          <DialogTitle>Remove {client?.name || client?.username}</DialogTitle>
+          <DialogDescription>Choose how the client leaves the network.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !impact ? (
+          <div className="animate-pulse h-24 bg-gray-200 rounded" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              <div className="p-2 bg-muted/50 rounded">
+                <div className="font-bold">{impact.downlineSize}</div>
+                <div className="text-muted-foreground">Downline</div>
+              </div>
+              <div className="p-2 bg-muted/50 rounded">
+                <div className="font-bold">{impact.referrals}</div>
+                <div className="text-muted-foreground">Referrals</div>
+              </div>
+              <div className="p-2 bg-muted/50 rounded">
+                <div className="font-bold">
+                  {impact.history.earnings + impact.history.generatedEarnings + impact.history.withdrawals}
+                </div>
+                <div className="text-muted-foreground">Money records</div>
+              </div>
+            </div>
+
+            <RadioGroup value={policy} onValueChange={(value) => setPolicy(value as DeletionPolicy)}>
+              {impact.plans.map((plan) => (
+                <div key={plan.policy} className="flex items-start gap-3 rounded-lg border p-3">
+                  <RadioGroupItem
+                    value={plan.policy}
+                    id={`policy-${plan.policy}`}
+                    disabled={!plan.allowed}
+                    className="mt-1"
+                    data-testid={`radio-policy-${plan.policy}`}
+                  />
+                  <Label htmlFor={`policy-${plan.policy}`} className="space-y-1 font-normal">
+                    <div className="font-medium">
+                      {policyLabels[plan.policy].title}
+                      {plan.policy === "deactivate" && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {plan.allowed ? policyLabels[plan.policy].description : plan.reason}
+                    </div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {selectedPlan?.allowed && (
+              <ul className="text-sm space-y-1 rounded-lg bg-muted/50 p-3" data-testid="deletion-preview">
+                <li>{removalLabels[selectedPlan.removal]}</li>
+                {selectedPlan.moves.map((move) => (
+                  <li key={move.userId}>
+                    {nameOf(move.userId)} moves to {move.position ? `the ${move.position} of ` : ""}{nameOf(move.parentId)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            variant="destructive"
+            disabled={!selectedPlan?.allowed || deleteMutation.isPending}
+            onClick={() => deleteMutation.mutate()}
+            data-testid="button-confirm-delete"
+          >
+            {deleteMutation.isPending ? "Removing..." : "Confirm"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
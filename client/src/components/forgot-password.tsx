@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { confirmPasswordResetSchema, type ConfirmPasswordResetRequest } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { TwoFactorCodeInput } from "@/components/two-factor-setup";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ForgotPasswordProps {
+  initialUsername: string;
+  // Called with the username once the password has been reset
+  onDone: (username: string) => void;
+  onCancel: () => void;
+}
+
+// Two steps: ask for a code for the username, then enter it with the new password
+export function ForgotPassword({ initialUsername, onDone, onCancel }: ForgotPasswordProps) {
+  const [codeSent, setCodeSent] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<ConfirmPasswordResetRequest>({
+    resolver: zodResolver(confirmPasswordResetSchema),
+    defaultValues: { username: initialUsername, code: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (username: string) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/request", { username });
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      setCodeSent(true);
+      form.setValue("code", "");
+      toast({ title: "Check your messages", description: result.message });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Could not send a reset code."), variant: "destructive" });
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (data: ConfirmPasswordResetRequest) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/confirm", data);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result, data) => {
+      toast({ title: "Password reset", description: result.message });
+      onDone(data.username);
+    },
+    onError: (error) => {
+      form.setValue("code", "");
+      toast({ title: "Reset failed", description: apiErrorMessage(error, "Could not reset the password."), variant: "destructive" });
+    },
+  });
+
+  const sendCode = async () => {
+    if (await form.trigger("username")) {
+      requestMutation.mutate(form.getValues("username"));
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => confirmMutation.mutate(data))} className="space-y-4" data-testid="forgot-password">
+        <p className="text-sm text-muted-foreground text-center">
+          {codeSent
+            ? "Enter the 6-digit code we sent to the email or mobile number on your account, then choose a new password."
+            : "Enter your username and we'll send a reset code to the email or mobile number on your account."}
+        </p>
+
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter your username" disabled={codeSent} {...field} data-testid="input-reset-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {codeSent ? (
+          <>
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reset code</FormLabel>
+                  <div className="flex justify-center">
+                    <TwoFactorCodeInput value={field.value} onChange={field.onChange} />
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-reset-password" />
+                  </FormControl>
+                  <FormDescription>Admin accounts need at least 12 characters with upper and lower case letters, a number and a symbol.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm new password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-reset-confirm-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={confirmMutation.isPending} data-testid="button-reset-password">
+              {confirmMutation.isPending ? "Resetting..." : "Reset password"}
+            </Button>
+          </>
+        ) : (
+          <Button type="button" className="w-full" disabled={requestMutation.isPending} onClick={sendCode} data-testid="button-send-reset-code">
+            {requestMutation.isPending ? "Sending..." : "Send reset code"}
+          </Button>
+        )}
+
+        <div className="flex justify-between text-sm">
+          {codeSent ? (
+            <Button type="button" variant="link" className="px-0" disabled={requestMutation.isPending} onClick={sendCode}>
+              Send a new code
+            </Button>
+          ) : <span />}
+          <Button type="button" variant="link" className="px-0" onClick={onCancel}>
+            Back to sign in
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
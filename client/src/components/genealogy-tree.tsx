@@ -0,0 +1,481 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import type { GenealogyNode, UserWithoutPassword } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { DeleteClientDialog } from "@/components/delete-client-dialog";
+import { MoveSubtreeDialog } from "@/components/move-subtree-dialog";
+import { usePlans } from "@/hooks/use-plans";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { ChevronDown, ChevronUp, Crown, Maximize, Move, Plus, Search, Trash2, UserX, ZoomIn, ZoomOut } from "lucide-react";
+
+// Levels fetched per request; deeper branches load when expanded
+const LEVELS_PER_REQUEST = 3;
+
+const NODE_WIDTH = 176;
+const NODE_HEIGHT = 76;
+const COLUMN_WIDTH = NODE_WIDTH + 24;
+const LEVEL_HEIGHT = 130;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 2;
+
+type Position = "left" | "right";
+
+type LayoutItem =
+  | { kind: "member"; node: GenealogyNode; x: number; y: number; expandable: boolean; expanded: boolean }
+  | { kind: "slot"; parentId: string; position: Position; x: number; y: number };
+
+interface Edge {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+}
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface GenealogyTreeProps {
+  // Defaults to the signed-in user on the server
+  rootId?: string;
+  isAdmin?: boolean;
+  // Admin move/delete dialogs pick targets and names from this list
+  users?: UserWithoutPassword[];
+}
+
+function genealogyUrl(rootId?: string) {
+  const params = new URLSearchParams({ depth: String(LEVELS_PER_REQUEST) });
+  if (rootId) params.set("rootId", rootId);
+  return `/api/genealogy?${params}`;
+}
+
+// A node whose window ended before its children were included
+function isWindowEdge(node: GenealogyNode) {
+  return (node.hasLeft && !node.left) || (node.hasRight && !node.right);
+}
+
+// Swap window-edge nodes for the branch fetched when they were expanded
+function resolveNode(node: GenealogyNode, branches: Record<string, GenealogyNode>): GenealogyNode {
+  const current = isWindowEdge(node) && branches[node.user.id] ? branches[node.user.id] : node;
+  return {
+    ...current,
+    left: current.left && resolveNode(current.left, branches),
+    right: current.right && resolveNode(current.right, branches),
+  };
+}
+
+function findNode(node: GenealogyNode | null, id: string): GenealogyNode | null {
+  if (!node) return null;
+  if (node.user.id === id) return node;
+  return findNode(node.left, id) || findNode(node.right, id);
+}
+
+// Lay the tree out on a grid: every leaf (member or empty slot) takes the next
+// column and each parent is centred over its two slots
+function layoutTree(root: GenealogyNode, collapsed: Set<string>) {
+  const items: LayoutItem[] = [];
+  const edges: Edge[] = [];
+  let column = 0;
+
+  const visit = (node: GenealogyNode, level: number): number => {
+    const y = level * LEVEL_HEIGHT;
+    const expandable = node.hasLeft || node.hasRight;
+    const expanded = !collapsed.has(node.user.id) && !isWindowEdge(node);
+    let x: number;
+
+    if (expanded) {
+      const slotX = (["left", "right"] as const).map((position) => {
+        const child = node[position];
+        if (child) return visit(child, level + 1);
+        const leafX = column++ * COLUMN_WIDTH;
+        items.push({ kind: "slot", parentId: node.user.id, position, x: leafX, y: y + LEVEL_HEIGHT });
+        return leafX;
+      });
+      x = (slotX[0] + slotX[1]) / 2;
+      slotX.forEach((childX) => edges.push({
+        from: { x: x + NODE_WIDTH / 2, y: y + NODE_HEIGHT },
+        to: { x: childX + NODE_WIDTH / 2, y: y + LEVEL_HEIGHT },
+      }));
+    } else {
+      x = column++ * COLUMN_WIDTH;
+    }
+
+    items.push({ kind: "member", node, x, y, expandable, expanded: expanded && expandable });
+    return x;
+  };
+
+  visit(root, 0);
+  const height = Math.max(...items.map(item => item.y)) + NODE_HEIGHT;
+  return { items, edges, width: column * COLUMN_WIDTH, height };
+}
+
+// Pan/zoom genealogy canvas over /api/genealogy. Branches load a window at a
+// time as they are expanded, and search loads the path down to a member.
+export function GenealogyTree({ rootId, isAdmin = false, users = [] }: GenealogyTreeProps) {
+  const [branches, setBranches] = useState<Record<string, GenealogyNode>>({});
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [view, setView] = useState<View>({ x: 0, y: 0, scale: 1 });
+  const [search, setSearch] = useState("");
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [clientToDelete, setClientToDelete] = useState<UserWithoutPassword | null>(null);
+  const [clientToMove, setClientToMove] = useState<UserWithoutPassword | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { getPlanName } = usePlans();
+  const { toast } = useToast();
+
+  const { data: rootNode, isLoading } = useQuery<GenealogyNode>({
+    queryKey: [genealogyUrl(rootId)],
+  });
+
+  const tree = rootNode ? resolveNode(rootNode, branches) : null;
+  const layout = tree ? layoutTree(tree, collapsed) : null;
+
+  const fetchBranch = (id: string) => queryClient.fetchQuery<GenealogyNode>({ queryKey: [genealogyUrl(id)] });
+
+  const centerOn = (x: number, y: number, scale = view.scale) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    setView({ scale, x: bounds.width / 2 - x * scale, y: bounds.height / 3 - y * scale });
+  };
+
+  const fitToScreen = () => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds || !layout) return;
+    const scale = Math.min(1, Math.max(MIN_SCALE, Math.min(bounds.width / (layout.width + 48), bounds.height / (layout.height + 48))));
+    setView({ scale, x: (bounds.width - layout.width * scale) / 2, y: 24 });
+  };
+
+  const zoomAt = (factor: number, point?: { x: number; y: number }) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    const origin = point || { x: bounds.width / 2, y: bounds.height / 2 };
+    setView((current) => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+      const ratio = scale / current.scale;
+      return { scale, x: origin.x - (origin.x - current.x) * ratio, y: origin.y - (origin.y - current.y) * ratio };
+    });
+  };
+
+  // Fit the first window once it arrives
+  useEffect(() => {
+    if (rootNode && view.x === 0 && view.y === 0) fitToScreen();
+  }, [rootNode?.user.id]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = element.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1.1 : 1 / 1.1, { x: event.clientX - bounds.left, y: event.clientY - bounds.top });
+    };
+    element.addEventListener("wheel", onWheel, { passive: false });
+    return () => element.removeEventListener("wheel", onWheel);
+  }, [!!rootNode]);
+
+  // Scroll a searched member into view once its branch has been laid out
+  useEffect(() => {
+    if (!focusId || !layout) return;
+    const target = layout.items.find(item => item.kind === "member" && item.node.user.id === focusId);
+    if (target) {
+      centerOn(target.x + NODE_WIDTH / 2, target.y + NODE_HEIGHT / 2, Math.max(view.scale, 0.8));
+      setFocusId(null);
+    }
+  }, [focusId, layout]);
+
+  const onPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest("button")) return;
+    dragRef.current = { x: event.clientX - view.x, y: event.clientY - view.y };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView((current) => ({ ...current, x: event.clientX - drag.x, y: event.clientY - drag.y }));
+  };
+
+  const onPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const toggleNode = async (node: GenealogyNode, expanded: boolean) => {
+    if (expanded) {
+      setCollapsed(new Set(Array.from(collapsed).concat(node.user.id)));
+      return;
+    }
+    setCollapsed(new Set(Array.from(collapsed).filter(id => id !== node.user.id)));
+    if (isWindowEdge(node)) {
+      setLoadingId(node.user.id);
+      try {
+        const branch = await fetchBranch(node.user.id);
+        setBranches(current => ({ ...current, [node.user.id]: branch }));
+      } catch (error) {
+        toast({ title: "Error", description: apiErrorMessage(error, "Failed to load this branch."), variant: "destructive" });
+      } finally {
+        setLoadingId(null);
+      }
+    }
+  };
+
+  // Load every window along the path to the member, then focus them
+  const searchMember = async () => {
+    const username = search.trim();
+    if (!username || !rootNode) return;
+    try {
+      const params = new URLSearchParams({ username });
+      if (rootId) params.set("rootId", rootId);
+      const response = await apiRequest("GET", `/api/genealogy/search?${params}`);
+      const { path } = await response.json() as { path: string[] };
+
+      const loaded = { ...branches };
+      for (const id of path.slice(0, -1)) {
+        const node = findNode(resolveNode(rootNode, loaded), id);
+        if (node && isWindowEdge(node) && !loaded[id]) {
+          loaded[id] = await fetchBranch(id);
+        }
+      }
+      setBranches(loaded);
+      setCollapsed(new Set(Array.from(collapsed).filter(id => !path.includes(id))));
+      setHighlightId(path[path.length - 1]);
+      setFocusId(path[path.length - 1]);
+    } catch (error) {
+      toast({ title: "Not found", description: apiErrorMessage(error, "Could not find that member."), variant: "destructive" });
+    }
+  };
+
+  // Moves and deletions reshape the tree, so drop every cached window
+  const refreshTree = () => {
+    setBranches({});
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/genealogy") });
+  };
+
+  const addAt = (parentId: string, position: Position) => {
+    const params = new URLSearchParams({ parentId, position });
+    setLocation(`${isAdmin ? "/admin/add-client" : "/client/add-client"}?${params}`);
+  };
+
+  if (isLoading) {
+    return <div className="animate-pulse h-[600px] bg-gray-200 rounded" />;
+  }
+  if (!tree || !layout) {
+    return (
+      <div className="flex items-center justify-center h-64 text-gray-500">
+        <div className="text-center">
+          <UserX className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+          <p>No clients in the system yet</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <div className="space-y-3" data-testid="genealogy-tree">
+        <div className="flex flex-wrap items-center gap-2 px-4 pt-4">
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              searchMember();
+            }}
+          >
+            <Input
+              placeholder="Find username..."
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              className="w-56"
+              data-testid="input-tree-search"
+            />
+            <Button type="submit" variant="outline" size="sm" data-testid="button-tree-search">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+          <div className="ml-auto flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={() => zoomAt(1.2)} data-testid="button-zoom-in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => zoomAt(1 / 1.2)} data-testid="button-zoom-out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={fitToScreen} data-testid="button-zoom-fit">
+              <Maximize className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-right text-xs text-muted-foreground">{Math.round(view.scale * 100)}%</span>
+          </div>
+        </div>
+
+        <div
+          ref={containerRef}
+          className="relative h-[600px] overflow-hidden border-t bg-muted/20 cursor-grab active:cursor-grabbing touch-none select-none"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerLeave={onPointerUp}
+          data-testid="genealogy-canvas"
+        >
+          <div
+            className="absolute left-0 top-0 origin-top-left"
+            style={{
+              width: layout.width,
+              height: layout.height,
+              transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            }}
+          >
+            <svg className="absolute inset-0 overflow-visible pointer-events-none" width={layout.width} height={layout.height}>
+              {layout.edges.map((edge, index) => {
+                const midY = (edge.from.y + edge.to.y) / 2;
+                return (
+                  <path
+                    key={index}
+                    d={`M ${edge.from.x} ${edge.from.y} V ${midY} H ${edge.to.x} V ${edge.to.y}`}
+                    fill="none"
+                    className="stroke-gray-400"
+                    strokeWidth={1.5}
+                  />
+                );
+              })}
+            </svg>
+
+            {layout.items.map((item) => item.kind === "slot" ? (
+              <button
+                key={`${item.parentId}-${item.position}`}
+                type="button"
+                className="absolute flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 text-xs text-muted-foreground hover:border-primary hover:text-primary"
+                style={{ left: item.x, top: item.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                onClick={() => addAt(item.parentId, item.position)}
+                data-testid={`empty-slot-${item.parentId}-${item.position}`}
+              >
+                <Plus className="h-4 w-4 mb-1" />
+                Add {item.position}
+              </button>
+            ) : (
+              <MemberCard
+                key={item.node.user.id}
+                item={item}
+                highlighted={item.node.user.id === highlightId}
+                loading={item.node.user.id === loadingId}
+                planName={getPlanName(item.node.user.planId)}
+                isAdmin={isAdmin}
+                onToggle={() => toggleNode(item.node, item.expanded)}
+                onMove={() => setClientToMove(item.node.user)}
+                onDelete={() => setClientToDelete(item.node.user)}
+              />
+            ))}
+          </div>
+        </div>
+
+        {isAdmin && (
+          <>
+            <DeleteClientDialog
+              client={clientToDelete}
+              users={users}
+              onOpenChange={(open) => {
+                if (!open) {
+                  setClientToDelete(null);
+                  refreshTree();
+                }
+              }}
+            />
+            <MoveSubtreeDialog
+              client={clientToMove}
+              users={users}
+              onOpenChange={(open) => {
+                if (!open) {
+                  setClientToMove(null);
+                  refreshTree();
+                }
+              }}
+            />
+          </>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+}
+
+interface MemberCardProps {
+  item: Extract<LayoutItem, { kind: "member" }>;
+  highlighted: boolean;
+  loading: boolean;
+  planName?: string;
+  isAdmin: boolean;
+  onToggle: () => void;
+  onMove: () => void;
+  onDelete: () => void;
+}
+
+function MemberCard({ item, highlighted, loading, planName, isAdmin, onToggle, onMove, onDelete }: MemberCardProps) {
+  const { node } = item;
+  const { user } = node;
+  const canManage = isAdmin && user.role === "client";
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className={`absolute flex flex-col justify-center rounded-lg border-2 bg-card px-3 shadow-sm ${
+            highlighted ? "border-primary ring-4 ring-primary/30" : user.status !== "active" ? "border-dashed opacity-60" : "border-border"
+          }`}
+          style={{ left: item.x, top: item.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+          data-testid={`tree-node-${user.id}`}
+        >
+          <div className="flex items-center gap-1">
+            <span className="truncate font-medium text-sm" data-testid={`node-username-${user.id}`}>
+              {user.name || user.username}
+            </span>
+            {user.role === "admin" && <Crown className="h-3 w-3 shrink-0 text-yellow-500" />}
+            {canManage && (
+              <div className="ml-auto flex shrink-0 gap-1">
+                <button type="button" className="rounded p-0.5 hover:bg-blue-100" onClick={onMove} data-testid={`button-move-${user.id}`}>
+                  <Move className="h-3 w-3 text-blue-600" />
+                </button>
+                <button type="button" className="rounded p-0.5 hover:bg-red-100" onClick={onDelete} data-testid={`button-delete-${user.id}`}>
+                  <Trash2 className="h-3 w-3 text-red-600" />
+                </button>
+              </div>
+            )}
+          </div>
+          <div className="truncate text-xs text-muted-foreground">@{user.username}</div>
+          <div className="mt-1 flex items-center justify-between text-xs">
+            <span className="text-muted-foreground" data-testid={`leg-counts-${user.id}`}>
+              L {node.leftCount} · R {node.rightCount}
+            </span>
+            {user.status !== "active" && <Badge variant="outline" className="px-1 py-0 text-[10px]">Inactive</Badge>}
+          </div>
+
+          {item.expandable && (
+            <button
+              type="button"
+              className="absolute -bottom-3 left-1/2 -translate-x-1/2 rounded-full border bg-background p-0.5 shadow-sm hover:bg-muted"
+              onClick={onToggle}
+              disabled={loading}
+              data-testid={`toggle-expand-${user.id}`}
+            >
+              {item.expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className={`h-3 w-3 ${loading ? "animate-pulse" : ""}`} />}
+            </button>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="right">
+        <div className="space-y-0.5 text-xs">
+          <div className="font-medium">{user.name || user.username}</div>
+          <div>Package: {planName || "None"}</div>
+          <div>Joined: {new Date(user.createdAt).toLocaleDateString()}</div>
+          <div>Left leg: {node.leftCount} · Right leg: {node.rightCount}</div>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
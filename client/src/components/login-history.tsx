@@ -0,0 +1,112 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { LockoutStatus, LoginHistoryEntry, LoginOutcome } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { History } from "lucide-react";
+
+const OUTCOMES: Record<LoginOutcome, { label: string; variant: "secondary" | "destructive" | "outline" }> = {
+  success: { label: "Signed in", variant: "secondary" },
+  invalid_password: { label: "Wrong password", variant: "destructive" },
+  invalid_code: { label: "Wrong 2FA code", variant: "destructive" },
+  blocked: { label: "Blocked", variant: "outline" },
+};
+
+// Recent sign-in attempts on the signed-in user's account, so they can spot
+// someone guessing their password
+export function LoginHistory() {
+  const { data: history = [], isLoading } = useQuery<LoginHistoryEntry[]>({
+    queryKey: ["/api/auth/login-history"],
+    staleTime: 0,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Login History
+        </CardTitle>
+        <CardDescription>
+          Recent sign-in attempts on your account. If you don't recognise a failed attempt, change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="animate-pulse h-16 bg-gray-200 rounded" />
+        ) : history.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No sign-in attempts recorded yet</div>
+        ) : (
+          history.map((entry) => {
+            const outcome = OUTCOMES[entry.outcome] || OUTCOMES.blocked;
+            return (
+              <div key={entry.id} className="flex items-center justify-between rounded-lg border p-3 text-sm" data-testid={`login-event-${entry.id}`}>
+                <div>
+                  <div className="font-medium">{entry.device}</div>
+                  <div className="text-muted-foreground">
+                    {entry.ipAddress || "Unknown IP"} · {new Date(entry.createdAt).toLocaleString()}
+                  </div>
+                </div>
+                <Badge variant={outcome.variant}>{outcome.label}</Badge>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Admin view of a client's failed sign-ins with an unlock button
+export function ClientLockout({ clientId }: { clientId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status } = useQuery<LockoutStatus>({
+    queryKey: [`/api/clients/${clientId}/lockout`],
+    staleTime: 0,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/clients/${clientId}/unlock`);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}/lockout`] });
+      toast({ title: "Account unlocked", description: result.message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to unlock the account."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!status || status.failures === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">Failed sign-ins</h4>
+      <div className="text-sm text-muted-foreground">
+        {status.failures} recent failed attempt(s)
+        {status.blockedUntil && ` · blocked until ${new Date(status.blockedUntil).toLocaleString()}`}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={unlockMutation.isPending}
+        onClick={() => unlockMutation.mutate()}
+        data-testid="button-unlock-account"
+      >
+        Unlock account
+      </Button>
+    </div>
+  );
+}
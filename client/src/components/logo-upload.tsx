@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { MAX_LOGO_BYTES } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface LogoUploadProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Reads the chosen image into a data: URL; an empty string means no logo
+export function LogoUpload({ value, onChange }: LogoUploadProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setError("Logo must be smaller than 64 KB");
+      return;
+    }
+    setError(null);
+    const reader = new FileReader();
+    reader.onload = () => onChange(String(reader.result));
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-4">
+        {value && <img src={value} alt="Logo preview" className="h-14 w-14 rounded-full border object-cover" />}
+        <Input
+          type="file"
+          accept="image/png,image/jpeg,image/webp,image/svg+xml"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          data-testid="input-logo"
+        />
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange("")}>
+            Remove
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { PlacementChange, SubtreeMovePlan, UserWithoutPassword } from "@shared/schema";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface MoveSubtreeDialogProps {
+  client: UserWithoutPassword | null;
+  users: UserWithoutPassword[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Everyone under the client; they cannot become the client's new parent
+function descendantIds(rootId: string, users: UserWithoutPassword[]): Set<string> {
+  const ids = new Set<string>();
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    for (const child of users.filter(u => u.parentId === parentId && !ids.has(u.id))) {
+      ids.add(child.id);
+      queue.push(child.id);
+    }
+  }
+  return ids;
+}
+
+// Admin "move to" for fixing placement mistakes: preview with a dry run, then apply
+export function MoveSubtreeDialog({ client, users, onOpenChange }: MoveSubtreeDialogProps) {
+  const [parentId, setParentId] = useState("");
+  const [position, setPosition] = useState<"left" | "right">("left");
+  const [reason, setReason] = useState("");
+  const [preview, setPreview] = useState<SubtreeMovePlan | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: history = [] } = useQuery<PlacementChange[]>({
+    queryKey: [`/api/placement-changes?userId=${client?.id}`],
+    enabled: !!client,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", `/api/clients/${client!.id}/move`, {
+        parentId,
+        position,
+        reason: reason || undefined,
+        dryRun,
+      });
+      return response.json() as Promise<{ plan: SubtreeMovePlan; change: PlacementChange | null }>;
+    },
+    onSuccess: ({ plan, change }) => {
+      if (!change) {
+        setPreview(plan);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/placement-changes?userId=${client?.id}`] });
+      toast({ title: "Client moved", description: `${plan.subtreeSize} member(s) moved with ${plan.subtreeBv} BV.` });
+      close();
+    },
+    onError: (error) => {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to move client."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const close = () => {
+    setParentId("");
+    setPosition("left");
+    setReason("");
+    setPreview(null);
+    onOpenChange(false);
+  };
+
+  const nameOf = (id: string | null) => {
+    const user = users.find(u => u.id === id);
+    return user ? (user.name || user.username) : "Unknown";
+  };
+
+  const excluded = client ? descendantIds(client.id, users).add(client.id) : new Set<string>();
+  const targets = users.filter(u => !excluded.has(u.id));
+
+  return (
+    <Dialog open={!!client} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-lg" data-testid="dialog-move-subtree">
+        <DialogHeader>
+          <DialogTitle>Move {client?.name || client?.username}</DialogTitle>
+          <DialogDescription>
+            The client moves with their whole downline. Currently on the {client?.position || "-"} of {nameOf(client?.parentId || null)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>New parent</Label>
+              <Select value={parentId} onValueChange={(value) => { setParentId(value); setPreview(null); }}>
+                <SelectTrigger data-testid="select-move-parent">
+                  <SelectValue placeholder="Select a parent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{user.name || user.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Position</Label>
+              <Select value={position} onValueChange={(value) => { setPosition(value as "left" | "right"); setPreview(null); }}>
+                <SelectTrigger data-testid="select-move-position">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="left">Left</SelectItem>
+                  <SelectItem value="right">Right</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="move-reason">Reason</Label>
+            <Input
+              id="move-reason"
+              placeholder="e.g., Placed on the wrong leg"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-move-reason"
+            />
+          </div>
+
+          {preview && (
+            <ul className="text-sm space-y-1 rounded-lg bg-muted/50 p-3" data-testid="move-preview">
+              <li>{preview.subtreeSize} member(s) move, carrying {preview.subtreeBv} BV</li>
+              {preview.volumeChanges.map((change) => (
+                <li key={change.clientId}>
+                  {nameOf(change.clientId)}:{" "}
+                  {[["left", change.left], ["right", change.right]]
+                    .filter(([, delta]) => delta !== 0)
+                    .map(([leg, delta]) => `${leg} ${Number(delta) > 0 ? "+" : ""}${delta} BV`)
+                    .join(", ")}
+                </li>
+              ))}
+              <li className="text-muted-foreground">Pairs already paid are not reversed.</li>
+            </ul>
+          )}
+
+          {history.length > 0 && (
+            <div className="text-sm space-y-1">
+              <div className="font-medium">Previous moves</div>
+              {history.map((change) => (
+                <div key={change.id} className="text-muted-foreground">
+                  {new Date(change.createdAt).toLocaleDateString()}: {nameOf(change.fromParentId)} ({change.fromPosition || "-"}) →{" "}
+                  {nameOf(change.toParentId)} ({change.toPosition}){change.reason && ` — ${change.reason}`}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          {preview ? (
+            <Button onClick={() => moveMutation.mutate(false)} disabled={moveMutation.isPending} data-testid="button-confirm-move">
+              {moveMutation.isPending ? "Moving..." : "Confirm Move"}
+            </Button>
+          ) : (
+            <Button onClick={() => moveMutation.mutate(true)} disabled={!parentId || moveMutation.isPending} data-testid="button-preview-move">
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,43 +1,29 @@
 import { Badge } from "@/components/ui/badge";
 import { Award, Medal, Gem } from "lucide-react";
+import { usePlans } from "@/hooks/use-plans";
 
 interface PackageBadgeProps {
-  package: string;
+  planId?: string | null;
   size?: "sm" | "default" | "lg";
 }
 
-export function PackageBadge({ package: pkg, size = "default" }: PackageBadgeProps) {
-  const getPackageConfig = (packageName: string) => {
-    switch (packageName) {
-      case "Silver":
-        return {
-          icon: Award,
-          className: "bg-slate-100 text-slate-800 hover:bg-slate-200",
-        };
-      case "Gold":
-        return {
-          icon: Medal,
-          className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200",
-        };
-      case "Diamond":
-        return {
-          icon: Gem,
-          className: "bg-blue-100 text-blue-800 hover:bg-blue-200",
-        };
-      default:
-        return {
-          icon: Award,
-          className: "bg-slate-100 text-slate-800 hover:bg-slate-200",
-        };
-    }
-  };
+// Styles by price rank; plans above the last rank share its style
+const rankStyles = [
+  { icon: Award, className: "bg-slate-100 text-slate-800 hover:bg-slate-200" },
+  { icon: Medal, className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200" },
+  { icon: Gem, className: "bg-blue-100 text-blue-800 hover:bg-blue-200" },
+];
 
-  const { icon: Icon, className } = getPackageConfig(pkg);
+export function PackageBadge({ planId, size = "default" }: PackageBadgeProps) {
+  const { getPlanName, getPlanRank } = usePlans();
+  const name = getPlanName(planId) || "No plan";
+  const rank = getPlanRank(planId);
+  const { icon: Icon, className } = rankStyles[Math.min(Math.max(rank, 0), rankStyles.length - 1)];
 
   return (
-    <Badge variant="secondary" className={className} data-testid={`badge-package-${pkg.toLowerCase()}`}>
+    <Badge variant="secondary" className={className} data-testid={`badge-package-${name.toLowerCase().replace(/\s+/g, "-")}`}>
       <Icon className={`${size === "sm" ? "h-3 w-3" : "h-4 w-4"} mr-1`} />
-      {pkg}
+      {name}
     </Badge>
   );
 }
@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PlacementStrategy } from "@shared/schema";
+import { GitBranch } from "lucide-react";
+import { apiErrorMessage } from "@/lib/queryClient";
+
+export const placementStrategyLabels: Record<PlacementStrategy, string> = {
+  breadth_first: "Breadth-first (first free slot, level by level)",
+  extreme_left: "Extreme left (bottom of the left leg)",
+  extreme_right: "Extreme right (bottom of the right leg)",
+  weaker_leg: "Weaker leg first (less business volume)",
+  manual: "Manual (the position chosen below)",
+};
+
+interface PlacementPreviewResponse {
+  parentId: string;
+  position: "left" | "right";
+  strategy: PlacementStrategy;
+  parent: { id: string; name: string | null; username: string } | null;
+}
+
+interface PlacementPreviewProps {
+  sponsorId?: string | null;
+  strategy?: PlacementStrategy;
+  position?: "left" | "right" | null;
+}
+
+// Shows where a new member would land before the form is submitted
+export function PlacementPreview({ sponsorId, strategy, position }: PlacementPreviewProps) {
+  const params = new URLSearchParams();
+  if (sponsorId) params.set("sponsorId", sponsorId);
+  if (strategy) params.set("strategy", strategy);
+  if (position) params.set("position", position);
+
+  const { data: preview, error, isLoading } = useQuery<PlacementPreviewResponse>({
+    queryKey: [`/api/placement/preview?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  return (
+    <div className="flex items-start gap-2 rounded-lg border bg-muted/50 p-3 text-sm" data-testid="placement-preview">
+      <GitBranch className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" />
+      {isLoading ? (
+        <span className="text-muted-foreground">Finding a position...</span>
+      ) : error ? (
+        <span className="text-destructive">{apiErrorMessage(error, "No free position could be found")}</span>
+      ) : preview ? (
+        <span>
+          Will be placed on the <span className="font-medium">{preview.position}</span> of{" "}
+          <span className="font-medium">{preview.parent?.name || preview.parent?.username || "the sponsor"}</span>
+          {preview.parentId !== sponsorId && sponsorId && " (spillover)"}
+        </span>
+      ) : null}
+    </div>
+  );
+}
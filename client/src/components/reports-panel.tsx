@@ -4,6 +4,8 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { TrendingUp, Users, Award, DollarSign, Target } from "lucide-react";
+import { usePlans } from "@/hooks/use-plans";
+import { formatMoney } from "@shared/money";
 
 interface ReportsPanelProps {
   users: UserWithoutPassword[];
@@ -11,7 +13,13 @@ interface ReportsPanelProps {
   isAdmin: boolean;
 }
 
+// Chart and icon colours by plan price rank; higher ranks reuse the last one
+const rankColors = ['#94a3b8', '#eab308', '#a855f7'];
+const rankTextColors = ['text-gray-600', 'text-yellow-600', 'text-purple-600'];
+
 export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps) {
+  const { plans } = usePlans();
+  const rankStyle = <T,>(styles: T[], rank: number) => styles[Math.min(rank, styles.length - 1)];
   // Filter users based on access level
   const relevantUsers = isAdmin 
     ? users.filter(u => u.role === 'client')
@@ -30,19 +38,19 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
   }
 
   // Calculate statistics
+  const planStats = plans.map((plan, rank) => ({
+    plan,
+    rank,
+    users: relevantUsers.filter(u => u.planId === plan.id),
+  }));
   const stats = {
     total: relevantUsers.length,
-    silver: relevantUsers.filter(u => u.package === 'Silver').length,
-    gold: relevantUsers.filter(u => u.package === 'Gold').length,
-    diamond: relevantUsers.filter(u => u.package === 'Diamond').length,
   };
 
   // Plan distribution data for charts
-  const planDistributionData = [
-    { name: 'Silver', value: stats.silver, color: '#94a3b8' },
-    { name: 'Gold', value: stats.gold, color: '#eab308' },
-    { name: 'Diamond', value: stats.diamond, color: '#a855f7' },
-  ].filter(item => item.value > 0);
+  const planDistributionData = planStats
+    .map(({ plan, rank, users: planUsers }) => ({ name: plan.name, value: planUsers.length, color: rankStyle(rankColors, rank) }))
+    .filter(item => item.value > 0);
 
   const monthlyGrowthData = [
     { month: 'Jan', users: Math.floor(stats.total * 0.1) },
@@ -71,25 +79,23 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
 
   const { topReferrers } = getReferralStats();
 
-  // Estimated earnings calculations (mock data for demonstration)
-  const getEstimatedEarnings = () => {
-    const baseCommissions = {
-      Silver: { referral: 100, tree: 200 },
-      Gold: { referral: 200, tree: 400 },
-      Diamond: { referral: 300, tree: 600 }
-    };
-
-    let totalEstimated = 0;
-    relevantUsers.forEach(user => {
-      const commission = baseCommissions[user.package as keyof typeof baseCommissions] || baseCommissions.Silver;
-      const directReferrals = users.filter(u => u.parentId === user.id).length;
-      totalEstimated += (commission.referral * directReferrals) + commission.tree;
-    });
-
-    return totalEstimated;
+  // Estimated earnings from each member's plan commissions (minor units):
+  // the plan's referral commission per direct referral plus one matched pair
+  const estimateForUser = (user: UserWithoutPassword) => {
+    const plan = plans.find(p => p.id === user.planId);
+    if (!plan) return { referral: 0, tree: 0 };
+    const directReferrals = users.filter(u => u.parentId === user.id).length;
+    return { referral: plan.referralCommission * directReferrals, tree: plan.treeCommission };
   };
 
-  const estimatedEarnings = getEstimatedEarnings();
+  const estimatedEarnings = relevantUsers.reduce(
+    (sum, user) => {
+      const estimate = estimateForUser(user);
+      return { referral: sum.referral + estimate.referral, tree: sum.tree + estimate.tree };
+    },
+    { referral: 0, tree: 0 }
+  );
+  const currency = plans[0]?.currency;
 
   return (
     <div className="space-y-6">
@@ -124,41 +130,19 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
               </CardContent>
             </Card>
 
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <Award className="h-8 w-8 text-gray-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Silver Members</p>
-                    <p className="text-2xl font-bold" data-testid="silver-count">{stats.silver}</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <Award className="h-8 w-8 text-yellow-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Gold Members</p>
-                    <p className="text-2xl font-bold" data-testid="gold-count">{stats.gold}</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <Award className="h-8 w-8 text-purple-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Diamond Members</p>
-                    <p className="text-2xl font-bold" data-testid="diamond-count">{stats.diamond}</p>
+            {planStats.map(({ plan, rank, users: planUsers }) => (
+              <Card key={plan.id}>
+                <CardContent className="pt-6">
+                  <div className="flex items-center">
+                    <Award className={`h-8 w-8 ${rankStyle(rankTextColors, rank)}`} />
+                    <div className="ml-4">
+                      <p className="text-sm font-medium text-muted-foreground">{plan.name} Members</p>
+                      <p className="text-2xl font-bold" data-testid={`plan-count-${plan.id}`}>{planUsers.length}</p>
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            ))}
           </div>
 
           {/* Charts */}
@@ -299,18 +283,20 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
                 <div className="text-center p-4 border rounded-lg">
-                  <div className="text-2xl font-bold text-green-600">₹{estimatedEarnings.toLocaleString()}</div>
+                  <div className="text-2xl font-bold text-green-600">
+                    {formatMoney(estimatedEarnings.referral + estimatedEarnings.tree, currency)}
+                  </div>
                   <div className="text-sm text-muted-foreground">Total Estimated</div>
                 </div>
                 <div className="text-center p-4 border rounded-lg">
                   <div className="text-2xl font-bold text-blue-600">
-                    ₹{Math.floor(estimatedEarnings * 0.6).toLocaleString()}
+                    {formatMoney(estimatedEarnings.referral, currency)}
                   </div>
                   <div className="text-sm text-muted-foreground">Referral Commission</div>
                 </div>
                 <div className="text-center p-4 border rounded-lg">
                   <div className="text-2xl font-bold text-purple-600">
-                    ₹{Math.floor(estimatedEarnings * 0.4).toLocaleString()}
+                    {formatMoney(estimatedEarnings.tree, currency)}
                   </div>
                   <div className="text-sm text-muted-foreground">Tree Commission</div>
                 </div>
@@ -318,23 +304,21 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
 
               <div className="space-y-3">
                 <h4 className="font-medium">Earnings Breakdown by Plan:</h4>
-                {['Silver', 'Gold', 'Diamond'].map(plan => {
-                  const planUsers = relevantUsers.filter(u => u.package === plan);
-                  const planCommission = plan === 'Silver' ? 300 : plan === 'Gold' ? 600 : 900;
-                  const estimated = planUsers.length * planCommission;
-                  
+                {planStats.map(({ plan, rank, users: planUsers }) => {
                   if (planUsers.length === 0) return null;
+
+                  const estimated = planUsers.reduce((sum, user) => {
+                    const estimate = estimateForUser(user);
+                    return sum + estimate.referral + estimate.tree;
+                  }, 0);
                   
                   return (
-                    <div key={plan} className="flex justify-between items-center p-3 bg-muted/50 rounded">
+                    <div key={plan.id} className="flex justify-between items-center p-3 bg-muted/50 rounded">
                       <div className="flex items-center space-x-2">
-                        <Award className={`h-5 w-5 ${
-                          plan === 'Silver' ? 'text-gray-600' : 
-                          plan === 'Gold' ? 'text-yellow-600' : 'text-purple-600'
-                        }`} />
-                        <span>{plan} Plan ({planUsers.length} users)</span>
+                        <Award className={`h-5 w-5 ${rankStyle(rankTextColors, rank)}`} />
+                        <span>{plan.name} Plan ({planUsers.length} users)</span>
                       </div>
-                      <span className="font-medium">₹{estimated.toLocaleString()}</span>
+                      <span className="font-medium">{formatMoney(estimated, plan.currency)}</span>
                     </div>
                   );
                 })}
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SubtreeStats } from "@shared/schema";
+
+interface SubtreeStatsSummaryProps {
+  clientId: string;
+}
+
+// Team size, depth and per-leg figures computed on the server, so the page
+// never needs the whole downline to show them
+export function SubtreeStatsSummary({ clientId }: SubtreeStatsSummaryProps) {
+  const { data: stats, isLoading } = useQuery<SubtreeStats>({
+    queryKey: [`/api/clients/${clientId}/subtree-stats`],
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse h-16 bg-gray-200 rounded" />;
+  }
+  if (!stats) return null;
+
+  const figures = [
+    { label: "Team Size", value: stats.size },
+    { label: "Depth", value: stats.depth },
+    { label: "Left Leg", value: `${stats.left.count} · ${stats.left.bv} BV` },
+    { label: "Right Leg", value: `${stats.right.count} · ${stats.right.bv} BV` },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3" data-testid="subtree-stats">
+      {figures.map(({ label, value }) => (
+        <div key={label} className="text-center p-3 bg-muted/50 rounded-lg">
+          <div className="text-lg font-bold">{value}</div>
+          <div className="text-xs text-muted-foreground">{label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TwoFactorStatus } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { TwoFactorSetup, RecoveryCodesList } from "@/components/two-factor-setup";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck } from "lucide-react";
+
+// Turn two-factor authentication on or off and manage recovery codes
+export function TwoFactorSettingsCard() {
+  const [settingUp, setSettingUp] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+
+  const codeMutation = useMutation({
+    mutationFn: async (action: "disable" | "recovery-codes") => {
+      const response = await apiRequest("POST", `/api/auth/2fa/${action}`, { code });
+      return response.json() as Promise<{ message?: string; recoveryCodes?: string[] }>;
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes || null);
+      refresh();
+      toast({ title: "Success", description: result.message || "New recovery codes generated" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Invalid authentication code."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from your authenticator app after your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="animate-pulse h-16 bg-gray-200 rounded" />
+        ) : recoveryCodes ? (
+          <>
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </>
+        ) : !status.enabled ? (
+          settingUp ? (
+            <TwoFactorSetup
+              onEnabled={(result) => {
+                setSettingUp(false);
+                setRecoveryCodes(result.recoveryCodes);
+                refresh();
+              }}
+            />
+          ) : (
+            <Button onClick={() => setSettingUp(true)} data-testid="button-setup-2fa">
+              Set up two-factor authentication
+            </Button>
+          )
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesLeft} recovery code(s) left. Enter a current code to make changes.
+            </p>
+            <Input
+              placeholder="Authenticator or recovery code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="max-w-xs"
+              data-testid="input-2fa-code"
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                disabled={!code || codeMutation.isPending}
+                onClick={() => codeMutation.mutate("recovery-codes")}
+                data-testid="button-regenerate-recovery-codes"
+              >
+                New recovery codes
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={!code || status.required || codeMutation.isPending}
+                onClick={() => codeMutation.mutate("disable")}
+                data-testid="button-disable-2fa"
+              >
+                Turn off
+              </Button>
+            </div>
+            {status.required && (
+              <p className="text-xs text-muted-foreground">Two-factor authentication is required for admins.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import type { TwoFactorEnrollment, UserWithoutPassword } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+}
+
+// Six-digit authenticator code
+export function TwoFactorCodeInput({ value, onChange, onComplete }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      data-testid="input-otp"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted/50 p-3 font-mono text-sm" data-testid="recovery-codes">
+        {codes.map((code) => <div key={code}>{code}</div>)}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard?.writeText(codes.join("\n"))}>
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+export interface TwoFactorSetupResult {
+  recoveryCodes: string[];
+  // Present when enrolling finished a held login
+  user?: UserWithoutPassword;
+}
+
+interface TwoFactorSetupProps {
+  onEnabled: (result: TwoFactorSetupResult) => void;
+}
+
+// Scan the QR code, then confirm with the first code from the app
+export function TwoFactorSetup({ onEnabled }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const { toast } = useToast();
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json() as Promise<TwoFactorEnrollment>;
+    },
+    onSuccess: setEnrollment,
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to start two-factor setup."), variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code: value });
+      return response.json() as Promise<TwoFactorSetupResult>;
+    },
+    onSuccess: onEnabled,
+    onError: (error) => {
+      setCode("");
+      toast({ title: "Error", description: apiErrorMessage(error, "Invalid authentication code."), variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  if (!enrollment) {
+    return <div className="animate-pulse h-48 bg-gray-200 rounded" />;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="two-factor-setup">
+      <p className="text-sm text-muted-foreground">
+        Scan this code with an authenticator app such as Google Authenticator or Authy, then enter the 6-digit code it shows.
+      </p>
+      <img
+        src={`data:image/svg+xml;utf8,${encodeURIComponent(enrollment.qrSvg)}`}
+        alt="Authenticator QR code"
+        className="mx-auto h-48 w-48 rounded bg-white"
+        data-testid="img-totp-qr"
+      />
+      <p className="text-center text-xs text-muted-foreground">
+        Can't scan? Enter this key: <code className="break-all">{enrollment.secret}</code>
+      </p>
+      <div className="flex justify-center">
+        <TwoFactorCodeInput value={code} onChange={setCode} onComplete={(value) => enableMutation.mutate(value)} />
+      </div>
+      <Button
+        type="button"
+        className="w-full"
+        disabled={code.length !== 6 || enableMutation.isPending}
+        onClick={() => enableMutation.mutate(code)}
+        data-testid="button-enable-2fa"
+      >
+        {enableMutation.isPending ? "Verifying..." : "Turn on two-factor authentication"}
+      </Button>
+    </div>
+  );
+}
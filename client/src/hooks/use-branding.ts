@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SetupStatus } from "@shared/schema";
+import defaultLogo from "@assets/logo_1755178929997.png";
+
+const DEFAULT_COMPANY_NAME = "Napping Hand Academy";
+
+// Company name and logo chosen during setup, falling back to the bundled ones
+export function useBranding() {
+  const { data, isLoading } = useQuery<SetupStatus>({
+    queryKey: ["/api/setup/status"],
+  });
+
+  return {
+    isLoading,
+    setupRequired: data?.required ?? false,
+    companyName: data?.companyName || DEFAULT_COMPANY_NAME,
+    logoUrl: data?.logoUrl || defaultLogo,
+  };
+}
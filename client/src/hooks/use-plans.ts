@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Plan } from "@shared/schema";
+
+// Plans from the server, cheapest first. Badge styles and plan ordering in
+// the UI follow this price order rather than any fixed plan names.
+export function usePlans() {
+  const { data = [], isLoading } = useQuery<Plan[]>({
+    queryKey: ["/api/plans"],
+  });
+
+  const plans = [...data].sort((a, b) => a.price - b.price);
+  const getPlan = (planId?: string | null) => (planId ? plans.find(plan => plan.id === planId) : undefined);
+
+  return {
+    plans,
+    isLoading,
+    getPlan,
+    getPlanName: (planId?: string | null) => getPlan(planId)?.name,
+    getPlanRank: (planId?: string | null) => plans.findIndex(plan => plan.id === planId),
+  };
+}
@@ -7,6 +7,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Errors thrown above look like `400: {"message": "..."}`
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  const text = error instanceof Error ? error.message : "";
+  try {
+    return JSON.parse(text.slice(text.indexOf(":") + 1)).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
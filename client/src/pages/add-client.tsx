@@ -1,17 +1,19 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { createClientSchema, CreateClientRequest, planPricing, Plan } from "@shared/schema";
+import { useLocation, useSearch } from "wouter";
+import { createClientSchema, CreateClientRequest, placementStrategies } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AdminSidebar } from "@/components/admin-sidebar";
+import { PlacementPreview, placementStrategyLabels } from "@/components/placement-preview";
 import { useToast } from "@/hooks/use-toast";
 import { useAuthStore } from "@/hooks/use-auth";
+import { usePlans } from "@/hooks/use-plans";
 import { UserPlus, CreditCard, ArrowLeft, Users } from "lucide-react";
 import { Link } from "wouter";
 
@@ -21,10 +23,13 @@ export default function AddClient() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { user: currentUser } = useAuthStore();
 
+  // An empty slot clicked in the genealogy tree arrives as ?parentId=&position=
+  const slot = new URLSearchParams(useSearch());
+  const slotParentId = slot.get("parentId");
+  const slotPosition = slot.get("position");
+
   // Fetch available plans from the API
-  const { data: plans, isLoading: plansLoading } = useQuery<Plan[]>({
-    queryKey: ['/api/plans'],
-  });
+  const { plans, isLoading: plansLoading, getPlan } = usePlans();
 
   const form = useForm<CreateClientRequest>({
     resolver: zodResolver(createClientSchema),
@@ -34,19 +39,19 @@ export default function AddClient() {
       password: "",
       mobile: "",
       email: "",
-      package: undefined,
-      parentId: currentUser?.id || null,
-      position: null
+      planId: "",
+      parentId: slotParentId || currentUser?.id || null,
+      position: slotPosition === "left" || slotPosition === "right" ? slotPosition : null
     }
   });
 
   const onSubmit = async (data: CreateClientRequest) => {
     setIsSubmitting(true);
     try {
-      // Ensure parentId is set to current user's ID
+      // Place under the chosen slot's parent, otherwise under the current user
       const clientData = {
         ...data,
-        parentId: currentUser?.id || null
+        parentId: data.parentId || currentUser?.id || null
       };
       
       // Store client data in sessionStorage for the payment page
@@ -71,9 +76,10 @@ export default function AddClient() {
     }
   };
 
-  const selectedPlan = form.watch("package");
-  const selectedPlanData = plans?.find(plan => plan.name === selectedPlan);
-  const planAmount = selectedPlan ? planPricing[selectedPlan] : 0;
+  const selectedPlan = form.watch("planId");
+  const selectedPlanData = getPlan(selectedPlan);
+  const placementStrategy = form.watch("placementStrategy");
+  const preferredPosition = form.watch("position");
 
   return (
     <div className="min-h-screen bg-background">
@@ -240,7 +246,7 @@ export default function AddClient() {
                   {/* Package Selection */}
                   <FormField
                     control={form.control}
-                    name="package"
+                    name="planId"
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Select Package *</FormLabel>
@@ -253,10 +259,10 @@ export default function AddClient() {
                           <SelectContent>
                             {plansLoading ? (
                               <SelectItem value="loading" disabled>Loading plans...</SelectItem>
-                            ) : plans && plans.length > 0 ? (
+                            ) : plans.length > 0 ? (
                               plans.filter(plan => plan.status === 'active').map((plan) => (
-                                <SelectItem key={plan.id} value={plan.name} data-testid={`option-${plan.name.toLowerCase()}`}>
-                                  {plan.name} - {plan.price}
+                                <SelectItem key={plan.id} value={plan.id} data-testid={`option-${plan.name.toLowerCase()}`}>
+                                  {plan.name} - {formatMoney(plan.price, plan.currency)}
                                 </SelectItem>
                               ))
                             ) : (
@@ -272,7 +278,37 @@ export default function AddClient() {
                     )}
                   />
 
+                  {/* Placement Strategy */}
+                  <FormField
+                    control={form.control}
+                    name="placementStrategy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Placement Strategy (Optional)</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-placement-strategy">
+                              <SelectValue placeholder="Default placement" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {placementStrategies.map((strategy) => (
+                              <SelectItem key={strategy} value={strategy}>
+                                {placementStrategyLabels[strategy]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                        <p className="text-xs text-muted-foreground">
+                          Decides where the client lands when your own positions are full.
+                        </p>
+                      </FormItem>
+                    )}
+                  />
+
                   {/* Position Selection (Optional) */}
+                  {(!placementStrategy || placementStrategy === "manual") && (
                   <FormField
                     control={form.control}
                     name="position"
@@ -297,6 +333,13 @@ export default function AddClient() {
                       </FormItem>
                     )}
                   />
+                  )}
+
+                  <PlacementPreview
+                    sponsorId={slotParentId || currentUser?.id}
+                    strategy={placementStrategy}
+                    position={placementStrategy && placementStrategy !== "manual" ? null : preferredPosition}
+                  />
 
                   {/* Package Summary */}
                   {selectedPlan && selectedPlanData && (
@@ -308,12 +351,12 @@ export default function AddClient() {
                       <div className="space-y-2">
                         <div className="flex justify-between">
                           <span className="text-muted-foreground">Selected Plan:</span>
-                          <span className="font-medium">{selectedPlan}</span>
+                          <span className="font-medium">{selectedPlanData.name}</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-muted-foreground">Plan Price:</span>
                           <span className="font-medium text-green-600">
-                            {selectedPlanData.price}
+                            {formatMoney(selectedPlanData.price, selectedPlanData.currency)}
                           </span>
                         </div>
                         <div className="flex justify-between">
@@ -325,7 +368,7 @@ export default function AddClient() {
                         <div className="flex justify-between">
                           <span className="text-muted-foreground">Referral Commission:</span>
                           <span className="font-medium">
-                            {selectedPlanData.referralCommission}
+                            {formatMoney(selectedPlanData.referralCommission, selectedPlanData.currency)}
                           </span>
                         </div>
 
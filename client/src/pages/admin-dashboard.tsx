@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { User, ClientStats } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { clearAuth } from "@/lib/auth";
 import { useAuthStore } from "@/hooks/use-auth";
@@ -19,7 +19,7 @@ export default function AdminDashboard() {
     queryKey: ['/api/clients'],
   });
 
-  const { data: stats } = useQuery<{ total: number; silver: number; gold: number; diamond: number }>({
+  const { data: stats } = useQuery<ClientStats>({
     queryKey: ['/api/stats'],
   });
 
@@ -40,6 +40,13 @@ export default function AdminDashboard() {
     logoutMutation.mutate();
   };
 
+  // Stat card styles by plan price rank; higher ranks reuse the last one
+  const planCardStyles = [
+    { icon: Award, background: "bg-slate-100 dark:bg-slate-800", color: "text-slate-600 dark:text-slate-400" },
+    { icon: Medal, background: "bg-yellow-100 dark:bg-yellow-900/20", color: "text-yellow-600 dark:text-yellow-500" },
+    { icon: Gem, background: "bg-purple-100 dark:bg-purple-900/20", color: "text-purple-600 dark:text-purple-400" },
+  ];
+
   const getInitials = (username: string) => {
     return username.split('_').map(part => part.charAt(0).toUpperCase()).join('').slice(0, 2);
   };
@@ -130,53 +137,26 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
 
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <div className="p-2 bg-slate-100 dark:bg-slate-800 rounded-lg">
-                    <Award className="h-6 w-6 text-slate-600 dark:text-slate-400" />
-                  </div>
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Silver Package</p>
-                    <p className="text-2xl font-bold text-foreground" data-testid="stat-silver-clients">
-                      {stats?.silver || 0}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <div className="p-2 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg">
-                    <Medal className="h-6 w-6 text-yellow-600 dark:text-yellow-500" />
-                  </div>
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Gold Package</p>
-                    <p className="text-2xl font-bold text-foreground" data-testid="stat-gold-clients">
-                      {stats?.gold || 0}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <div className="p-2 bg-purple-100 dark:bg-purple-900/20 rounded-lg">
-                    <Gem className="h-6 w-6 text-purple-600 dark:text-purple-400" />
-                  </div>
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Diamond Package</p>
-                    <p className="text-2xl font-bold text-foreground" data-testid="stat-diamond-clients">
-                      {stats?.diamond || 0}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {stats?.byPlan.map((planStat, rank) => {
+              const { icon: Icon, background, color } = planCardStyles[Math.min(rank, planCardStyles.length - 1)];
+              return (
+                <Card key={planStat.planId}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center">
+                      <div className={`p-2 ${background} rounded-lg`}>
+                        <Icon className={`h-6 w-6 ${color}`} />
+                      </div>
+                      <div className="ml-4">
+                        <p className="text-sm font-medium text-muted-foreground">{planStat.name} Package</p>
+                        <p className="text-2xl font-bold text-foreground" data-testid={`stat-plan-clients-${planStat.planId}`}>
+                          {planStat.count}
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
 
 
@@ -221,7 +201,7 @@ export default function AdminDashboard() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <PackageBadge package={client.package || "Silver"} />
+                        <PackageBadge planId={client.planId} />
                       </TableCell>
                       <TableCell className="text-sm text-slate-500">
                         {getParentName(client.parentId)}
@@ -0,0 +1,227 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { LogoUpload } from "@/components/logo-upload";
+import { Switch } from "@/components/ui/switch";
+import { AdminSidebar } from "@/components/admin-sidebar";
+import { TwoFactorSettingsCard } from "@/components/two-factor-settings";
+import { ActiveSessions } from "@/components/active-sessions";
+import { LoginHistory } from "@/components/login-history";
+import {
+  organizationSettingsSchema,
+  type AppSettings,
+  type OrganizationSettingsRequest,
+  type UpdateSecuritySettingsRequest,
+} from "@shared/schema";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Building2, Lock } from "lucide-react";
+import { Link } from "wouter";
+
+export default function AdminSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/admin/settings"],
+  });
+
+  const organizationForm = useForm<OrganizationSettingsRequest>({
+    resolver: zodResolver(organizationSettingsSchema),
+    defaultValues: { companyName: "", logoUrl: "", upiPayeeVpa: "", upiPayeeName: "" },
+  });
+
+  useEffect(() => {
+    if (settings) {
+      organizationForm.reset({
+        companyName: settings.companyName || "",
+        logoUrl: settings.logoUrl || "",
+        upiPayeeVpa: settings.upiPayeeVpa || "",
+        upiPayeeName: settings.upiPayeeName || "",
+      });
+    }
+  }, [settings]);
+
+  const organizationMutation = useMutation({
+    mutationFn: async (organization: OrganizationSettingsRequest) => {
+      const response = await apiRequest("PATCH", "/api/admin/settings/organization", organization);
+      return response.json() as Promise<AppSettings>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/admin/settings"], updated);
+      // Name and logo are part of the public branding
+      queryClient.invalidateQueries({ queryKey: ["/api/setup/status"] });
+      toast({ title: "Settings saved", description: "Organisation details updated." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update organisation details."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const securityMutation = useMutation({
+    mutationFn: async (update: UpdateSecuritySettingsRequest) => {
+      const response = await apiRequest("PATCH", "/api/admin/settings/security", update);
+      return response.json() as Promise<AppSettings>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/admin/settings"], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({
+        title: "Settings saved",
+        description: updated.requireAdminTwoFactor
+          ? "Admins must now use two-factor authentication."
+          : "Two-factor authentication is now optional for admins.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update security settings."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AdminSidebar />
+
+      <div className="lg:ml-64 transition-all duration-300">
+        {/* Header */}
+        <header className="bg-card shadow-sm border-b border-border sticky top-0 z-10">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4 lg:ml-0 ml-12">
+              <Link href="/admin" className="text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Settings</h1>
+                <p className="text-sm text-muted-foreground">Account security and platform policies</p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="p-6 space-y-6 max-w-3xl">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Building2 className="h-5 w-5" />
+                Organisation
+              </CardTitle>
+              <CardDescription>
+                Company details shown to everyone, and where UPI payments are collected.
+                {settings && ` Amounts are in ${settings.currency}, which was fixed at setup.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...organizationForm}>
+                <form onSubmit={organizationForm.handleSubmit((data) => organizationMutation.mutate(data))} className="space-y-4">
+                  <FormField
+                    control={organizationForm.control}
+                    name="companyName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Company name</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-company-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={organizationForm.control}
+                    name="logoUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Logo</FormLabel>
+                        <LogoUpload value={field.value} onChange={field.onChange} />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={organizationForm.control}
+                    name="upiPayeeVpa"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>UPI ID</FormLabel>
+                        <FormControl>
+                          <Input placeholder="company@okaxis" {...field} data-testid="input-upi-vpa" />
+                        </FormControl>
+                        <FormDescription>Leave empty to use the UPI_PAYEE_VPA environment variable.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={organizationForm.control}
+                    name="upiPayeeName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Payee name</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-upi-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={!settings || organizationMutation.isPending} data-testid="button-save-organization">
+                    {organizationMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Security Policy
+              </CardTitle>
+              <CardDescription>
+                Rules that apply to every admin account.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="require-admin-2fa">Require two-factor authentication for admins</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Admins without it are asked to set it up at their next login. Turn it on for your own account first.
+                  </p>
+                </div>
+                <Switch
+                  id="require-admin-2fa"
+                  checked={settings?.requireAdminTwoFactor ?? false}
+                  disabled={!settings || securityMutation.isPending}
+                  onCheckedChange={(checked) => securityMutation.mutate({ requireAdminTwoFactor: checked })}
+                  data-testid="switch-require-admin-2fa"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <TwoFactorSettingsCard />
+
+          <ActiveSessions />
+
+          <LoginHistory />
+        </main>
+      </div>
+    </div>
+  );
+}
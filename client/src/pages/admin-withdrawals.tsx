@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AdminSidebar } from "@/components/admin-sidebar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Building2, CheckCircle, Clock, Download, Layers, Loader2, XCircle, Ban } from "lucide-react";
+import {
+  type PayoutBatch,
+  type PayoutMethod,
+  type User,
+  type Withdrawal,
+  type WithdrawalStatus,
+  withdrawalStatuses,
+  withdrawalTransitions
+} from "@shared/schema";
+import { formatMoney } from "@shared/money";
+
+const statusLabels: Record<WithdrawalStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  processing: "Processing",
+  completed: "Completed",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+// Actions offered per withdrawal; "processing" is reached by adding it to a payout batch
+const actionLabels: Partial<Record<WithdrawalStatus, string>> = {
+  approved: "Approve",
+  completed: "Mark Completed",
+  rejected: "Reject",
+  cancelled: "Cancel",
+};
+
+export default function AdminWithdrawals() {
+  const [location] = useLocation();
+  const initialStatus = location.endsWith("/pending") ? "pending" : location.endsWith("/approved") ? "approved" : "all";
+  const [selectedStatus, setSelectedStatus] = useState<string>(initialStatus);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingAction, setPendingAction] = useState<{ withdrawal: Withdrawal; status: WithdrawalStatus } | null>(null);
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: withdrawals, isLoading } = useQuery<Withdrawal[]>({
+    queryKey: ["/api/withdrawals"],
+  });
+
+  const { data: clients } = useQuery<Omit<User, "password">[]>({
+    queryKey: ["/api/clients"],
+  });
+
+  const { data: batches } = useQuery<PayoutBatch[]>({
+    queryKey: ["/api/payout-batches"],
+  });
+
+  const { data: payoutMethods } = useQuery<PayoutMethod[]>({
+    queryKey: ["/api/payout-methods"],
+  });
+
+  const clientName = (clientId: string) => {
+    const client = clients?.find(c => c.id === clientId);
+    return client ? (client.name || client.username) : clientId;
+  };
+
+  const filteredWithdrawals = withdrawals?.filter(w => selectedStatus === "all" || w.status === selectedStatus) || [];
+  const batchable = (w: Withdrawal) => w.status === "approved" && !w.batchId;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/withdrawals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payout-batches"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Request failed",
+      variant: "destructive",
+    });
+  };
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status, adminNotes }: { id: string; status: WithdrawalStatus; adminNotes?: string }) => {
+      return await apiRequest("PUT", `/api/withdrawals/${id}`, { status, adminNotes: adminNotes || undefined });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Withdrawal updated successfully" });
+      invalidate();
+      setPendingAction(null);
+      setNotes("");
+    },
+    onError,
+  });
+
+  const verifyMethodMutation = useMutation({
+    mutationFn: async ({ id, isVerified }: { id: string; isVerified: boolean }) => {
+      return await apiRequest("PUT", `/api/payout-methods/${id}/verify`, { isVerified });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Payout method updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/payout-methods"] });
+    },
+    onError,
+  });
+
+  const createBatchMutation = useMutation({
+    mutationFn: async (withdrawalIds: string[]) => {
+      return await apiRequest("POST", "/api/payout-batches", { withdrawalIds });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Payout batch created" });
+      invalidate();
+      setSelectedIds([]);
+    },
+    onError,
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      return await apiRequest("POST", `/api/payout-batches/${batchId}/mark-paid`);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Payout batch marked as paid" });
+      invalidate();
+    },
+    onError,
+  });
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, id] : ids.filter(existing => existing !== id));
+  };
+
+  const getStatusBadge = (status: string) => {
+    const variants = {
+      pending: { variant: "secondary" as const, icon: Clock },
+      approved: { variant: "default" as const, icon: CheckCircle },
+      processing: { variant: "outline" as const, icon: Loader2 },
+      completed: { variant: "default" as const, icon: CheckCircle },
+      rejected: { variant: "destructive" as const, icon: XCircle },
+      cancelled: { variant: "outline" as const, icon: Ban },
+    };
+
+    const config = variants[status as keyof typeof variants] || variants.pending;
+    const Icon = config.icon;
+
+    return (
+      <Badge variant={config.variant} className="flex items-center gap-1">
+        <Icon className="h-3 w-3" />
+        {statusLabels[status as WithdrawalStatus] || status}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AdminSidebar />
+
+      <div className="lg:ml-64 transition-all duration-300">
+        <div className="p-6">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold tracking-tight">Withdrawals</h1>
+            <p className="text-muted-foreground">
+              Review withdrawal requests and pay them out in batches
+            </p>
+          </div>
+
+          <Tabs defaultValue={location.endsWith("/batches") ? "batches" : "requests"} className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="requests">
+                <Building2 className="h-4 w-4 mr-2" />
+                Requests ({withdrawals?.length || 0})
+              </TabsTrigger>
+              <TabsTrigger value="batches">
+                <Layers className="h-4 w-4 mr-2" />
+                Payout Batches ({batches?.length || 0})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="requests" className="space-y-4 mt-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Status</SelectItem>
+                    {withdrawalStatuses.map(status => (
+                      <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => createBatchMutation.mutate(selectedIds)}
+                  disabled={selectedIds.length === 0 || createBatchMutation.isPending}
+                >
+                  <Layers className="h-4 w-4 mr-2" />
+                  {createBatchMutation.isPending ? "Creating..." : `Create Payout Batch (${selectedIds.length})`}
+                </Button>
+              </div>
+
+              {isLoading ? (
+                <Card>
+                  <CardContent className="p-6">
+                    <div className="animate-pulse space-y-2">
+                      <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+                      <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ) : filteredWithdrawals.length > 0 ? (
+                filteredWithdrawals.map(withdrawal => {
+                  const actions = (withdrawalTransitions[withdrawal.status as WithdrawalStatus] || [])
+                    .filter(status => actionLabels[status]);
+                  const method = payoutMethods?.find(m => m.id === withdrawal.payoutMethodId);
+                  return (
+                    <Card key={withdrawal.id}>
+                      <CardContent className="p-6">
+                        <div className="flex justify-between items-start gap-4">
+                          <div className="flex items-start gap-3">
+                            <Checkbox
+                              checked={selectedIds.includes(withdrawal.id)}
+                              disabled={!batchable(withdrawal)}
+                              onCheckedChange={(checked) => toggleSelected(withdrawal.id, checked === true)}
+                              className="mt-1"
+                            />
+                            <div>
+                              <h3 className="font-semibold text-lg">{formatMoney(withdrawal.amount, withdrawal.currency)}</h3>
+                              <p className="text-sm text-muted-foreground">
+                                Pay {formatMoney(withdrawal.netAmount, withdrawal.currency)} after TDS {formatMoney(withdrawal.tdsAmount, withdrawal.currency)} and admin charge {formatMoney(withdrawal.adminCharge, withdrawal.currency)}
+                              </p>
+                              <p className="text-sm text-muted-foreground">
+                                {clientName(withdrawal.clientId)} • Requested {new Date(withdrawal.requestedAt).toLocaleString()}
+                              </p>
+                              <p className="text-sm text-muted-foreground whitespace-pre-line mt-2">{withdrawal.bankDetails}</p>
+                              {method && (
+                                <div className="flex items-center gap-2 mt-2">
+                                  <Badge variant={method.isVerified ? "default" : "secondary"}>
+                                    {method.isVerified ? "Method verified" : "Method not verified"}
+                                  </Badge>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => verifyMethodMutation.mutate({ id: method.id, isVerified: !method.isVerified })}
+                                    disabled={verifyMethodMutation.isPending}
+                                  >
+                                    {method.isVerified ? "Revoke Verification" : "Verify Method"}
+                                  </Button>
+                                </div>
+                              )}
+                              {withdrawal.adminNotes && (
+                                <p className="text-sm mt-2"><span className="font-medium">Notes:</span> {withdrawal.adminNotes}</p>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex flex-col items-end gap-2">
+                            {getStatusBadge(withdrawal.status)}
+                            <div className="flex gap-2">
+                              {actions.map(status => (
+                                <Button
+                                  key={status}
+                                  size="sm"
+                                  variant={status === "rejected" || status === "cancelled" ? "outline" : "default"}
+                                  onClick={() => setPendingAction({ withdrawal, status })}
+                                >
+                                  {actionLabels[status]}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })
+              ) : (
+                <Card>
+                  <CardContent className="p-12 text-center">
+                    <Building2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No withdrawals found</h3>
+                    <p className="text-muted-foreground">No withdrawal requests match this status</p>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="batches" className="space-y-4 mt-6">
+              {batches && batches.length > 0 ? (
+                batches.map(batch => (
+                  <Card key={batch.id}>
+                    <CardHeader>
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <CardTitle>{batch.reference}</CardTitle>
+                          <CardDescription>
+                            {batch.withdrawalCount} withdrawal(s) • Created {new Date(batch.createdAt).toLocaleString()}
+                            {batch.paidAt && ` • Paid ${new Date(batch.paidAt).toLocaleString()}`}
+                          </CardDescription>
+                        </div>
+                        <Badge variant={batch.status === "paid" ? "default" : "secondary"}>
+                          {batch.status === "paid" ? "Paid" : "Processing"}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex justify-between items-center">
+                        <p className="text-2xl font-bold">{formatMoney(batch.totalAmount, batch.currency)}</p>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={`/api/payout-batches/${batch.id}/export`} download>
+                              <Download className="h-4 w-4 mr-1" />
+                              Export CSV
+                            </a>
+                          </Button>
+                          {batch.status !== "paid" && (
+                            <Button
+                              size="sm"
+                              onClick={() => markPaidMutation.mutate(batch.id)}
+                              disabled={markPaidMutation.isPending}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Mark Paid
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              ) : (
+                <Card>
+                  <CardContent className="p-12 text-center">
+                    <Layers className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No payout batches</h3>
+                    <p className="text-muted-foreground">Select approved withdrawals to create a batch</p>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      {/* Status change confirmation */}
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pendingAction && actionLabels[pendingAction.status]} Withdrawal</DialogTitle>
+            <DialogDescription>
+              {pendingAction && `${formatMoney(pendingAction.withdrawal.amount, pendingAction.withdrawal.currency)} for ${clientName(pendingAction.withdrawal.clientId)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Notes for the client (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Back
+            </Button>
+            <Button
+              onClick={() => pendingAction && updateStatusMutation.mutate({
+                id: pendingAction.withdrawal.id,
+                status: pendingAction.status,
+                adminNotes: notes,
+              })}
+              disabled={updateStatusMutation.isPending}
+            >
+              {updateStatusMutation.isPending ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { updateAdminPasswordSchema, type UpdatePasswordRequest } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { clearAuth, setAuthUser } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound } from "lucide-react";
+
+// Shown instead of the app to an admin who still has the old default password
+export default function ChangeDefaultPassword() {
+  const { user, setUser, logout } = useAuthStore();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<UpdatePasswordRequest>({
+    resolver: zodResolver(updateAdminPasswordSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async (data: UpdatePasswordRequest) => {
+      const response = await apiRequest("PUT", "/api/profile/password", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      if (user) {
+        const updated = { ...user, mustChangePassword: false };
+        setAuthUser(updated);
+        setUser(updated);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({ title: "Password changed", description: "Your new password is in effect." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to change password."), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/logout", {});
+      return response.json();
+    },
+    onSuccess: () => {
+      clearAuth();
+      logout();
+    },
+  });
+
+  const fields: { name: keyof UpdatePasswordRequest; label: string; description?: string }[] = [
+    { name: "currentPassword", label: "Current password" },
+    { name: "newPassword", label: "New password", description: "At least 12 characters with upper and lower case letters, a number and a symbol." },
+    { name: "confirmPassword", label: "Confirm new password" },
+  ];
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted">
+      <Card className="w-full max-w-md mx-4 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Choose a new password
+          </CardTitle>
+          <CardDescription>
+            This account still uses the default password that came with the app. Set a new one to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => passwordMutation.mutate(data))} className="space-y-4">
+              {fields.map(({ name, label, description }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} data-testid={`input-${name}`} />
+                      </FormControl>
+                      {description && <FormDescription>{description}</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <Button type="submit" className="w-full" disabled={passwordMutation.isPending} data-testid="button-change-password">
+                {passwordMutation.isPending ? "Saving..." : "Change password"}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={() => logoutMutation.mutate()}>
+                Sign out
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
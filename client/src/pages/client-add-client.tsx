@@ -2,7 +2,7 @@ import React, { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,8 +10,11 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { usePlans } from "@/hooks/use-plans";
 import { ClientSidebar } from "@/components/client-sidebar";
-import { createClientSchema, type CreateClientRequest } from "@shared/schema";
+import { PlacementPreview, placementStrategyLabels } from "@/components/placement-preview";
+import { createClientSchema, placementStrategies, type CreateClientRequest } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import { apiRequest } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 
@@ -22,9 +25,11 @@ interface Position {
 
 export default function ClientAddClient() {
   const [, setLocation] = useLocation();
+  const search = useSearch();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedParent, setSelectedParent] = useState<string>("");
+  const { plans, getPlanName } = usePlans();
 
   const form = useForm<CreateClientRequest>({
     resolver: zodResolver(createClientSchema),
@@ -34,12 +39,15 @@ export default function ClientAddClient() {
       password: "",
       mobile: "",
       email: "",
-      package: undefined,
+      planId: "",
       parentId: "",
       position: undefined,
     },
   });
 
+  const placementStrategy = form.watch("placementStrategy");
+  const preferredPosition = form.watch("position");
+
   // Get current user to use as default parent
   const { data: user } = useQuery({
     queryKey: ["/api/auth/me"],
@@ -92,13 +100,20 @@ export default function ClientAddClient() {
     createClientMutation.mutate(data);
   };
 
-  // Set current user as default parent when component loads
+  // Default to the current user as parent, or to the empty slot clicked in
+  // the genealogy tree (?parentId=&position=)
   React.useEffect(() => {
     if (user && !selectedParent) {
-      setSelectedParent((user as any).id);
-      form.setValue("parentId", (user as any).id);
+      const slot = new URLSearchParams(search);
+      const parentId = slot.get("parentId") || (user as any).id;
+      const position = slot.get("position");
+      setSelectedParent(parentId);
+      form.setValue("parentId", parentId);
+      if (position === "left" || position === "right") {
+        form.setValue("position", position);
+      }
     }
-  }, [user, selectedParent, form]);
+  }, [user, selectedParent, form, search]);
 
   return (
     <div className="flex h-screen bg-gray-100 dark:bg-gray-900">
@@ -196,7 +211,7 @@ export default function ClientAddClient() {
 
                   <FormField
                     control={form.control}
-                    name="package"
+                    name="planId"
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Select Plan</FormLabel>
@@ -207,9 +222,11 @@ export default function ClientAddClient() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="Silver">Silver - ₹510.00 INR</SelectItem>
-                            <SelectItem value="Gold">Gold - ₹1010.00 INR</SelectItem>
-                            <SelectItem value="Diamond">Diamond - ₹1510.00 INR</SelectItem>
+                            {plans.filter(plan => plan.status === "active").map((plan) => (
+                              <SelectItem key={plan.id} value={plan.id}>
+                                {plan.name} - {formatMoney(plan.price, plan.currency)}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -236,13 +253,13 @@ export default function ClientAddClient() {
                         <SelectContent>
                           {user && (
                             <SelectItem value={(user as any).id}>
-                              {(user as any).name || (user as any).username} (You) - {(user as any).package || "Admin"}
+                              {(user as any).name || (user as any).username} (You) - {getPlanName((user as any).planId) || "Admin"}
                             </SelectItem>
                           )}
                           {clients && Array.isArray(clients) && clients.map((client: any) => {
                             return (
                               <SelectItem key={client.id} value={client.id}>
-                                {client.name || client.username} - {client.package}
+                                {client.name || client.username} - {getPlanName(client.planId)}
                               </SelectItem>
                             );
                           })}
@@ -250,7 +267,32 @@ export default function ClientAddClient() {
                       </Select>
                     </div>
 
-                    {selectedParent && positions && (
+                    <FormField
+                      control={form.control}
+                      name="placementStrategy"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Placement Strategy</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Default placement" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {placementStrategies.map((strategy) => (
+                                <SelectItem key={strategy} value={strategy}>
+                                  {placementStrategyLabels[strategy]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {selectedParent && positions && (!placementStrategy || placementStrategy === "manual") && (
                       <FormField
                         control={form.control}
                         name="position"
@@ -285,6 +327,14 @@ export default function ClientAddClient() {
                         )}
                       />
                     )}
+
+                    {selectedParent && (
+                      <PlacementPreview
+                        sponsorId={selectedParent}
+                        strategy={placementStrategy}
+                        position={placementStrategy && placementStrategy !== "manual" ? null : preferredPosition}
+                      />
+                    )}
                   </div>
 
                   <div className="flex gap-4">
@@ -5,6 +5,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ClientSidebar } from "@/components/client-sidebar";
 import { PackageBadge } from "@/components/package-badge";
 import { Users, TrendingUp, CreditCard, FileText } from "lucide-react";
+import { formatMoney } from "@shared/money";
 
 export default function ClientDashboard() {
   const { data: user } = useQuery({
@@ -19,7 +20,7 @@ export default function ClientDashboard() {
     queryKey: ["/api/earnings"],
   });
 
-  const { data: totalEarnings } = useQuery({
+  const { data: totalEarnings } = useQuery<{ total: number; currency: string }>({
     queryKey: ["/api/earnings/total"],
   });
 
@@ -71,8 +72,8 @@ export default function ClientDashboard() {
                   </div>
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Package</p>
-                    {user && user.package ? (
-                      <PackageBadge package={user.package} />
+                    {user && user.planId ? (
+                      <PackageBadge planId={user.planId} />
                     ) : (
                       <Badge variant="secondary">No package</Badge>
                     )}
@@ -93,7 +94,7 @@ export default function ClientDashboard() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">
-                  {totalEarnings ? totalEarnings.total : "₹0.00 INR"}
+                  {formatMoney(totalEarnings?.total, totalEarnings?.currency)}
                 </div>
                 <p className="text-xs text-muted-foreground">
                   Lifetime earnings
@@ -173,7 +174,7 @@ export default function ClientDashboard() {
                           </p>
                         </div>
                         <div className="text-right">
-                          <p className="font-semibold text-green-600">{earning.amount}</p>
+                          <p className="font-semibold text-green-600">{formatMoney(earning.amount, earning.currency)}</p>
                         </div>
                       </div>
                     ))}
@@ -215,7 +216,7 @@ export default function ClientDashboard() {
                           </p>
                         </div>
                         <div>
-                          <PackageBadge package={client.package} />
+                          <PackageBadge planId={client.planId} />
                         </div>
                       </div>
                     ))}
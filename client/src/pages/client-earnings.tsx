@@ -3,19 +3,54 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ClientSidebar } from "@/components/client-sidebar";
-import { TrendingUp, DollarSign, Users, Gift, Calendar } from "lucide-react";
+import { TrendingUp, DollarSign, Users, Gift, Calendar, GitBranch } from "lucide-react";
+import { formatMoney } from "@shared/money";
 
 interface Earning {
   id: string;
   type: string;
-  amount: string;
+  amount: number;
+  currency: string;
   description: string;
   fromClientId: string | null;
   createdAt: string;
 }
 
 interface EarningsTotal {
-  total: string;
+  total: number;
+  currency: string;
+}
+
+interface PairingSummary {
+  leftBv: number;
+  rightBv: number;
+  leftCarry: number;
+  rightCarry: number;
+  totalPairs: number;
+  flushedPairs: number;
+  pairsOnDate: number;
+  pairDate: string | null;
+  pairsInMonth: number;
+  pairMonth: string | null;
+  config: {
+    ratio: string;
+    pairUnitBv: number;
+  };
+  caps: {
+    daily: number; // 0 means no cap
+    monthly: number;
+  };
+}
+
+interface PairFlush {
+  id: string;
+  pairs: number;
+  reason: "daily_cap" | "monthly_cap";
+  cap: number;
+  forgoneAmount: number;
+  currency: string;
+  pairDate: string;
+  createdAt: string;
 }
 
 export default function ClientEarnings() {
@@ -29,6 +64,24 @@ export default function ClientEarnings() {
     queryKey: ["/api/earnings/total"],
   });
 
+  // Get binary pairing volume
+  const { data: pairing } = useQuery<PairingSummary>({
+    queryKey: ["/api/earnings/pairing"],
+  });
+
+  // Pairs that went unpaid because a plan cap was reached
+  const { data: flushes } = useQuery<PairFlush[]>({
+    queryKey: ["/api/earnings/flushed"],
+  });
+
+  const pairsToday = pairing && pairing.pairDate === new Date().toISOString().slice(0, 10)
+    ? pairing.pairsOnDate
+    : 0;
+  const pairsThisMonth = pairing && pairing.pairMonth === new Date().toISOString().slice(0, 7)
+    ? pairing.pairsInMonth
+    : 0;
+  const capLabel = (pairs: number, cap: number) => (cap > 0 ? `${pairs} / ${cap}` : `${pairs}`);
+
   const getEarningTypeBadge = (type: string) => {
     const variants = {
       referral: { variant: "default" as const, icon: Users, label: "Referral" },
@@ -47,18 +100,6 @@ export default function ClientEarnings() {
     );
   };
 
-  const formatCurrency = (amount: string) => {
-    // If amount is already formatted (contains ₹), return as is
-    if (amount && amount.includes('₹')) {
-      return amount;
-    }
-    
-    // Otherwise format as currency
-    const numericAmount = parseFloat(amount || "0");
-    if (isNaN(numericAmount)) return "₹0.00 INR";
-    return `₹${numericAmount.toFixed(2)} INR`;
-  };
-
   // Calculate earnings by type
   const earningsByType = earnings?.reduce((acc, earning) => {
     const type = earning.type;
@@ -66,10 +107,7 @@ export default function ClientEarnings() {
       acc[type] = { count: 0, total: 0 };
     }
     acc[type].count += 1;
-    
-    // Extract numeric value from formatted currency
-    const amount = earning.amount.replace(/[₹,\s]/g, '').split(' ')[0];
-    acc[type].total += parseFloat(amount) || 0;
+    acc[type].total += earning.amount;
     
     return acc;
   }, {} as Record<string, { count: number; total: number }>) || {};
@@ -92,7 +130,7 @@ export default function ClientEarnings() {
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Total Earnings</p>
                     <p className="text-2xl font-bold">
-                      {formatCurrency(totalEarnings?.total || "0")}
+                      {formatMoney(totalEarnings?.total, totalEarnings?.currency)}
                     </p>
                   </div>
                   <DollarSign className="h-8 w-8 text-green-600" />
@@ -106,7 +144,7 @@ export default function ClientEarnings() {
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Referral Earnings</p>
                     <p className="text-2xl font-bold">
-                      ₹{(earningsByType.referral?.total || 0).toFixed(2)} INR
+                      {formatMoney(earningsByType.referral?.total, totalEarnings?.currency)}
                     </p>
                     <p className="text-xs text-muted-foreground">
                       {earningsByType.referral?.count || 0} transactions
@@ -123,7 +161,7 @@ export default function ClientEarnings() {
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Tree Commission</p>
                     <p className="text-2xl font-bold">
-                      ₹{(earningsByType.tree?.total || 0).toFixed(2)} INR
+                      {formatMoney(earningsByType.tree?.total, totalEarnings?.currency)}
                     </p>
                     <p className="text-xs text-muted-foreground">
                       {earningsByType.tree?.count || 0} transactions
@@ -140,7 +178,7 @@ export default function ClientEarnings() {
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Bonus Earnings</p>
                     <p className="text-2xl font-bold">
-                      ₹{(earningsByType.bonus?.total || 0).toFixed(2)} INR
+                      {formatMoney(earningsByType.bonus?.total, totalEarnings?.currency)}
                     </p>
                     <p className="text-xs text-muted-foreground">
                       {earningsByType.bonus?.count || 0} transactions
@@ -152,6 +190,72 @@ export default function ClientEarnings() {
             </Card>
           </div>
 
+          {/* Binary Pairing */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="h-5 w-5" />
+                Binary Pairing
+              </CardTitle>
+              <CardDescription>
+                Matching bonus is paid on the weaker leg at a {pairing?.config.ratio || "1:1"} ratio
+                {pairing && pairing.caps.daily > 0 && ` (up to ${pairing.caps.daily} pairs per day)`}
+                {pairing && pairing.caps.monthly > 0 && ` and ${pairing.caps.monthly} pairs per month`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Left Leg BV</p>
+                  <p className="text-2xl font-bold">{pairing?.leftBv || 0}</p>
+                  <p className="text-xs text-muted-foreground">Carry forward: {pairing?.leftCarry || 0}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Right Leg BV</p>
+                  <p className="text-2xl font-bold">{pairing?.rightBv || 0}</p>
+                  <p className="text-xs text-muted-foreground">Carry forward: {pairing?.rightCarry || 0}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Pairs Today</p>
+                  <p className="text-2xl font-bold">{capLabel(pairsToday, pairing?.caps.daily || 0)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    This month: {capLabel(pairsThisMonth, pairing?.caps.monthly || 0)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Total Pairs</p>
+                  <p className="text-2xl font-bold">{pairing?.totalPairs || 0}</p>
+                  <p className="text-xs text-muted-foreground">Flushed: {pairing?.flushedPairs || 0}</p>
+                </div>
+              </div>
+
+              {flushes && flushes.length > 0 && (
+                <div className="mt-6 border-t pt-4">
+                  <h4 className="font-semibold mb-3">Capped Pairs</h4>
+                  <div className="space-y-2">
+                    {flushes.map((flush) => (
+                      <div key={flush.id} className="flex justify-between items-center text-sm p-3 bg-muted/50 rounded">
+                        <div>
+                          <p className="font-medium">
+                            {flush.pairs} pair(s) flushed on {flush.pairDate}
+                          </p>
+                          <p className="text-muted-foreground">
+                            {flush.reason === "daily_cap"
+                              ? `Daily cap of ${flush.cap} pairs reached`
+                              : `Monthly cap of ${flush.cap} pairs reached`}
+                          </p>
+                        </div>
+                        <span className="text-muted-foreground">
+                          {formatMoney(flush.forgoneAmount, flush.currency)} not paid
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Tabs defaultValue="all" className="space-y-6">
             <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="all">All Earnings</TabsTrigger>
@@ -195,7 +299,7 @@ export default function ClientEarnings() {
                           </div>
                           <div className="text-right">
                             <div className="text-2xl font-bold text-green-600">
-                              {formatCurrency(earning.amount)}
+                              {formatMoney(earning.amount, earning.currency)}
                             </div>
                           </div>
                         </div>
@@ -219,7 +323,7 @@ export default function ClientEarnings() {
             {/* Filter tabs for each earning type */}
             {['referral', 'tree', 'bonus'].map((type) => (
               <TabsContent key={type} value={type} className="space-y-4">
-                {earnings?.filter(e => e.type === type).length > 0 ? (
+                {earnings && earnings.filter(e => e.type === type).length > 0 ? (
                   <div className="space-y-4">
                     {earnings.filter(e => e.type === type).map((earning) => (
                       <Card key={earning.id}>
@@ -239,7 +343,7 @@ export default function ClientEarnings() {
                             </div>
                             <div className="text-right">
                               <div className="text-2xl font-bold text-green-600">
-                                {formatCurrency(earning.amount)}
+                                {formatMoney(earning.amount, earning.currency)}
                               </div>
                             </div>
                           </div>
@@ -7,8 +7,13 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ClientSidebar } from "@/components/client-sidebar";
-import { Users, UserPlus, GitBranch, Search, Filter } from "lucide-react";
+import { PackageBadge } from "@/components/package-badge";
+import { SubtreeStatsSummary } from "@/components/subtree-stats";
+import { GenealogyTree } from "@/components/genealogy-tree";
+import { usePlans } from "@/hooks/use-plans";
+import { Users, UserPlus, GitBranch, Search, Filter, Share2 } from "lucide-react";
 import { useState } from "react";
+import type { SponsorTreeNode } from "@shared/schema";
 
 interface Client {
   id: string;
@@ -16,21 +21,32 @@ interface Client {
   username: string;
   email: string;
   mobile: string;
-  package: string;
+  planId: string | null;
   position: string;
   parentId: string;
+  sponsorId: string | null;
   createdAt: string;
 }
 
 export default function ClientManageUsers() {
   const [searchTerm, setSearchTerm] = useState("");
   const [packageFilter, setPackageFilter] = useState<string>("all");
+  const { plans } = usePlans();
 
   // Get current user's downline
   const { data: downlineClients, isLoading } = useQuery<Client[]>({
     queryKey: ["/api/clients/downline"],
   });
 
+  // Members the current user recruited, including those placed deeper by spillover
+  const { data: referrals, isLoading: referralsLoading } = useQuery<Client[]>({
+    queryKey: ["/api/clients/referrals"],
+  });
+
+  const { data: sponsorTree } = useQuery<SponsorTreeNode>({
+    queryKey: ["/api/clients/sponsor-tree"],
+  });
+
   // Get current user info
   const { data: user } = useQuery({
     queryKey: ["/api/auth/me"],
@@ -40,7 +56,7 @@ export default function ClientManageUsers() {
     const matchesSearch = client.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          client.username?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          client.email?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesPackage = packageFilter === "all" || client.package === packageFilter;
+    const matchesPackage = packageFilter === "all" || client.planId === packageFilter;
     return matchesSearch && matchesPackage;
   }) || [];
 
@@ -52,111 +68,24 @@ export default function ClientManageUsers() {
     );
   };
 
-  const getPackageBadge = (packageName: string) => {
-    const variants = {
-      Silver: "default",
-      Gold: "secondary", 
-      Diamond: "outline"
-    } as const;
-    
-    return (
-      <Badge variant={variants[packageName as keyof typeof variants] || "default"}>
-        {packageName}
-      </Badge>
-    );
-  };
-
-  // Simple binary tree visualization component
-  const BinaryTreeView = () => {
-    if (!downlineClients || downlineClients.length === 0) {
-      return (
-        <div className="text-center py-8">
-          <GitBranch className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-          <p className="text-muted-foreground">No downline members yet</p>
-          <p className="text-sm text-muted-foreground">Add clients to see your binary tree structure</p>
-        </div>
-      );
-    }
-
-    const leftClients = downlineClients.filter(c => c.position === "left");
-    const rightClients = downlineClients.filter(c => c.position === "right");
-
-    return (
-      <div className="space-y-6">
-        <div className="text-center">
-          <div className="inline-block p-4 border-2 border-primary rounded-lg bg-primary/5">
-            <div className="font-semibold">{(user as any)?.name || (user as any)?.username}</div>
-            <div className="text-sm text-muted-foreground">You</div>
-            {getPackageBadge((user as any)?.package || "Admin")}
-          </div>
-        </div>
-        
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          {/* Left Side */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-center">Left Position</h3>
-            {leftClients.length > 0 ? (
-              leftClients.map((client) => (
-                <Card key={client.id} className="border-l-4 border-l-blue-500">
-                  <CardContent className="p-4">
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <div className="font-semibold">{client.name}</div>
-                        <div className="text-sm text-muted-foreground">@{client.username}</div>
-                        <div className="text-sm text-muted-foreground">{client.email}</div>
-                      </div>
-                      <div className="space-y-1">
-                        {getPackageBadge(client.package)}
-                        {getPositionBadge(client.position)}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
-            ) : (
-              <Card className="border-dashed">
-                <CardContent className="p-8 text-center">
-                  <UserPlus className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
-                  <p className="text-muted-foreground">Left position available</p>
-                </CardContent>
-              </Card>
+  // Who recruited whom, independent of binary placement
+  const SponsorTreeBranch = ({ node }: { node: SponsorTreeNode }) => (
+    <ul className="ml-4 border-l pl-4 space-y-2">
+      {node.referrals.map((child) => (
+        <li key={child.user.id}>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{child.user.name || child.user.username}</span>
+            <span className="text-sm text-muted-foreground">@{child.user.username}</span>
+            <PackageBadge planId={child.user.planId} />
+            {child.referrals.length > 0 && (
+              <span className="text-xs text-muted-foreground">{child.referrals.length} referrals</span>
             )}
           </div>
-
-          {/* Right Side */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-center">Right Position</h3>
-            {rightClients.length > 0 ? (
-              rightClients.map((client) => (
-                <Card key={client.id} className="border-l-4 border-l-green-500">
-                  <CardContent className="p-4">
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <div className="font-semibold">{client.name}</div>
-                        <div className="text-sm text-muted-foreground">@{client.username}</div>
-                        <div className="text-sm text-muted-foreground">{client.email}</div>
-                      </div>
-                      <div className="space-y-1">
-                        {getPackageBadge(client.package)}
-                        {getPositionBadge(client.position)}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
-            ) : (
-              <Card className="border-dashed">
-                <CardContent className="p-8 text-center">
-                  <UserPlus className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
-                  <p className="text-muted-foreground">Right position available</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </div>
-      </div>
-    );
-  };
+          {child.referrals.length > 0 && <SponsorTreeBranch node={child} />}
+        </li>
+      ))}
+    </ul>
+  );
 
   return (
     <div className="flex h-screen bg-gray-100 dark:bg-gray-900">
@@ -169,8 +98,9 @@ export default function ClientManageUsers() {
           </div>
 
           <Tabs defaultValue="overview" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="overview">All Users</TabsTrigger>
+              <TabsTrigger value="referrals">Direct Referrals</TabsTrigger>
               <TabsTrigger value="tree">Binary Tree</TabsTrigger>
             </TabsList>
 
@@ -206,9 +136,9 @@ export default function ClientManageUsers() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="all">All Packages</SelectItem>
-                          <SelectItem value="Silver">Silver</SelectItem>
-                          <SelectItem value="Gold">Gold</SelectItem>
-                          <SelectItem value="Diamond">Diamond</SelectItem>
+                          {plans.map((plan) => (
+                            <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -245,7 +175,7 @@ export default function ClientManageUsers() {
                                   <p className="text-muted-foreground">@{client.username}</p>
                                 </div>
                                 <div className="flex gap-2">
-                                  {getPackageBadge(client.package)}
+                                  <PackageBadge planId={client.planId} />
                                   {getPositionBadge(client.position)}
                                 </div>
                               </div>
@@ -292,6 +222,64 @@ export default function ClientManageUsers() {
               </div>
             </TabsContent>
 
+            <TabsContent value="referrals" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Share2 className="h-5 w-5" />
+                    Direct Referrals
+                  </CardTitle>
+                  <CardDescription>
+                    Members you sponsored. You earn the referral commission for each, even when spillover placed them deeper in your tree.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {referralsLoading ? (
+                    <div className="animate-pulse h-4 bg-gray-200 rounded w-1/3"></div>
+                  ) : referrals && referrals.length > 0 ? (
+                    <div className="grid gap-3">
+                      {referrals.map((client) => (
+                        <div key={client.id} className="flex justify-between items-center p-3 border rounded-lg">
+                          <div>
+                            <div className="font-semibold">{client.name}</div>
+                            <div className="text-sm text-muted-foreground">
+                              @{client.username} · Joined {new Date(client.createdAt).toLocaleDateString()}
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            <PackageBadge planId={client.planId} />
+                            {client.parentId === (user as any)?.id ? (
+                              getPositionBadge(client.position)
+                            ) : (
+                              <Badge variant="outline">Spillover</Badge>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground text-center py-8">You haven't sponsored anyone yet</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {sponsorTree && sponsorTree.referrals.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="h-5 w-5" />
+                      Sponsor Tree
+                    </CardTitle>
+                    <CardDescription>Who recruited whom across your referral generations</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="font-semibold">You</div>
+                    <SponsorTreeBranch node={sponsorTree} />
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
             <TabsContent value="tree" className="space-y-6">
               <Card>
                 <CardHeader>
@@ -300,11 +288,12 @@ export default function ClientManageUsers() {
                     Binary Tree Structure
                   </CardTitle>
                   <CardDescription>
-                    View your network in a binary tree format showing left and right positions
+                    Drag to pan, scroll to zoom, and click an empty slot to add a client there
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <BinaryTreeView />
+                <CardContent className="space-y-6">
+                  {(user as any)?.id && <SubtreeStatsSummary clientId={(user as any).id} />}
+                  <GenealogyTree />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -4,50 +4,32 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ClientSidebar } from "@/components/client-sidebar";
 import { Check, X } from "lucide-react";
+import { formatMoney } from "@shared/money";
+import type { Plan } from "@shared/schema";
+import { usePlans } from "@/hooks/use-plans";
 
 export default function ClientPlans() {
-  const { data: plans, isLoading } = useQuery({
-    queryKey: ["/api/plans"],
-  });
+  const { plans: allPlans, isLoading, getPlan } = usePlans();
+  const plans = allPlans.filter(plan => plan.status === "active");
 
   const { data: user } = useQuery({
     queryKey: ["/api/auth/me"],
   });
 
-  const formatCurrency = (amount: string | number) => {
-    if (!amount) return "₹0.00 INR";
-    
-    // If amount is already formatted (contains ₹), return as is
-    if (typeof amount === 'string' && amount.includes('₹')) {
-      return amount;
-    }
-    
-    // Otherwise format as currency
-    const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    if (isNaN(numericAmount)) return "₹0.00 INR";
-    return `₹${numericAmount.toFixed(2)} INR`;
-  };
+  const currentPlan = getPlan((user as any)?.planId);
+  const canUpgrade = !currentPlan || plans.some(plan => plan.price > currentPlan.price);
 
-  const getFeaturesByPlan = (planName: string) => {
-    const features: { [key: string]: string[] } = {
-      Silver: [
-        "1 week Entrepreneurship development training (online)",
-        "Per day capping 3 per 3:3=600/-",
-        "Monthly 18000/-"
-      ],
-      Gold: [
-        "10 days entrepreneurship development training (online)",
-        "Per day capping 6 per 6:6=1200/-",
-        "Monthly 36000/-"
-      ],
-      Diamond: [
-        "13 days entrepreneurship development training (online)",
-        "Per day capping 9 per 9:9=1800/-",
-        "Monthly 54000/-"
-      ]
-    };
-    return features[planName] || [];
-  };
+  const getFeaturesByPlan = (plan: Plan) => [
+    `Business volume ${plan.businessVolume} BV`,
+    `Referral commission ${formatMoney(plan.referralCommission, plan.currency)} per direct sponsor`,
+    `Binary commission ${formatMoney(plan.treeCommission, plan.currency)} per matched pair`,
+    plan.dailyPairCap > 0
+      ? `Per day capping ${plan.dailyPairCap} pairs = ${formatMoney(plan.dailyPairCap * plan.treeCommission, plan.currency)}`
+      : "No daily pair capping",
+    plan.monthlyPairCap > 0
+      ? `Monthly maximum ${formatMoney(plan.monthlyPairCap * plan.treeCommission, plan.currency)} (${plan.monthlyPairCap} pairs)`
+      : "No monthly pair capping",
+  ];
 
   return (
     <div className="flex h-screen bg-background">
@@ -64,7 +46,7 @@ export default function ClientPlans() {
           </div>
 
           {/* Current Plan */}
-          {user && (user as any).package && (
+          {currentPlan && (
             <div className="mb-8">
               <Card className="border-primary/20 bg-primary/5">
                 <CardHeader>
@@ -73,7 +55,7 @@ export default function ClientPlans() {
                     <Badge variant="secondary">Active</Badge>
                   </CardTitle>
                   <CardDescription>
-                    You are currently subscribed to the {(user as any).package} package
+                    You are currently subscribed to the {currentPlan.name} package
                   </CardDescription>
                 </CardHeader>
               </Card>
@@ -100,11 +82,11 @@ export default function ClientPlans() {
                 </Card>
               ))}
             </div>
-          ) : plans && Array.isArray(plans) ? (
+          ) : plans.length > 0 ? (
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {plans.map((plan: any) => {
-                const features = getFeaturesByPlan(plan.name);
-                const isCurrentPlan = user ? (user as any).package === plan.name : false;
+              {plans.map((plan) => {
+                const features = getFeaturesByPlan(plan);
+                const isCurrentPlan = currentPlan?.id === plan.id;
                 
                 return (
                   <Card 
@@ -121,10 +103,9 @@ export default function ClientPlans() {
                     
                     <CardHeader className="text-center">
                       <CardTitle className="text-2xl">{plan.name}</CardTitle>
-                      <CardDescription>{plan.description}</CardDescription>
                       <div className="pt-4">
                         <div className="text-4xl font-bold">
-                          {formatCurrency(plan.price)}
+                          {formatMoney(plan.price, plan.currency)}
                         </div>
                         <div className="text-sm text-muted-foreground">
                           one-time payment
@@ -159,17 +140,6 @@ export default function ClientPlans() {
                           </ul>
                         </div>
                       </div>
-                      
-                      {plan.limitations && (
-                        <div className="mt-6 pt-4 border-t">
-                          <h4 className="font-semibold text-sm text-muted-foreground mb-2">
-                            Plan Details:
-                          </h4>
-                          <p className="text-sm text-muted-foreground">
-                            {plan.limitations}
-                          </p>
-                        </div>
-                      )}
                     </CardContent>
                   </Card>
                 );
@@ -182,7 +152,7 @@ export default function ClientPlans() {
           )}
 
           {/* Plan Upgrade Notice */}
-          {user && (!(user as any).package || (user as any).package === 'Silver') && (
+          {!!user && canUpgrade && (
             <div className="mt-8">
               <Card className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950/20">
                 <CardHeader>
@@ -7,12 +7,46 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { ClientSidebar } from "@/components/client-sidebar";
-import { Settings, User, Lock, LogOut } from "lucide-react";
-import { updateProfileSchema, updatePasswordSchema, type UpdateProfileRequest, type UpdatePasswordRequest } from "@shared/schema";
+import { ActiveSessions } from "@/components/active-sessions";
+import { TwoFactorSettingsCard } from "@/components/two-factor-settings";
+import { LoginHistory } from "@/components/login-history";
+import { Settings, User, Lock, LogOut, Landmark, Smartphone, CheckCircle, Clock, Trash2 } from "lucide-react";
+import {
+  updateProfileSchema,
+  updatePasswordSchema,
+  createPayoutMethodSchema,
+  type UpdateProfileRequest,
+  type UpdatePasswordRequest,
+  type CreatePayoutMethodRequest,
+  type PayoutMethod
+} from "@shared/schema";
 import { useAuthStore } from "@/hooks/use-auth";
+import { usePlans } from "@/hooks/use-plans";
+import { z } from "zod";
+
+// One flat form for both method types; the shared schema checks the fields
+// that apply to the selected type
+const payoutMethodFormSchema = z.object({
+  type: z.enum(["bank", "upi"]),
+  accountHolderName: z.string(),
+  accountNumber: z.string(),
+  ifsc: z.string(),
+  upiId: z.string(),
+}).superRefine((data, ctx) => {
+  const result = createPayoutMethodSchema.safeParse(data);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+    });
+  }
+});
+
+type PayoutMethodFormValues = z.infer<typeof payoutMethodFormSchema>;
 
 export default function ClientSettings() {
   const [activeTab, setActiveTab] = useState("profile");
@@ -24,6 +58,7 @@ export default function ClientSettings() {
   const { data: user } = useQuery({
     queryKey: ["/api/auth/me"],
   });
+  const { getPlanName } = usePlans();
 
   const profileForm = useForm<UpdateProfileRequest>({
     resolver: zodResolver(updateProfileSchema),
@@ -31,6 +66,7 @@ export default function ClientSettings() {
       name: (user as any)?.name || "",
       email: (user as any)?.email || "",
       mobile: (user as any)?.mobile || "",
+      pan: (user as any)?.pan || undefined,
     },
   });
 
@@ -43,6 +79,23 @@ export default function ClientSettings() {
     },
   });
 
+  const payoutMethodForm = useForm<PayoutMethodFormValues>({
+    resolver: zodResolver(payoutMethodFormSchema),
+    defaultValues: {
+      type: "bank",
+      accountHolderName: "",
+      accountNumber: "",
+      ifsc: "",
+      upiId: "",
+    },
+  });
+  const payoutMethodType = payoutMethodForm.watch("type");
+
+  // Get saved payout methods (masked)
+  const { data: payoutMethods } = useQuery<PayoutMethod[]>({
+    queryKey: ["/api/payout-methods"],
+  });
+
   // Update profile mutation
   const updateProfileMutation = useMutation({
     mutationFn: async (data: UpdateProfileRequest) => {
@@ -105,6 +158,63 @@ export default function ClientSettings() {
     },
   });
 
+  // Add payout method mutation
+  const addPayoutMethodMutation = useMutation({
+    mutationFn: async (data: CreatePayoutMethodRequest) => {
+      const response = await fetch("/api/payout-methods", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to add payout method");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Payout method added. It can be used once verified by an admin.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/payout-methods"] });
+      payoutMethodForm.reset();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add payout method",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Remove payout method mutation
+  const removePayoutMethodMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/payout-methods/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to remove payout method");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Payout method removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/payout-methods"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove payout method",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onProfileSubmit = (data: UpdateProfileRequest) => {
     updateProfileMutation.mutate(data);
   };
@@ -113,6 +223,10 @@ export default function ClientSettings() {
     updatePasswordMutation.mutate(data);
   };
 
+  const onPayoutMethodSubmit = (data: PayoutMethodFormValues) => {
+    addPayoutMethodMutation.mutate(createPayoutMethodSchema.parse(data));
+  };
+
   const handleLogout = async () => {
     try {
       await fetch("/api/auth/logout", { method: "POST" });
@@ -137,6 +251,7 @@ export default function ClientSettings() {
         name: (user as any).name || "",
         email: (user as any).email || "",
         mobile: (user as any).mobile || "",
+        pan: (user as any).pan || undefined,
       });
     }
   }, [user, profileForm]);
@@ -179,6 +294,17 @@ export default function ClientSettings() {
                       <Lock className="h-4 w-4" />
                       Security
                     </button>
+                    <button
+                      onClick={() => setActiveTab("payout")}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
+                        activeTab === "payout"
+                          ? "bg-primary text-primary-foreground"
+                          : "hover:bg-muted"
+                      }`}
+                    >
+                      <Landmark className="h-4 w-4" />
+                      Payout Methods
+                    </button>
                   </nav>
                 </CardContent>
               </Card>
@@ -208,7 +334,7 @@ export default function ClientSettings() {
                           </div>
                           <div className="space-y-2">
                             <Label>Package</Label>
-                            <Input value={(user as any)?.package || "N/A"} disabled />
+                            <Input value={getPlanName((user as any)?.planId) || "N/A"} disabled />
                             <p className="text-sm text-muted-foreground">Your current subscription plan</p>
                           </div>
                         </div>
@@ -257,6 +383,21 @@ export default function ClientSettings() {
                           />
                         </div>
 
+                        <FormField
+                          control={profileForm.control}
+                          name="pan"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>PAN</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g. ABCDE1234F" {...field} value={field.value || ""} />
+                              </FormControl>
+                              <p className="text-sm text-muted-foreground">TDS on withdrawals is deducted at a higher rate without a PAN</p>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
                         <Button 
                           type="submit" 
                           disabled={updateProfileMutation.isPending}
@@ -339,6 +480,12 @@ export default function ClientSettings() {
                     </CardContent>
                   </Card>
 
+                  <TwoFactorSettingsCard />
+
+                  <ActiveSessions />
+
+                  <LoginHistory />
+
                   <Card>
                     <CardHeader>
                       <CardTitle className="flex items-center gap-2 text-destructive">
@@ -358,6 +505,170 @@ export default function ClientSettings() {
                   </Card>
                 </div>
               )}
+
+              {activeTab === "payout" && (
+                <div className="space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Landmark className="h-5 w-5" />
+                        Saved Payout Methods
+                      </CardTitle>
+                      <CardDescription>
+                        Withdrawals are paid to one of these accounts
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {payoutMethods && payoutMethods.length > 0 ? (
+                        payoutMethods.map((method) => (
+                          <div key={method.id} className="flex items-center justify-between border rounded-lg p-4">
+                            <div className="flex items-center gap-3">
+                              {method.type === "upi" ? (
+                                <Smartphone className="h-5 w-5 text-muted-foreground" />
+                              ) : (
+                                <Landmark className="h-5 w-5 text-muted-foreground" />
+                              )}
+                              <div>
+                                <p className="font-medium">{method.accountHolderName}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {method.type === "upi" ? `UPI ${method.upiId}` : `A/C ${method.accountNumber} • IFSC ${method.ifsc}`}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              {method.isVerified ? (
+                                <Badge className="flex items-center gap-1">
+                                  <CheckCircle className="h-3 w-3" />
+                                  Verified
+                                </Badge>
+                              ) : (
+                                <Badge variant="secondary" className="flex items-center gap-1">
+                                  <Clock className="h-3 w-3" />
+                                  Pending Verification
+                                </Badge>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removePayoutMethodMutation.mutate(method.id)}
+                                disabled={removePayoutMethodMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No payout methods saved yet</p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Add Payout Method</CardTitle>
+                      <CardDescription>
+                        Add a bank account or UPI ID in your own name
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Form {...payoutMethodForm}>
+                        <form onSubmit={payoutMethodForm.handleSubmit(onPayoutMethodSubmit)} className="space-y-4">
+                          <FormField
+                            control={payoutMethodForm.control}
+                            name="type"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Method</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="bank">Bank Account</SelectItem>
+                                    <SelectItem value="upi">UPI</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={payoutMethodForm.control}
+                            name="accountHolderName"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Account Holder Name</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="Name as per bank records" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          {payoutMethodType === "bank" ? (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <FormField
+                                control={payoutMethodForm.control}
+                                name="accountNumber"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Account Number</FormLabel>
+                                    <FormControl>
+                                      <Input placeholder="9 to 18 digits" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={payoutMethodForm.control}
+                                name="ifsc"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>IFSC Code</FormLabel>
+                                    <FormControl>
+                                      <Input placeholder="e.g. HDFC0001234" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </div>
+                          ) : (
+                            <FormField
+                              control={payoutMethodForm.control}
+                              name="upiId"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>UPI ID</FormLabel>
+                                  <FormControl>
+                                    <Input placeholder="e.g. name@okaxis" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+
+                          <Button
+                            type="submit"
+                            disabled={addPayoutMethodMutation.isPending}
+                            className="w-full md:w-auto"
+                          >
+                            {addPayoutMethodMutation.isPending ? "Saving..." : "Add Payout Method"}
+                          </Button>
+                        </form>
+                      </Form>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
             </div>
           </div>
         </div>
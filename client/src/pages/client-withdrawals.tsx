@@ -1,38 +1,79 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { ClientSidebar } from "@/components/client-sidebar";
-import { CreditCard, Plus, Clock, CheckCircle, XCircle, AlertCircle } from "lucide-react";
-import { createWithdrawalSchema, type CreateWithdrawalRequest } from "@shared/schema";
+import { CreditCard, Plus, Clock, CheckCircle, XCircle, AlertCircle, Loader2, Ban, Download } from "lucide-react";
+import { createWithdrawalSchema, type CreateWithdrawalRequest, type PayoutMethod } from "@shared/schema";
+import { formatMoney, majorAmountSchema, toMinorUnits } from "@shared/money";
+import { z } from "zod";
+
+// The amount is typed in rupees and converted to paise on submit
+const withdrawalFormSchema = createWithdrawalSchema.extend({
+  amount: majorAmountSchema,
+});
+
+type WithdrawalFormValues = z.infer<typeof withdrawalFormSchema>;
+
+interface WalletBalance {
+  available: number;
+  held: number;
+  lifetime: number;
+  withdrawn: number;
+  currency: string;
+}
+
+interface WithdrawalPreview {
+  grossAmount: number;
+  tdsRate: number;
+  tdsAmount: number;
+  adminCharge: number;
+  netAmount: number;
+  panProvided: boolean;
+}
 
 interface Withdrawal {
   id: string;
-  amount: string;
+  amount: number;
+  currency: string;
+  tdsRate: number;
+  tdsAmount: number;
+  adminCharge: number;
+  netAmount: number;
   bankDetails: string;
   status: string;
   adminNotes: string | null;
   requestedAt: string;
   processedAt: string | null;
+  approvedAt: string | null;
+}
+
+// Indian financial years run April to March in IST, e.g. "2025-26"
+function financialYearOf(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
 }
 
 export default function ClientWithdrawals() {
   const [showRequestForm, setShowRequestForm] = useState(false);
+  const [statementYear, setStatementYear] = useState(() => financialYearOf(new Date()));
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const form = useForm<CreateWithdrawalRequest>({
-    resolver: zodResolver(createWithdrawalSchema),
+  const form = useForm<WithdrawalFormValues>({
+    resolver: zodResolver(withdrawalFormSchema),
     defaultValues: {
       amount: "",
-      bankDetails: "",
+      payoutMethodId: "",
     },
   });
 
@@ -41,9 +82,28 @@ export default function ClientWithdrawals() {
     queryKey: ["/api/withdrawals"],
   });
 
-  // Get total earnings for context
-  const { data: totalEarnings } = useQuery({
-    queryKey: ["/api/earnings/total"],
+  // Get wallet balance for context
+  const { data: wallet } = useQuery<WalletBalance>({
+    queryKey: ["/api/wallet"],
+  });
+
+  // Preview TDS and admin charge for the amount being typed
+  const requestedAmount = toMinorUnits(form.watch("amount") || "0");
+  const { data: preview } = useQuery<WithdrawalPreview>({
+    queryKey: [`/api/withdrawals/preview?amount=${requestedAmount}`],
+    enabled: showRequestForm && requestedAmount > 0,
+  });
+
+  // Financial years that can have a deduction statement; withdrawals count
+  // in the year they were approved
+  const statementYears = Array.from(new Set([
+    financialYearOf(new Date()),
+    ...(withdrawals || []).filter(w => w.approvedAt).map(w => financialYearOf(new Date(w.approvedAt!))),
+  ])).sort().reverse();
+
+  // Get saved payout methods to pay the withdrawal into
+  const { data: payoutMethods } = useQuery<PayoutMethod[]>({
+    queryKey: ["/api/payout-methods"],
   });
 
   // Create withdrawal request mutation
@@ -57,7 +117,8 @@ export default function ClientWithdrawals() {
         body: JSON.stringify(data),
       });
       if (!response.ok) {
-        throw new Error("Failed to create withdrawal request");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to create withdrawal request");
       }
       return response.json();
     },
@@ -67,6 +128,7 @@ export default function ClientWithdrawals() {
         description: "Withdrawal request submitted successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/withdrawals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
       form.reset();
       setShowRequestForm(false);
     },
@@ -79,14 +141,45 @@ export default function ClientWithdrawals() {
     },
   });
 
-  const onSubmit = (data: CreateWithdrawalRequest) => {
-    createWithdrawalMutation.mutate(data);
+  // Cancel a pending withdrawal request, releasing the held amount
+  const cancelWithdrawalMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/withdrawals/${id}/cancel`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to cancel withdrawal request");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Withdrawal request cancelled",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/withdrawals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel withdrawal request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: WithdrawalFormValues) => {
+    createWithdrawalMutation.mutate({ ...data, amount: toMinorUnits(data.amount) });
   };
 
   const getStatusBadge = (status: string) => {
     const variants = {
       pending: { variant: "secondary" as const, icon: Clock, label: "Pending" },
       approved: { variant: "default" as const, icon: CheckCircle, label: "Approved" },
+      processing: { variant: "outline" as const, icon: Loader2, label: "Processing" },
+      cancelled: { variant: "outline" as const, icon: Ban, label: "Cancelled" },
       rejected: { variant: "destructive" as const, icon: XCircle, label: "Rejected" },
       completed: { variant: "default" as const, icon: CheckCircle, label: "Completed" },
     };
@@ -102,18 +195,6 @@ export default function ClientWithdrawals() {
     );
   };
 
-  const formatCurrency = (amount: string) => {
-    // If amount is already formatted (contains ₹), return as is
-    if (amount && amount.includes('₹')) {
-      return amount;
-    }
-    
-    // Otherwise format as currency
-    const numericAmount = parseFloat(amount || "0");
-    if (isNaN(numericAmount)) return "₹0.00 INR";
-    return `₹${numericAmount.toFixed(2)} INR`;
-  };
-
   return (
     <div className="flex h-screen bg-gray-100 dark:bg-gray-900">
       <ClientSidebar />
@@ -137,10 +218,10 @@ export default function ClientWithdrawals() {
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Available Balance</p>
                   <p className="text-3xl font-bold text-green-600">
-                    {formatCurrency((totalEarnings as any)?.total || "0")}
+                    {formatMoney(wallet?.available, wallet?.currency)}
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    Total earnings available for withdrawal
+                    On hold: {formatMoney(wallet?.held, wallet?.currency)} • Lifetime earnings: {formatMoney(wallet?.lifetime, wallet?.currency)}
                   </p>
                 </div>
                 <CreditCard className="h-12 w-12 text-green-600" />
@@ -148,6 +229,38 @@ export default function ClientWithdrawals() {
             </CardContent>
           </Card>
 
+          {/* Deduction Statement */}
+          <Card className="mb-6">
+            <CardContent className="p-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium">Deduction Statement</p>
+                  <p className="text-sm text-muted-foreground">
+                    TDS and admin charges deducted from your withdrawals in a financial year
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Select value={statementYear} onValueChange={setStatementYear}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statementYears.map(year => (
+                        <SelectItem key={year} value={year}>FY {year}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" asChild>
+                    <a href={`/api/withdrawals/statement?fy=${statementYear}`} download>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download
+                    </a>
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {showRequestForm && (
             <Card className="mb-6">
               <CardHeader>
@@ -179,22 +292,63 @@ export default function ClientWithdrawals() {
 
                     <FormField
                       control={form.control}
-                      name="bankDetails"
+                      name="payoutMethodId"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Bank Account Details</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Enter your complete bank account details including account number, IFSC code, bank name, and account holder name"
-                              rows={4}
-                              {...field} 
-                            />
-                          </FormControl>
+                          <FormLabel>Pay To</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select a saved payout method" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {payoutMethods?.map((method) => (
+                                <SelectItem key={method.id} value={method.id}>
+                                  {method.type === "upi"
+                                    ? `UPI ${method.upiId}`
+                                    : `${method.accountHolderName} • A/C ${method.accountNumber}`}
+                                  {!method.isVerified && " (pending verification)"}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {payoutMethods && payoutMethods.length === 0 && (
+                            <p className="text-sm text-muted-foreground">
+                              No payout methods saved. <Link href="/client/settings" className="text-primary underline">Add one in Settings</Link>.
+                            </p>
+                          )}
                           <FormMessage />
                         </FormItem>
                       )}
                     />
 
+                    {preview && (
+                      <div className="border rounded-lg p-4 space-y-1 text-sm">
+                        <div className="flex justify-between">
+                          <span>Gross amount</span>
+                          <span>{formatMoney(preview.grossAmount, wallet?.currency)}</span>
+                        </div>
+                        <div className="flex justify-between text-muted-foreground">
+                          <span>TDS ({(preview.tdsRate / 100).toFixed(2)}%{!preview.panProvided && ", no PAN on file"})</span>
+                          <span>- {formatMoney(preview.tdsAmount, wallet?.currency)}</span>
+                        </div>
+                        <div className="flex justify-between text-muted-foreground">
+                          <span>Admin charge</span>
+                          <span>- {formatMoney(preview.adminCharge, wallet?.currency)}</span>
+                        </div>
+                        <div className="flex justify-between font-semibold pt-1 border-t">
+                          <span>You receive</span>
+                          <span>{formatMoney(preview.netAmount, wallet?.currency)}</span>
+                        </div>
+                        {!preview.panProvided && (
+                          <p className="text-xs text-muted-foreground pt-1">
+                            Add your PAN in <Link href="/client/settings" className="text-primary underline">Settings</Link> for a lower TDS rate.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     <div className="bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
                       <div className="flex items-start gap-2">
                         <AlertCircle className="h-5 w-5 text-blue-600 mt-0.5" />
@@ -203,7 +357,7 @@ export default function ClientWithdrawals() {
                           <ul className="text-sm text-blue-700 dark:text-blue-200 mt-1 space-y-1">
                             <li>• Withdrawal requests are processed within 2-3 business days</li>
                             <li>• Minimum withdrawal amount is ₹100</li>
-                            <li>• Ensure your bank details are accurate to avoid delays</li>
+                            <li>• Payouts are only approved to verified payout methods</li>
                             <li>• Once submitted, requests cannot be modified</li>
                           </ul>
                         </div>
@@ -259,8 +413,11 @@ export default function ClientWithdrawals() {
                       <div className="flex justify-between items-start">
                         <div>
                           <h3 className="font-semibold text-lg">
-                            {formatCurrency(withdrawal.amount)}
+                            {formatMoney(withdrawal.amount, withdrawal.currency)}
                           </h3>
+                          <p className="text-muted-foreground text-sm">
+                            Net {formatMoney(withdrawal.netAmount, withdrawal.currency)} after TDS {formatMoney(withdrawal.tdsAmount, withdrawal.currency)} and admin charge {formatMoney(withdrawal.adminCharge, withdrawal.currency)}
+                          </p>
                           <p className="text-muted-foreground text-sm">
                             Requested: {new Date(withdrawal.requestedAt).toLocaleString()}
                           </p>
@@ -270,11 +427,23 @@ export default function ClientWithdrawals() {
                             </p>
                           )}
                         </div>
-                        {getStatusBadge(withdrawal.status)}
+                        <div className="flex flex-col items-end gap-2">
+                          {getStatusBadge(withdrawal.status)}
+                          {withdrawal.status === "pending" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => cancelWithdrawalMutation.mutate(withdrawal.id)}
+                              disabled={cancelWithdrawalMutation.isPending}
+                            >
+                              Cancel Request
+                            </Button>
+                          )}
+                        </div>
                       </div>
                       
                       <div>
-                        <h4 className="font-medium mb-1">Bank Details:</h4>
+                        <h4 className="font-medium mb-1">Paid To:</h4>
                         <p className="text-muted-foreground text-sm whitespace-pre-line">
                           {withdrawal.bankDetails}
                         </p>
@@ -2,9 +2,10 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { LoginRequest, loginSchema } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { LoginRequest, loginSchema, type TwoFactorChallenge, type UserWithoutPassword } from "@shared/schema";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useBranding } from "@/hooks/use-branding";
 import { setAuthUser } from "@/lib/auth";
 import { useAuthStore } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
@@ -13,12 +14,20 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { TwoFactorCodeInput, TwoFactorSetup, RecoveryCodesList } from "@/components/two-factor-setup";
+import { ForgotPassword } from "@/components/forgot-password";
 import { Network } from "lucide-react";
-import logoPath from "@assets/logo_1755178929997.png";
 
 export default function LoginPage() {
   const [role, setRole] = useState<"admin" | "client">("admin");
+  // After the password: "verify" asks for a code, "setup" enrols first.
+  // "reset" is the forgot-password flow.
+  const [step, setStep] = useState<"password" | "reset" | TwoFactorChallenge["twoFactor"]>("password");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrolled, setEnrolled] = useState<{ recoveryCodes: string[]; user: UserWithoutPassword } | null>(null);
   const { toast } = useToast();
+  const { companyName, logoUrl } = useBranding();
   const queryClient = useQueryClient();
   const { setUser, setInitialized } = useAuthStore();
 
@@ -31,30 +40,72 @@ export default function LoginPage() {
     },
   });
 
+  const completeLogin = (user: UserWithoutPassword) => {
+    setAuthUser(user);
+    setUser(user);
+    setInitialized(true);
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    toast({
+      title: "Welcome!",
+      description: `Successfully logged in as ${user.role}`,
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (data: LoginRequest) => {
       const response = await apiRequest("POST", "/api/auth/login", data);
-      return response.json();
+      return response.json() as Promise<UserWithoutPassword | TwoFactorChallenge>;
+    },
+    onSuccess: (result) => {
+      if ("twoFactor" in result) {
+        setCode("");
+        setStep(result.twoFactor);
+        return;
+      }
+      completeLogin(result);
     },
-    onSuccess: (user) => {
-      setAuthUser(user);
-      setUser(user);
-      setInitialized(true);
-      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    onError: (error) => {
       toast({
-        title: "Welcome!",
-        description: `Successfully logged in as ${user.role}`,
+        title: "Login Failed",
+        description: apiErrorMessage(error, "Invalid credentials"),
+        variant: "destructive",
       });
     },
-    onError: (error: any) => {
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/verify", { code: value });
+      return response.json() as Promise<UserWithoutPassword>;
+    },
+    onSuccess: completeLogin,
+    onError: (error) => {
+      setCode("");
+      // 401 means the password step expired or too many codes were tried
+      if (error instanceof Error && error.message.startsWith("401")) {
+        setStep("password");
+      }
       toast({
-        title: "Login Failed",
-        description: error.message || "Invalid credentials",
+        title: "Verification Failed",
+        description: apiErrorMessage(error, "Invalid authentication code"),
         variant: "destructive",
       });
     },
   });
 
+  const backToPassword = () => {
+    setStep("password");
+    setCode("");
+    setUseRecoveryCode(false);
+    setEnrolled(null);
+  };
+
+  // Back from the reset flow with the username filled in
+  const finishReset = (username: string) => {
+    form.reset({ username, password: "", role });
+    setStep("password");
+  };
+
   const onSubmit = (data: LoginRequest) => {
     loginMutation.mutate({ ...data, role });
   };
@@ -73,15 +124,88 @@ export default function LoginPage() {
         <CardHeader className="text-center">
           <div className="mx-auto mb-6">
             <img 
-              src={logoPath} 
-              alt="Napping Hand Academy" 
+              src={logoUrl} 
+              alt={companyName} 
               className="h-20 w-20 mx-auto rounded-full shadow-lg"
             />
           </div>
           <CardTitle className="text-3xl font-bold text-slate-900">Sign In</CardTitle>
-          <CardDescription>Access your Napping Hand Academy management dashboard</CardDescription>
+          <CardDescription>Access your {companyName} management dashboard</CardDescription>
         </CardHeader>
         <CardContent>
+          {step === "verify" && (
+            <div className="space-y-4" data-testid="two-factor-verify">
+              <p className="text-sm text-muted-foreground text-center">
+                {useRecoveryCode
+                  ? "Enter one of your recovery codes."
+                  : "Enter the 6-digit code from your authenticator app."}
+              </p>
+              {useRecoveryCode ? (
+                <Input
+                  placeholder="xxxx-xxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  data-testid="input-recovery-code"
+                />
+              ) : (
+                <div className="flex justify-center">
+                  <TwoFactorCodeInput value={code} onChange={setCode} onComplete={(value) => verifyMutation.mutate(value)} />
+                </div>
+              )}
+              <Button
+                className="w-full"
+                disabled={!code || verifyMutation.isPending}
+                onClick={() => verifyMutation.mutate(code)}
+                data-testid="button-verify-2fa"
+              >
+                {verifyMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+              <div className="flex justify-between text-sm">
+                <Button variant="link" className="px-0" onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(""); }}>
+                  {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                </Button>
+                <Button variant="link" className="px-0" onClick={backToPassword}>
+                  Back
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === "setup" && (
+            <div className="space-y-4" data-testid="two-factor-required-setup">
+              <p className="text-sm font-medium text-center">
+                Two-factor authentication is required for admin accounts. Set it up to continue.
+              </p>
+              {enrolled ? (
+                <>
+                  <RecoveryCodesList codes={enrolled.recoveryCodes} />
+                  <Button className="w-full" onClick={() => completeLogin(enrolled.user)} data-testid="button-continue-login">
+                    Continue
+                  </Button>
+                </>
+              ) : (
+                <TwoFactorSetup
+                  onEnabled={(result) => result.user && setEnrolled({ recoveryCodes: result.recoveryCodes, user: result.user })}
+                />
+              )}
+              {!enrolled && (
+                <Button variant="link" className="w-full" onClick={backToPassword}>
+                  Back
+                </Button>
+              )}
+            </div>
+          )}
+
+          {step === "reset" && (
+            <ForgotPassword
+              initialUsername={form.getValues("username")}
+              onDone={finishReset}
+              onCancel={() => setStep("password")}
+            />
+          )}
+
+          {step === "password" && (
+          <>
           {/* Role Toggle */}
           <div className="flex justify-center mb-6">
             <div className="bg-slate-100 p-1 rounded-lg flex">
@@ -108,19 +232,6 @@ export default function LoginPage() {
             </div>
           </div>
 
-          {/* Admin Credentials Helper */}
-          {role === "admin" && (
-            <div className="mb-6 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
-              <p className="text-sm text-blue-800 dark:text-blue-200 mb-2">
-                <strong>Default Admin Credentials:</strong>
-              </p>
-              <p className="text-xs text-blue-600 dark:text-blue-300">
-                Username: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">admin</code><br />
-                Password: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">admin123</code>
-              </p>
-            </div>
-          )}
-
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <FormField
@@ -146,7 +257,18 @@ export default function LoginPage() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Password</FormLabel>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="h-auto p-0 text-sm"
+                        onClick={() => setStep("reset")}
+                        data-testid="link-forgot-password"
+                      >
+                        Forgot password?
+                      </Button>
+                    </div>
                     <FormControl>
                       <Input
                         type="password"
@@ -179,6 +301,8 @@ export default function LoginPage() {
               </Button>
             </form>
           </Form>
+          </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -9,11 +9,15 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AdminSidebar } from "@/components/admin-sidebar";
 import { PackageBadge } from "@/components/package-badge";
-import { HierarchicalTree } from "@/components/hierarchical-tree";
+import { GenealogyTree } from "@/components/genealogy-tree";
+import { SubtreeStatsSummary } from "@/components/subtree-stats";
+import { ClientSessions } from "@/components/active-sessions";
+import { ClientLockout } from "@/components/login-history";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Users, Search, Eye, UserPlus, Phone, Mail, Calendar, Network, BarChart3, TrendingUp, Share2, DollarSign, User as UserIcon } from "lucide-react";
+import { Users, Search, Eye, UserPlus, Phone, Mail, Calendar, Network, BarChart3, TrendingUp, Share2, DollarSign } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuthStore } from "@/hooks/use-auth";
+import { usePlans } from "@/hooks/use-plans";
 
 export default function ManageUsers() {
   const [searchTerm, setSearchTerm] = useState("");
@@ -63,6 +67,7 @@ export default function ManageUsers() {
   };
 
   const relevantUsers = getRelevantUsers();
+  const { getPlanRank } = usePlans();
 
   // Filter users based on search term
   const filteredClients = relevantUsers.filter(client => 
@@ -274,7 +279,7 @@ export default function ManageUsers() {
                                 </div>
                               </TableCell>
                               <TableCell>
-                                <PackageBadge package={client.package || "Silver"} />
+                                <PackageBadge planId={client.planId} />
                               </TableCell>
                               <TableCell className="text-sm text-muted-foreground">
                                 {getParentName(client.parentId)}
@@ -317,74 +322,22 @@ export default function ManageUsers() {
             </TabsContent>
 
             <TabsContent value="tree" className="space-y-4">
-              <div className="space-y-4">
-                {/* Full Community Tree and My Tree Tabs */}
-                <Tabs defaultValue={isAdmin ? "community" : "downline"} className="w-full">
-                  <TabsList className="grid w-full grid-cols-2">
-                    {isAdmin && (
-                      <TabsTrigger value="community" data-testid="tab-full-community">
-                        <Users className="h-4 w-4 mr-2" />
-                        Full Community Tree
-                      </TabsTrigger>
-                    )}
-                    <TabsTrigger value="downline" data-testid="tab-my-tree">
-                      <UserIcon className="h-4 w-4 mr-2" />
-                      My Tree (Downline)
-                    </TabsTrigger>
-                  </TabsList>
-
-                  {isAdmin && (
-                    <TabsContent value="community" className="mt-6">
-                      <Card>
-                        <CardHeader>
-                          <CardTitle className="flex items-center">
-                            <Users className="h-5 w-5 mr-2" />
-                            Full Community Tree
-                          </CardTitle>
-                          <CardDescription>
-                            Complete hierarchical view of all clients in the system
-                          </CardDescription>
-                        </CardHeader>
-                        <CardContent className="p-0">
-                          {currentUser && (
-                            <HierarchicalTree 
-                              users={[currentUser, ...clients]} 
-                              currentUser={currentUser} 
-                              isAdmin={true} 
-                            />
-                          )}
-                        </CardContent>
-                      </Card>
-                    </TabsContent>
-                  )}
-
-                  <TabsContent value="downline" className="mt-6">
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="flex items-center">
-                          <UserIcon className="h-5 w-5 mr-2" />
-                          My Tree (Downline)
-                        </CardTitle>
-                        <CardDescription>
-                          Your personal downline network
-                        </CardDescription>
-                      </CardHeader>
-                      <CardContent className="p-0">
-                        {currentUser && (
-                          <HierarchicalTree 
-                            users={[currentUser, ...clients]} 
-                            currentUser={currentUser} 
-                            isAdmin={false} 
-                          />
-                        )}
-                      </CardContent>
-                    </Card>
-                  </TabsContent>
-                </Tabs>
-              </div>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Users className="h-5 w-5 mr-2" />
+                    Community Tree
+                  </CardTitle>
+                  <CardDescription>
+                    Drag to pan, scroll to zoom, and click an empty slot to add a client there
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                  {currentUser && <GenealogyTree isAdmin={isAdmin} users={[currentUser, ...clients]} />}
+                </CardContent>
+              </Card>
             </TabsContent>
 
-
             <TabsContent value="overview" className="space-y-4">
               <Card>
                 <CardHeader>
@@ -404,7 +357,7 @@ export default function ManageUsers() {
                     </div>
                     <div className="text-center p-6 bg-muted/50 rounded-lg">
                       <div className="text-2xl font-bold text-green-600">
-                        {relevantUsers.filter(u => u.package === 'Gold' || u.package === 'Diamond').length}
+                        {relevantUsers.filter(u => getPlanRank(u.planId) > 0).length}
                       </div>
                       <div className="text-sm text-muted-foreground">Premium Members</div>
                     </div>
@@ -463,7 +416,7 @@ export default function ManageUsers() {
                                   <div className="text-sm text-muted-foreground">@{client.username}</div>
                                 </div>
                               </div>
-                              <PackageBadge package={client.package || 'Silver'} />
+                              <PackageBadge planId={client.planId} />
                             </div>
                           ))}
                         </div>
@@ -539,7 +492,7 @@ export default function ManageUsers() {
                     {selectedUser.name || selectedUser.username}
                   </h3>
                   <p className="text-muted-foreground">@{selectedUser.username}</p>
-                  <PackageBadge package={selectedUser.package || "Silver"} />
+                  <PackageBadge planId={selectedUser.planId} />
                 </div>
               </div>
 
@@ -577,11 +530,13 @@ export default function ManageUsers() {
                   <div>
                     Direct Downline: {clients.filter(u => u.parentId === selectedUser.id).length}
                   </div>
-                  <div>
-                    Total Downline: {getDownlineUsers(selectedUser.id, clients).length}
-                  </div>
                 </div>
+                <SubtreeStatsSummary clientId={selectedUser.id} />
               </div>
+
+              <ClientSessions clientId={selectedUser.id} />
+
+              <ClientLockout clientId={selectedUser.id} />
             </div>
           )}
         </DialogContent>
@@ -1,21 +1,51 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
-import { CreateClientRequest, PaymentConfirmationRequest, planPricing } from "@shared/schema";
+import { CreateClientRequest, PaymentIntent } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { AdminSidebar } from "@/components/admin-sidebar";
 import { useToast } from "@/hooks/use-toast";
+import { useBranding } from "@/hooks/use-branding";
+import { usePlans } from "@/hooks/use-plans";
 import { apiRequest } from "@/lib/queryClient";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { QrCode, CreditCard, ArrowLeft, CheckCircle, Clock } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CreditCard, ArrowLeft, CheckCircle, Clock, XCircle, RotateCcw, QrCode } from "lucide-react";
 import { Link } from "wouter";
 
+type PublicPaymentIntent = Omit<PaymentIntent, "clientData" | "passwordHash">;
+
+interface StartedPayment extends PublicPaymentIntent {
+  checkout: Record<string, string | number>;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => { open: () => void };
+  }
+}
+
+// Load the Razorpay checkout script on demand
+function loadRazorpayCheckout(): Promise<void> {
+  if (window.Razorpay) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = "https://checkout.razorpay.com/v1/checkout.js";
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error("Could not load the payment checkout"));
+    document.body.appendChild(script);
+  });
+}
+
 export default function Payment() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { companyName } = useBranding();
   const queryClient = useQueryClient();
   const [clientData, setClientData] = useState<CreateClientRequest | null>(null);
-  const [paymentStep, setPaymentStep] = useState<'payment' | 'processing' | 'success'>('payment');
+  const [payment, setPayment] = useState<StartedPayment | null>(null);
+  const startedRef = useRef(false);
+  const { getPlanName } = usePlans();
 
   useEffect(() => {
     // Retrieve client data from sessionStorage
@@ -39,50 +69,108 @@ export default function Payment() {
     }
   }, [setLocation, toast]);
 
-  const createClientMutation = useMutation({
-    mutationFn: async (paymentData: PaymentConfirmationRequest) => {
-      return await apiRequest('POST', '/api/clients/create-with-payment', paymentData);
+  // Open a provider order for the plan price
+  const startPaymentMutation = useMutation({
+    mutationFn: async (data: CreateClientRequest) => {
+      const response = await apiRequest('POST', '/api/payments/intents', { clientData: data });
+      return await response.json() as StartedPayment;
     },
-    onSuccess: () => {
-      setPaymentStep('success');
-      // Clear the pending client data
-      sessionStorage.removeItem('pendingClientData');
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
-      
+    onSuccess: (started) => {
+      setPayment(started);
+    },
+    onError: (error: any) => {
       toast({
-        title: "Client created successfully!",
-        description: "The new client has been added to the system.",
+        title: "Could not start payment",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
       });
+    }
+  });
+
+  useEffect(() => {
+    if (clientData && !startedRef.current) {
+      startedRef.current = true;
+      startPaymentMutation.mutate(clientData);
+    }
+  }, [clientData]);
+
+  // Poll until the provider's webhook settles the payment
+  const { data: intent } = useQuery<PublicPaymentIntent>({
+    queryKey: [`/api/payments/intents/${payment?.id}`],
+    enabled: !!payment,
+    refetchInterval: (query) => {
+      const current = query.state.data;
+      const settling = !current || current.status === "created" || (current.status === "paid" && !current.clientId && !current.failureReason);
+      return settling ? 2000 : false;
+    },
+  });
+  const status = intent?.status || payment?.status;
+  const clientCreated = status === "paid" && !!intent?.clientId;
+
+  useEffect(() => {
+    if (!clientCreated) return;
+    // Clear the pending client data
+    sessionStorage.removeItem('pendingClientData');
+    // Invalidate queries to refresh data
+    queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+
+    toast({
+      title: "Client created successfully!",
+      description: "Payment confirmed and the new client has been added to the system.",
+    });
+
+    // Redirect to manage users after 3 seconds
+    const timer = setTimeout(() => {
+      setLocation('/admin/users/overview');
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [clientCreated]);
 
-      // Redirect to manage users after 3 seconds
-      setTimeout(() => {
-        setLocation('/admin/users/overview');
-      }, 3000);
+  // Mock provider only: ask it to send a signed success or failure webhook
+  const simulateMutation = useMutation({
+    mutationFn: async (outcome: "success" | "failure") => {
+      return await apiRequest('POST', `/api/payments/intents/${payment!.id}/simulate`, { outcome });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/payments/intents/${payment?.id}`] });
     },
     onError: (error: any) => {
-      console.error('Client creation error:', error);
       toast({
-        title: "Failed to create client",
+        title: "Simulation failed",
         description: error?.message || "Please try again.",
         variant: "destructive"
       });
-      setPaymentStep('payment');
     }
   });
 
-  const handlePaymentConfirmation = () => {
-    if (!clientData) return;
-
-    setPaymentStep('processing');
-    
-    const paymentData: PaymentConfirmationRequest = {
-      clientData,
-      paymentConfirmed: true
-    };
+  const openCheckout = async () => {
+    if (!payment || !clientData) return;
+    try {
+      await loadRazorpayCheckout();
+      const checkout = new window.Razorpay!({
+        key: payment.checkout.keyId,
+        order_id: payment.checkout.orderId,
+        amount: payment.checkout.amount,
+        currency: payment.checkout.currency,
+        name: companyName,
+        description: `${getPlanName(clientData.planId) || "Selected"} Plan`,
+        prefill: { name: clientData.name, email: clientData.email, contact: clientData.mobile },
+      });
+      checkout.open();
+    } catch (error: any) {
+      toast({
+        title: "Could not open checkout",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
 
-    createClientMutation.mutate(paymentData);
+  const handleRetry = () => {
+    if (!clientData) return;
+    setPayment(null);
+    startPaymentMutation.mutate(clientData);
   };
 
   if (!clientData) {
@@ -96,21 +184,10 @@ export default function Payment() {
     );
   }
 
-  const planAmount = planPricing[clientData.package];
-  
-  // Map plan names to QR code images
-  const getQRCodeImage = (packageName: string) => {
-    const qrCodeMap: Record<string, string> = {
-      Silver: "/images/510.png",
-      Gold: "/images/1010.png", 
-      Diamond: "/images/1510.png"
-    };
-    return qrCodeMap[packageName] || "/images/510.png";
-  };
-  
-  const qrCodeSrc = getQRCodeImage(clientData.package);
+  const amountLabel = payment ? formatMoney(payment.amount, payment.currency) : "—";
+  const planName = getPlanName(clientData.planId) || "Selected";
 
-  if (paymentStep === 'success') {
+  if (clientCreated) {
     return (
       <div className="min-h-screen bg-background">
         <AdminSidebar />
@@ -126,7 +203,7 @@ export default function Payment() {
                   Client Created Successfully!
                 </h2>
                 <p className="text-muted-foreground mb-4">
-                  {clientData.name} has been added to the system with {clientData.package} plan.
+                  {clientData.name} has been added to the system with the {planName} plan.
                 </p>
                 <p className="text-sm text-muted-foreground mb-6">
                   Redirecting to Manage Users...
@@ -146,32 +223,6 @@ export default function Payment() {
     );
   }
 
-  if (paymentStep === 'processing') {
-    return (
-      <div className="min-h-screen bg-background">
-        <AdminSidebar />
-        
-        <div className="lg:ml-64 transition-all duration-300">
-          <div className="flex items-center justify-center min-h-screen p-6">
-            <Card className="max-w-md mx-auto text-center">
-              <CardContent className="pt-6">
-                <div className="mx-auto w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mb-4">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                </div>
-                <h2 className="text-xl font-bold text-foreground mb-2">
-                  Processing Payment...
-                </h2>
-                <p className="text-muted-foreground">
-                  Creating client account and updating system.
-                </p>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-background">
       <AdminSidebar />
@@ -230,8 +281,8 @@ export default function Payment() {
                 <div className="border-t pt-4">
                   <label className="text-sm font-medium text-muted-foreground">Selected Plan</label>
                   <div className="flex items-center justify-between mt-1">
-                    <span className="text-lg font-bold text-foreground">{clientData.package} Plan</span>
-                    <span className="text-2xl font-bold text-primary">₹{planAmount}</span>
+                    <span className="text-lg font-bold text-foreground">{planName} Plan</span>
+                    <span className="text-2xl font-bold text-primary">{amountLabel}</span>
                   </div>
                 </div>
               </CardContent>
@@ -245,78 +296,125 @@ export default function Payment() {
                   Payment Gateway
                 </CardTitle>
                 <CardDescription>
-                  Scan QR code or confirm payment completion
+                  The account is created once the payment provider confirms the payment
                 </CardDescription>
               </CardHeader>
               
               <CardContent className="space-y-6 text-center">
-                {/* QR Code Section */}
-                <div className="bg-muted/50 rounded-lg p-8">
-                  <div className="mx-auto w-48 h-48 bg-white dark:bg-gray-100 rounded-lg flex items-center justify-center border-2 border-dashed border-muted-foreground/30 overflow-hidden">
-                    <img 
-                      src={qrCodeSrc} 
-                      alt={`QR Code for ${clientData.package} plan payment`}
-                      className="w-full h-full object-cover"
-                      data-testid={`img-qr-code-${clientData.package.toLowerCase()}`}
-                      onError={(e) => {
-                        // Fallback to placeholder if image fails to load
-                        e.currentTarget.style.display = 'none';
-                        e.currentTarget.nextElementSibling?.setAttribute('style', 'display: flex');
-                      }}
-                    />
-                    <div className="w-full h-full items-center justify-center hidden">
-                      <QrCode className="h-16 w-16 text-muted-foreground" />
-                    </div>
-                  </div>
-                  <p className="text-sm text-muted-foreground mt-4" data-testid="text-qr-description">
-                    QR Code for ₹{planAmount} payment ({clientData.package} Plan)
-                  </p>
-                  <p className="text-xs text-muted-foreground mt-2">
-                    Scan with any UPI app to make payment
-                  </p>
-                </div>
-
                 {/* Payment Amount */}
                 <div className="bg-primary/5 rounded-lg p-4 border border-primary/20">
                   <p className="text-sm text-muted-foreground">Amount to Pay</p>
-                  <p className="text-3xl font-bold text-primary">₹{planAmount}</p>
-                  <p className="text-sm text-muted-foreground">{clientData.package} Plan</p>
+                  <p className="text-3xl font-bold text-primary" data-testid="text-payment-amount">{amountLabel}</p>
+                  <p className="text-sm text-muted-foreground">{planName} Plan</p>
+                  {payment && (
+                    <p className="text-xs text-muted-foreground mt-1">Order {payment.providerOrderId}</p>
+                  )}
                 </div>
 
-                {/* Payment Instructions */}
-                <div className="text-left space-y-2">
-                  <h4 className="font-medium text-foreground">Payment Instructions:</h4>
-                  <ul className="text-sm text-muted-foreground space-y-1">
-                    <li>• Scan the QR code with any UPI app</li>
-                    <li>• Complete the payment of ₹{planAmount}</li>
-                    <li>• Click "Payment Done" after successful payment</li>
-                    <li>• Wait for confirmation and account creation</li>
-                  </ul>
-                </div>
+                {!payment && (
+                  <div className="space-y-4">
+                    {startPaymentMutation.isPending ? (
+                      <p className="text-muted-foreground flex items-center justify-center">
+                        <Clock className="h-5 w-5 mr-2 animate-spin" />
+                        Creating payment order...
+                      </p>
+                    ) : (
+                      <Button onClick={handleRetry} className="w-full" data-testid="button-retry-payment">
+                        <RotateCcw className="h-5 w-5 mr-2" />
+                        Try Again
+                      </Button>
+                    )}
+                  </div>
+                )}
 
-                {/* Payment Confirmation Button */}
-                <Button 
-                  onClick={handlePaymentConfirmation}
-                  className="w-full h-12 text-lg"
-                  disabled={createClientMutation.isPending}
-                  data-testid="button-confirm-payment"
-                >
-                  {createClientMutation.isPending ? (
-                    <>
-                      <Clock className="h-5 w-5 mr-2 animate-spin" />
-                      Processing...
-                    </>
-                  ) : (
-                    <>
-                      <CheckCircle className="h-5 w-5 mr-2" />
-                      Payment Done - Create Account
-                    </>
-                  )}
-                </Button>
+                {payment && status === "created" && (
+                  <div className="space-y-4">
+                    {/* UPI QR for this order's exact amount */}
+                    <div className="bg-muted/50 rounded-lg p-8">
+                      <div className="mx-auto w-48 h-48 bg-white dark:bg-gray-100 rounded-lg flex items-center justify-center border-2 border-dashed border-muted-foreground/30 overflow-hidden">
+                        <img 
+                          src={`/api/payments/intents/${payment.id}/upi-qr.svg`}
+                          alt={`UPI QR code for ${amountLabel} (${planName} Plan)`}
+                          className="w-full h-full object-contain"
+                          data-testid="img-upi-qr"
+                          onError={(e) => {
+                            // Fallback to placeholder when no UPI payee is configured
+                            e.currentTarget.style.display = 'none';
+                            e.currentTarget.nextElementSibling?.setAttribute('style', 'display: flex');
+                          }}
+                        />
+                        <div className="w-full h-full items-center justify-center hidden">
+                          <QrCode className="h-16 w-16 text-muted-foreground" />
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-4" data-testid="text-qr-description">
+                        Scan with any UPI app to pay {amountLabel}
+                      </p>
+                    </div>
 
-                <p className="text-xs text-muted-foreground">
-                  Click only after completing the payment successfully
-                </p>
+                    {payment.provider === "mock" ? (
+                      <div className="space-y-2">
+                        <p className="text-sm text-muted-foreground">
+                          Mock payment provider: choose the outcome the provider should report
+                        </p>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button
+                            onClick={() => simulateMutation.mutate("success")}
+                            disabled={simulateMutation.isPending}
+                            data-testid="button-simulate-success"
+                          >
+                            <CheckCircle className="h-5 w-5 mr-2" />
+                            Simulate Success
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => simulateMutation.mutate("failure")}
+                            disabled={simulateMutation.isPending}
+                            data-testid="button-simulate-failure"
+                          >
+                            <XCircle className="h-5 w-5 mr-2" />
+                            Simulate Failure
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <Button onClick={openCheckout} className="w-full h-12 text-lg" data-testid="button-pay-now">
+                        <CreditCard className="h-5 w-5 mr-2" />
+                        Pay {amountLabel}
+                      </Button>
+                    )}
+                    <p className="text-xs text-muted-foreground flex items-center justify-center">
+                      <Clock className="h-4 w-4 mr-1 animate-spin" />
+                      Waiting for payment confirmation...
+                    </p>
+                  </div>
+                )}
+
+                {payment && status === "paid" && !intent?.clientId && (
+                  <div className="space-y-2">
+                    {intent?.failureReason ? (
+                      <p className="text-sm text-destructive">{intent.failureReason}</p>
+                    ) : (
+                      <p className="text-muted-foreground flex items-center justify-center">
+                        <Clock className="h-5 w-5 mr-2 animate-spin" />
+                        Payment received. Creating client account...
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {payment && status === "failed" && (
+                  <div className="space-y-4">
+                    <p className="text-sm text-destructive flex items-center justify-center">
+                      <XCircle className="h-5 w-5 mr-2" />
+                      {intent?.failureReason || "Payment failed"}
+                    </p>
+                    <Button onClick={handleRetry} className="w-full" disabled={startPaymentMutation.isPending} data-testid="button-retry-payment">
+                      <RotateCcw className="h-5 w-5 mr-2" />
+                      Try Again
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -10,11 +10,38 @@ import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertPlanSchema, updatePlanSchema, InsertPlan, UpdatePlan, Plan } from "@shared/schema";
+import { insertPlanSchema, InsertPlan, UpdatePlan, Plan } from "@shared/schema";
+import { formatMoney, fromMinorUnits, majorAmountSchema, toMinorUnits } from "@shared/money";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Edit, Trash2, ArrowLeft } from "lucide-react";
 import { Link } from "wouter";
+import { z } from "zod";
+
+// Pair caps are whole numbers of pairs; 0 leaves the plan uncapped
+const pairCapSchema = z.string().regex(/^\d+$/, "Enter a whole number of pairs (0 for no cap)");
+
+// Money fields are typed in rupees and converted to paise before saving
+const planFormSchema = insertPlanSchema.extend({
+  price: majorAmountSchema,
+  referralCommission: majorAmountSchema,
+  treeCommission: majorAmountSchema,
+  dailyPairCap: pairCapSchema,
+  monthlyPairCap: pairCapSchema,
+});
+const editPlanFormSchema = planFormSchema.partial();
+
+type PlanFormValues = z.infer<typeof planFormSchema>;
+type EditPlanFormValues = z.infer<typeof editPlanFormSchema>;
+
+const toPlanPayload = (data: EditPlanFormValues): UpdatePlan => ({
+  ...data,
+  price: data.price !== undefined ? toMinorUnits(data.price) : undefined,
+  referralCommission: data.referralCommission !== undefined ? toMinorUnits(data.referralCommission) : undefined,
+  treeCommission: data.treeCommission !== undefined ? toMinorUnits(data.treeCommission) : undefined,
+  dailyPairCap: data.dailyPairCap !== undefined ? parseInt(data.dailyPairCap, 10) : undefined,
+  monthlyPairCap: data.monthlyPairCap !== undefined ? parseInt(data.monthlyPairCap, 10) : undefined,
+});
 
 export default function PlansPage() {
   const { toast } = useToast();
@@ -26,20 +53,22 @@ export default function PlansPage() {
     queryKey: ['/api/plans'],
   });
 
-  const addPlanForm = useForm<InsertPlan>({
-    resolver: zodResolver(insertPlanSchema),
+  const addPlanForm = useForm<PlanFormValues>({
+    resolver: zodResolver(planFormSchema),
     defaultValues: {
       name: "",
       price: "",
       businessVolume: "",
       referralCommission: "",
       treeCommission: "",
+      dailyPairCap: "0",
+      monthlyPairCap: "0",
       status: "active"
     }
   });
 
-  const editPlanForm = useForm<UpdatePlan>({
-    resolver: zodResolver(updatePlanSchema),
+  const editPlanForm = useForm<EditPlanFormValues>({
+    resolver: zodResolver(editPlanFormSchema),
     defaultValues: {}
   });
 
@@ -119,21 +148,23 @@ export default function PlansPage() {
     setEditingPlan(plan);
     editPlanForm.reset({
       name: plan.name,
-      price: plan.price,
+      price: fromMinorUnits(plan.price).toFixed(2),
       businessVolume: plan.businessVolume,
-      referralCommission: plan.referralCommission,
-      treeCommission: plan.treeCommission,
+      referralCommission: fromMinorUnits(plan.referralCommission).toFixed(2),
+      treeCommission: fromMinorUnits(plan.treeCommission).toFixed(2),
+      dailyPairCap: String(plan.dailyPairCap),
+      monthlyPairCap: String(plan.monthlyPairCap),
       status: plan.status
     });
   };
 
-  const onAddSubmit = (data: InsertPlan) => {
-    addPlanMutation.mutate(data);
+  const onAddSubmit = (data: PlanFormValues) => {
+    addPlanMutation.mutate(toPlanPayload(data) as InsertPlan);
   };
 
-  const onEditSubmit = (data: UpdatePlan) => {
+  const onEditSubmit = (data: EditPlanFormValues) => {
     if (editingPlan) {
-      updatePlanMutation.mutate({ id: editingPlan.id, data });
+      updatePlanMutation.mutate({ id: editingPlan.id, data: toPlanPayload(data) });
     }
   };
 
@@ -199,9 +230,9 @@ export default function PlansPage() {
                         name="price"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Price</FormLabel>
+                            <FormLabel>Price (₹)</FormLabel>
                             <FormControl>
-                              <Input placeholder="e.g., ₹2000.00 INR" {...field} data-testid="input-plan-price" />
+                              <Input placeholder="e.g., 2000.00" {...field} data-testid="input-plan-price" />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -225,9 +256,9 @@ export default function PlansPage() {
                         name="referralCommission"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Referral Commission</FormLabel>
+                            <FormLabel>Referral Commission (₹)</FormLabel>
                             <FormControl>
-                              <Input placeholder="e.g., ₹400.00 INR" {...field} data-testid="input-plan-referral" />
+                              <Input placeholder="e.g., 400.00" {...field} data-testid="input-plan-referral" />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -238,9 +269,35 @@ export default function PlansPage() {
                         name="treeCommission"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Tree Commission</FormLabel>
+                            <FormLabel>Tree Commission per Pair (₹)</FormLabel>
                             <FormControl>
-                              <Input placeholder="e.g., ₹800.00 INR" {...field} data-testid="input-plan-tree" />
+                              <Input placeholder="e.g., 800.00" {...field} data-testid="input-plan-tree" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={addPlanForm.control}
+                        name="dailyPairCap"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Daily Pair Cap</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., 3 (0 for no cap)" {...field} data-testid="input-plan-daily-cap" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={addPlanForm.control}
+                        name="monthlyPairCap"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Monthly Pair Cap</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., 90 (0 for no cap)" {...field} data-testid="input-plan-monthly-cap" />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -278,6 +335,7 @@ export default function PlansPage() {
                       <th className="text-left py-3 px-4">Business Volume (BV)</th>
                       <th className="text-left py-3 px-4">Referral Commission</th>
                       <th className="text-left py-3 px-4">Tree Commission</th>
+                      <th className="text-left py-3 px-4">Pair Caps (Day / Month)</th>
                       <th className="text-left py-3 px-4">Status</th>
                       <th className="text-left py-3 px-4">Actions</th>
                     </tr>
@@ -286,10 +344,13 @@ export default function PlansPage() {
                     {plans?.map((plan) => (
                       <tr key={plan.id} className="border-b hover:bg-muted/50" data-testid={`row-plan-${plan.id}`}>
                         <td className="py-3 px-4 font-medium" data-testid={`text-plan-name-${plan.id}`}>{plan.name}</td>
-                        <td className="py-3 px-4" data-testid={`text-plan-price-${plan.id}`}>{plan.price}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-price-${plan.id}`}>{formatMoney(plan.price, plan.currency)}</td>
                         <td className="py-3 px-4" data-testid={`text-plan-bv-${plan.id}`}>{plan.businessVolume}</td>
-                        <td className="py-3 px-4" data-testid={`text-plan-referral-${plan.id}`}>{plan.referralCommission}</td>
-                        <td className="py-3 px-4" data-testid={`text-plan-tree-${plan.id}`}>{plan.treeCommission}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-referral-${plan.id}`}>{formatMoney(plan.referralCommission, plan.currency)}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-tree-${plan.id}`}>{formatMoney(plan.treeCommission, plan.currency)}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-caps-${plan.id}`}>
+                          {plan.dailyPairCap || "No cap"} / {plan.monthlyPairCap || "No cap"}
+                        </td>
                         <td className="py-3 px-4">
                           <Badge variant={plan.status === 'active' ? 'default' : 'secondary'} data-testid={`status-plan-${plan.id}`}>
                             {plan.status === 'active' ? 'Enabled' : 'Disabled'}
@@ -360,9 +421,9 @@ export default function PlansPage() {
                 name="price"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Price</FormLabel>
+                    <FormLabel>Price (₹)</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., ₹2000.00 INR" {...field} data-testid="input-edit-plan-price" />
+                      <Input placeholder="e.g., 2000.00" {...field} data-testid="input-edit-plan-price" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -386,9 +447,9 @@ export default function PlansPage() {
                 name="referralCommission"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Referral Commission</FormLabel>
+                    <FormLabel>Referral Commission (₹)</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., ₹400.00 INR" {...field} data-testid="input-edit-plan-referral" />
+                      <Input placeholder="e.g., 400.00" {...field} data-testid="input-edit-plan-referral" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -399,9 +460,35 @@ export default function PlansPage() {
                 name="treeCommission"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Tree Commission</FormLabel>
+                    <FormLabel>Tree Commission per Pair (₹)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 800.00" {...field} data-testid="input-edit-plan-tree" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={editPlanForm.control}
+                name="dailyPairCap"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Daily Pair Cap</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 3 (0 for no cap)" {...field} data-testid="input-edit-plan-daily-cap" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={editPlanForm.control}
+                name="monthlyPairCap"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monthly Pair Cap</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., ₹800.00 INR" {...field} data-testid="input-edit-plan-tree" />
+                      <Input placeholder="e.g., 90 (0 for no cap)" {...field} data-testid="input-edit-plan-monthly-cap" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
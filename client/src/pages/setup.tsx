@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { setupSchema, type SetupRequest, type UserWithoutPassword } from "@shared/schema";
+import { SUPPORTED_CURRENCIES } from "@shared/money";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LogoUpload } from "@/components/logo-upload";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { setAuthUser } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Fields checked before moving past each step
+const STEPS: { title: string; description: string; fields: (keyof SetupRequest)[] }[] = [
+  {
+    title: "Owner account",
+    description: "The first admin account. The setup code is printed in the server log.",
+    fields: ["setupCode", "name", "username", "email", "password", "confirmPassword"],
+  },
+  {
+    title: "Organisation",
+    description: "Shown on the sign-in page and in the dashboards.",
+    fields: ["companyName", "logoUrl", "currency"],
+  },
+  {
+    title: "Payments",
+    description: "Where UPI payments for plans are collected. You can change this later in settings.",
+    fields: ["upiPayeeVpa", "upiPayeeName"],
+  },
+];
+
+export default function SetupWizard() {
+  const [step, setStep] = useState(0);
+  const { setUser, setInitialized } = useAuthStore();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<SetupRequest>({
+    resolver: zodResolver(setupSchema),
+    defaultValues: {
+      setupCode: "",
+      name: "",
+      username: "",
+      email: "",
+      password: "",
+      confirmPassword: "",
+      companyName: "",
+      logoUrl: "",
+      currency: "INR",
+      upiPayeeVpa: "",
+      upiPayeeName: "",
+    },
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async (data: SetupRequest) => {
+      const response = await apiRequest("POST", "/api/setup", data);
+      return response.json() as Promise<UserWithoutPassword>;
+    },
+    onSuccess: (owner) => {
+      setAuthUser(owner);
+      setUser(owner);
+      setInitialized(true);
+      queryClient.invalidateQueries({ queryKey: ["/api/setup/status"] });
+      toast({ title: "Setup complete", description: `Welcome, ${owner.name || owner.username}!` });
+    },
+    onError: (error) => {
+      // A wrong setup code is the usual reason; send the owner back to it
+      setStep(0);
+      toast({ title: "Setup failed", description: apiErrorMessage(error, "Please check the details and try again."), variant: "destructive" });
+    },
+  });
+
+  const next = async () => {
+    if (await form.trigger(STEPS[step].fields)) {
+      setStep(step + 1);
+    }
+  };
+
+  const textField = (name: keyof SetupRequest, label: string, type = "text", description?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} data-testid={`input-${name}`} />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const isLastStep = step === STEPS.length - 1;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted py-8">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <Card className="w-full max-w-lg mx-4 shadow-lg">
+        <CardHeader>
+          <p className="text-sm text-muted-foreground">Step {step + 1} of {STEPS.length}</p>
+          <CardTitle className="text-2xl">{STEPS[step].title}</CardTitle>
+          <CardDescription>{STEPS[step].description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => setupMutation.mutate(data))} className="space-y-4">
+              {step === 0 && (
+                <>
+                  {textField("setupCode", "Setup code")}
+                  {textField("name", "Your name")}
+                  {textField("username", "Username")}
+                  {textField("email", "Email", "email")}
+                  {textField("password", "Password", "password", "At least 12 characters with upper and lower case letters, a number and a symbol.")}
+                  {textField("confirmPassword", "Confirm password", "password")}
+                </>
+              )}
+
+              {step === 1 && (
+                <>
+                  {textField("companyName", "Company name")}
+                  <FormField
+                    control={form.control}
+                    name="logoUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Logo (optional)</FormLabel>
+                        <LogoUpload value={field.value} onChange={field.onChange} />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Currency</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-currency">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {SUPPORTED_CURRENCIES.map((currency) => (
+                              <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Plans, earnings and payouts use this currency. It cannot be changed later.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              {step === 2 && (
+                <>
+                  {textField("upiPayeeVpa", "UPI ID (optional)", "text", "For example company@okaxis.")}
+                  {textField("upiPayeeName", "Payee name (optional)", "text", "Defaults to the company name.")}
+                </>
+              )}
+
+              <div className="flex justify-between pt-2">
+                <Button type="button" variant="outline" disabled={step === 0} onClick={() => setStep(step - 1)}>
+                  Back
+                </Button>
+                {isLastStep ? (
+                  <Button type="submit" disabled={setupMutation.isPending} data-testid="button-finish-setup">
+                    {setupMutation.isPending ? "Setting up..." : "Finish setup"}
+                  </Button>
+                ) : (
+                  <Button type="button" onClick={next} data-testid="button-next-step">
+                    Next
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
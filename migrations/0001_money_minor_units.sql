@@ -0,0 +1,26 @@
+-- Convert money columns from formatted text (e.g. "₹510.00 INR") to integer
+-- minor units (paise) with an explicit currency code.
+-- Run once against an existing database before `npm run db:push`.
+
+BEGIN;
+
+ALTER TABLE plans
+  ALTER COLUMN price TYPE integer
+    USING round(coalesce(nullif(regexp_replace(price, '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer,
+  ALTER COLUMN referral_commission TYPE integer
+    USING round(coalesce(nullif(regexp_replace(referral_commission, '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer,
+  ALTER COLUMN tree_commission TYPE integer
+    USING round(coalesce(nullif(regexp_replace(tree_commission, '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer,
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'INR';
+
+ALTER TABLE earnings
+  ALTER COLUMN amount TYPE integer
+    USING round(coalesce(nullif(regexp_replace(amount, '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer,
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'INR';
+
+ALTER TABLE withdrawals
+  ALTER COLUMN amount TYPE integer
+    USING round(coalesce(nullif(regexp_replace(amount, '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer,
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'INR';
+
+COMMIT;
@@ -0,0 +1,41 @@
+-- Backfill the wallet ledger from earnings and withdrawals recorded before it
+-- existed. Run once after `npm run db:push` has created ledger_entries.
+
+BEGIN;
+
+-- Earnings: commission expense -> available balance
+WITH tx AS (
+  SELECT e.*, gen_random_uuid()::varchar AS transaction_id
+  FROM earnings e
+  WHERE NOT EXISTS (SELECT 1 FROM ledger_entries l WHERE l.reference_id = e.id)
+)
+INSERT INTO ledger_entries (transaction_id, client_id, account, amount, currency, entry_type, reference_id, description, created_at)
+SELECT transaction_id, client_id, 'wallet_available', amount, currency, 'earning', id, description, created_at FROM tx
+UNION ALL
+SELECT transaction_id, client_id, 'commission_expense', -amount, currency, 'earning', id, description, created_at FROM tx;
+
+-- Pending withdrawals: available -> held
+WITH tx AS (
+  SELECT w.*, gen_random_uuid()::varchar AS transaction_id
+  FROM withdrawals w
+  WHERE w.status = 'pending'
+    AND NOT EXISTS (SELECT 1 FROM ledger_entries l WHERE l.reference_id = w.id)
+)
+INSERT INTO ledger_entries (transaction_id, client_id, account, amount, currency, entry_type, reference_id, description, created_at)
+SELECT transaction_id, client_id, 'wallet_available', -amount, currency, 'withdrawal_hold', id, 'Withdrawal requested', requested_at FROM tx
+UNION ALL
+SELECT transaction_id, client_id, 'wallet_held', amount, currency, 'withdrawal_hold', id, 'Withdrawal requested', requested_at FROM tx;
+
+-- Approved or completed withdrawals: available -> paid out
+WITH tx AS (
+  SELECT w.*, gen_random_uuid()::varchar AS transaction_id
+  FROM withdrawals w
+  WHERE w.status IN ('approved', 'completed')
+    AND NOT EXISTS (SELECT 1 FROM ledger_entries l WHERE l.reference_id = w.id)
+)
+INSERT INTO ledger_entries (transaction_id, client_id, account, amount, currency, entry_type, reference_id, description, created_at)
+SELECT transaction_id, client_id, 'wallet_available', -amount, currency, 'withdrawal_payout', id, 'Withdrawal approved', coalesce(processed_at, requested_at) FROM tx
+UNION ALL
+SELECT transaction_id, client_id, 'payouts', amount, currency, 'withdrawal_payout', id, 'Withdrawal approved', coalesce(processed_at, requested_at) FROM tx;
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Split each withdrawal into gross, TDS, admin charge and net. Withdrawals
+-- made before deductions existed were paid in full, so their net equals the
+-- gross amount. Run once against an existing database before `npm run db:push`.
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS pan text;
+
+ALTER TABLE withdrawals
+  ADD COLUMN IF NOT EXISTS tds_rate integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tds_amount integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS admin_charge integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS net_amount integer;
+
+UPDATE withdrawals SET net_amount = amount WHERE net_amount IS NULL;
+
+ALTER TABLE withdrawals
+  ALTER COLUMN net_amount SET NOT NULL;
+
+COMMIT;
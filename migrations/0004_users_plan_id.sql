@@ -0,0 +1,25 @@
+-- Replace the free-text users.package ("Silver" | "Gold" | "Diamond") with a
+-- plan_id foreign key to plans. Existing clients are matched to the plan of
+-- the same name. Run once against an existing database before `npm run db:push`.
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS plan_id varchar REFERENCES plans(id);
+
+UPDATE users
+SET plan_id = (SELECT p.id FROM plans p WHERE p.name = users.package ORDER BY p.created_at LIMIT 1)
+WHERE plan_id IS NULL AND package IS NOT NULL;
+
+-- Stop before dropping package if any client names a plan that does not exist
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM users WHERE package IS NOT NULL AND plan_id IS NULL) THEN
+    RAISE EXCEPTION 'Some users have a package with no matching plan; create the plan and re-run';
+  END IF;
+END $$;
+
+ALTER TABLE users
+  DROP COLUMN IF EXISTS package;
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Daily and monthly pair caps move onto plans, with a monthly counter on
+-- binary_volumes. The seeded plans get the caps advertised on their plan
+-- cards. Run once against an existing database before `npm run db:push`,
+-- which creates the new pair_flushes table.
+
+BEGIN;
+
+ALTER TABLE plans
+  ADD COLUMN IF NOT EXISTS daily_pair_cap integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS monthly_pair_cap integer NOT NULL DEFAULT 0;
+
+UPDATE plans SET daily_pair_cap = 3, monthly_pair_cap = 90 WHERE name = 'Silver' AND daily_pair_cap = 0 AND monthly_pair_cap = 0;
+UPDATE plans SET daily_pair_cap = 6, monthly_pair_cap = 180 WHERE name = 'Gold' AND daily_pair_cap = 0 AND monthly_pair_cap = 0;
+UPDATE plans SET daily_pair_cap = 9, monthly_pair_cap = 270 WHERE name = 'Diamond' AND daily_pair_cap = 0 AND monthly_pair_cap = 0;
+
+ALTER TABLE binary_volumes
+  ADD COLUMN IF NOT EXISTS pairs_in_month integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS pair_month text;
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Users gain a sponsor_id separate from the placement parent. Until now the
+-- placement parent was also treated as the sponsor, so existing members are
+-- backfilled with their parent. Run once against an existing database.
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS sponsor_id varchar;
+
+UPDATE users SET sponsor_id = parent_id WHERE sponsor_id IS NULL AND parent_id IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Guarantee each tree slot holds one member: a unique index on
+-- users (parent_id, position). Aborts if duplicates already exist so they
+-- can be resolved by hand first. Run once against an existing database.
+
+BEGIN;
+
+DO $$
+DECLARE
+  duplicates integer;
+BEGIN
+  SELECT count(*) INTO duplicates FROM (
+    SELECT parent_id, position FROM users
+    WHERE parent_id IS NOT NULL AND position IS NOT NULL
+    GROUP BY parent_id, position
+    HAVING count(*) > 1
+  ) taken_twice;
+  IF duplicates > 0 THEN
+    RAISE EXCEPTION '% tree slot(s) are held by more than one user; fix them before adding the unique index', duplicates;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_parent_position_unique ON users (parent_id, position);
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Clients are deactivated (soft deleted) by default instead of being removed
+-- from the tree. Existing users start out active. Run once against an
+-- existing database.
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamp;
+
+COMMIT;
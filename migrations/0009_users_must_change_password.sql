@@ -0,0 +1,10 @@
+-- Admins can be made to choose a new password at their next login. The
+-- server sets it at startup for any admin still on the old seeded default
+-- password. Run once against an existing database.
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false;
+
+COMMIT;
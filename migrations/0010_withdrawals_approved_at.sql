@@ -0,0 +1,20 @@
+-- Deduction statements place each withdrawal in the financial year it was
+-- approved. processed_at moves on with every later status change, so the
+-- approval time gets its own column, backfilled from the audit trail.
+-- Run once against an existing database.
+
+BEGIN;
+
+ALTER TABLE withdrawals
+  ADD COLUMN IF NOT EXISTS approved_at timestamp;
+
+UPDATE withdrawals w SET approved_at = approval.created_at
+FROM (
+  SELECT withdrawal_id, min(created_at) AS created_at
+  FROM withdrawal_events
+  WHERE to_status = 'approved'
+  GROUP BY withdrawal_id
+) approval
+WHERE approval.withdrawal_id = w.id AND w.approved_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,34 @@
+// Tree integrity check from the command line:
+//   npm run tree:check            report only
+//   npm run tree:check -- --repair  also apply automated repairs
+// Exits with status 1 while unrepaired issues remain.
+import { storage } from "./storage";
+import { checkTreeIntegrity } from "./tree-integrity";
+
+async function main() {
+  const repair = process.argv.includes("--repair");
+  const report = await checkTreeIntegrity(storage, { repair });
+
+  console.log(`Checked ${report.userCount} users at ${report.checkedAt}`);
+  if (report.issues.length === 0) {
+    console.log("No issues found");
+  }
+  for (const issue of report.issues) {
+    console.log(`${issue.repairable ? "  " : "! "}[${issue.type}] ${issue.detail} (${issue.userId})`);
+  }
+  for (const repaired of report.repairs) {
+    console.log(`repaired [${repaired.issue}] ${repaired.action} (${repaired.userId})`);
+  }
+
+  const repairedIds = new Set(report.repairs.map(repaired => repaired.userId));
+  const remaining = report.issues.filter(issue => !repairedIds.has(issue.userId));
+  if (remaining.length > 0 && !repair) {
+    console.log(`${report.issues.filter(issue => issue.repairable).length} issue(s) can be repaired with --repair`);
+  }
+  process.exit(remaining.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
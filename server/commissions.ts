@@ -0,0 +1,53 @@
+import type { User, Plan } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { addBusinessVolume, getPairingConfig } from "./pairing";
+
+async function findPlanForClient(storage: IStorage, client: User): Promise<Plan | undefined> {
+  if (!client.planId) return undefined;
+  return (await storage.getPlanById(client.planId)) || undefined;
+}
+
+// Credit commissions generated by a newly joined client. The sponsor receives
+// the plan's referral commission, and the plan's BV flows up the placement
+// upline where matched pairs pay each earner's own tree commission per pair.
+// Admins sit at the root of the tree and never earn commissions.
+export async function creditJoiningCommissions(storage: IStorage, client: User): Promise<void> {
+  const plan = await findPlanForClient(storage, client);
+  if (!plan) return;
+
+  const joinerName = client.name || client.username;
+  const referralAmount = plan.referralCommission;
+  const sponsor = client.sponsorId ? await storage.getUserById(client.sponsorId) : null;
+
+  if (sponsor && sponsor.role === "client" && referralAmount > 0) {
+    await storage.createEarning(
+      sponsor.id,
+      "referral",
+      referralAmount,
+      `Referral commission for ${joinerName} (${plan.name})`,
+      client.id,
+      plan.currency
+    );
+  }
+
+  const config = getPairingConfig();
+  const results = await addBusinessVolume(storage, client, parseInt(plan.businessVolume, 10) || 0, config);
+
+  for (const result of results) {
+    if (result.paidPairs === 0) continue;
+
+    const earner = await storage.getUserById(result.clientId);
+    const earnerPlan = earner ? await findPlanForClient(storage, earner) : undefined;
+    const perPair = earnerPlan ? earnerPlan.treeCommission : 0;
+    if (!earnerPlan || perPair <= 0) continue;
+
+    await storage.createEarning(
+      result.clientId,
+      "tree",
+      perPair * result.paidPairs,
+      `Binary matching bonus: ${result.paidPairs} pair(s) at ${config.ratio} after ${joinerName} joined`,
+      client.id,
+      earnerPlan.currency
+    );
+  }
+}
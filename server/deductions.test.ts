@@ -0,0 +1,50 @@
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Withdrawal } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { buildDeductionStatementCsv, deductedWithdrawalsInYear, financialYearOf, financialYearRange } from "./deductions";
+
+test("financial years start at midnight IST on 1 April", () => {
+  const { start, end } = financialYearRange("2025-26");
+  assert.equal(start.toISOString(), "2025-03-31T18:30:00.000Z");
+  assert.equal(end.toISOString(), "2026-03-31T18:30:00.000Z");
+  assert.equal(financialYearOf(new Date("2025-03-31T18:29:59Z")), "2024-25");
+  assert.equal(financialYearOf(new Date("2025-03-31T18:30:00Z")), "2025-26");
+});
+
+test("withdrawals fall in the year they were approved, not requested", () => {
+  const withdrawal = (id: string, status: string, requestedAt: string, approvedAt: string | null) =>
+    ({ id, status, requestedAt: new Date(requestedAt), approvedAt: approvedAt && new Date(approvedAt) }) as Withdrawal;
+
+  const picked = deductedWithdrawalsInYear([
+    withdrawal("requested-before-approved-in", "approved", "2025-03-28T06:00:00Z", "2025-04-02T06:00:00Z"),
+    withdrawal("approved-after-year-end", "completed", "2026-03-20T06:00:00Z", "2026-04-01T06:00:00Z"),
+    withdrawal("still-pending", "pending", "2025-06-01T06:00:00Z", null),
+    withdrawal("rejected", "rejected", "2025-06-01T06:00:00Z", null),
+  ], "2025-26");
+
+  assert.deepEqual(picked.map(w => w.id), ["requested-before-approved-in"]);
+});
+
+test("a withdrawal approved before year end stays in that year when paid after it", async (t) => {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "admin", password: "admin-password", role: "admin" });
+  const client = await storage.createUser({ username: "client", password: "secret1", role: "client" });
+  await storage.createEarning(client.id, "referral", 500000, "Referral bonus");
+  const method = await storage.createPayoutMethod(client.id, { type: "upi", accountHolderName: "Client One", upiId: "client@okbank" });
+  await storage.setPayoutMethodVerified(method.id, true, admin.id);
+  const { id } = await storage.createWithdrawal(client.id, { amount: 200000, payoutMethodId: method.id });
+
+  mock.timers.enable({ apis: ["Date"], now: new Date("2026-03-31T12:00:00Z") });
+  t.after(() => mock.timers.reset());
+  await storage.updateWithdrawalStatus(id, "approved", admin.id);
+  mock.timers.setTime(new Date("2026-04-02T06:00:00Z").getTime());
+  await storage.updateWithdrawalStatus(id, "processing", admin.id);
+  await storage.updateWithdrawalStatus(id, "completed", admin.id);
+
+  const withdrawals = await storage.getWithdrawalsByClient(client.id);
+  assert.deepEqual(deductedWithdrawalsInYear(withdrawals, "2025-26").map(w => w.id), [id]);
+  assert.deepEqual(deductedWithdrawalsInYear(withdrawals, "2026-27"), []);
+  const csv = buildDeductionStatementCsv(client, "2025-26", deductedWithdrawalsInYear(withdrawals, "2025-26"));
+  assert.match(csv, new RegExp(`^2026-03-31,${id},completed,`, "m"));
+});
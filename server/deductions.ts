@@ -0,0 +1,142 @@
+import type { User, Withdrawal } from "@shared/schema";
+import { fromMinorUnits } from "@shared/money";
+import { csvCell } from "./payouts";
+
+export type AdminChargeType = "percent" | "flat";
+
+export interface DeductionConfig {
+  tdsRateBps: number; // TDS in basis points when the client has a PAN (500 = 5%)
+  tdsRateNoPanBps: number; // Higher TDS when no PAN is on file
+  adminChargeType: AdminChargeType;
+  adminChargeValue: number; // Basis points for "percent", minor units for "flat"
+}
+
+export interface WithdrawalDeductions {
+  grossAmount: number;
+  tdsRate: number; // Basis points actually applied
+  tdsAmount: number;
+  adminCharge: number;
+  netAmount: number;
+}
+
+// Percentages are configured as e.g. "5" or "2.5"; flat charges in rupees
+function percentToBps(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value || "");
+  return isNaN(parsed) || parsed < 0 ? fallback : Math.round(parsed * 100);
+}
+
+export function getDeductionConfig(): DeductionConfig {
+  const adminChargeType: AdminChargeType = process.env.ADMIN_CHARGE_TYPE === "flat" ? "flat" : "percent";
+  return {
+    tdsRateBps: percentToBps(process.env.TDS_RATE, 500),
+    tdsRateNoPanBps: percentToBps(process.env.TDS_RATE_NO_PAN, 2000),
+    adminChargeType,
+    // percentToBps also turns rupees into paise, since both scale by 100
+    adminChargeValue: percentToBps(process.env.ADMIN_CHARGE_VALUE, 0),
+  };
+}
+
+// TDS and the admin charge are both taken from the gross amount. The net can
+// never go below zero.
+export function calculateDeductions(
+  grossAmount: number,
+  client: Pick<User, "pan">,
+  config: DeductionConfig = getDeductionConfig()
+): WithdrawalDeductions {
+  const tdsRate = client.pan ? config.tdsRateBps : config.tdsRateNoPanBps;
+  const tdsAmount = Math.round(grossAmount * tdsRate / 10000);
+  const adminCharge = Math.min(
+    config.adminChargeType === "flat" ? config.adminChargeValue : Math.round(grossAmount * config.adminChargeValue / 10000),
+    grossAmount - tdsAmount
+  );
+  return {
+    grossAmount,
+    tdsRate,
+    tdsAmount,
+    adminCharge,
+    netAmount: grossAmount - tdsAmount - adminCharge,
+  };
+}
+
+export function assertNetPayable(deductions: WithdrawalDeductions): WithdrawalDeductions {
+  if (deductions.netAmount <= 0) {
+    throw new Error("Withdrawal amount does not cover the TDS and admin charge");
+  }
+  return deductions;
+}
+
+// Financial years and statement dates follow Indian Standard Time (UTC+5:30),
+// whatever time zone the server runs in
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+function toIst(date: Date): Date {
+  return new Date(date.getTime() + IST_OFFSET_MS);
+}
+
+// Indian financial years run April to March, e.g. "2025-26"
+export function financialYearOf(date: Date): string {
+  const ist = toIst(date);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+export function financialYearRange(financialYear: string): { start: Date; end: Date } {
+  const match = /^(\d{4})-(\d{2})$/.exec(financialYear);
+  if (!match || (parseInt(match[1], 10) + 1) % 100 !== parseInt(match[2], 10)) {
+    throw new Error("Financial year must look like 2025-26");
+  }
+  const startYear = parseInt(match[1], 10);
+  // Midnight IST on 1 April at each end
+  return {
+    start: new Date(Date.UTC(startYear, 3, 1) - IST_OFFSET_MS),
+    end: new Date(Date.UTC(startYear + 1, 3, 1) - IST_OFFSET_MS),
+  };
+}
+
+// Deductions are only final once a withdrawal has been approved for payment
+const deductedStatuses = ["approved", "processing", "completed"];
+
+// Withdrawals count in the year they were approved, however long payment takes
+export function deductedWithdrawalsInYear(withdrawals: Withdrawal[], financialYear: string): Withdrawal[] {
+  const { start, end } = financialYearRange(financialYear);
+  return withdrawals
+    .filter(w => deductedStatuses.includes(w.status) && w.approvedAt && w.approvedAt >= start && w.approvedAt < end)
+    .sort((a, b) => a.approvedAt!.getTime() - b.approvedAt!.getTime());
+}
+
+// Per-financial-year statement of gross payouts and the TDS and admin
+// charges taken from them
+export function buildDeductionStatementCsv(client: User, financialYear: string, withdrawals: Withdrawal[]): string {
+  const money = (minor: number) => fromMinorUnits(minor).toFixed(2);
+  const totals = withdrawals.reduce(
+    (sum, w) => ({
+      gross: sum.gross + w.amount,
+      tds: sum.tds + w.tdsAmount,
+      adminCharge: sum.adminCharge + w.adminCharge,
+      net: sum.net + w.netAmount,
+    }),
+    { gross: 0, tds: 0, adminCharge: 0, net: 0 }
+  );
+
+  const lines = [
+    ["Deduction Statement", `FY ${financialYear}`],
+    ["Name", client.name || ""],
+    ["Username", client.username],
+    ["PAN", client.pan || "Not provided"],
+    [],
+    ["Approved On", "Withdrawal ID", "Status", "Currency", "Gross", "TDS Rate (%)", "TDS", "Admin Charge", "Net Paid"],
+    ...withdrawals.map(w => [
+      toIst(w.approvedAt!).toISOString().slice(0, 10),
+      w.id,
+      w.status,
+      w.currency,
+      money(w.amount),
+      (w.tdsRate / 100).toFixed(2),
+      money(w.tdsAmount),
+      money(w.adminCharge),
+      money(w.netAmount),
+    ]),
+    ["Total", "", "", "", money(totals.gross), "", money(totals.tds), money(totals.adminCharge), money(totals.net)],
+  ];
+  return lines.map(line => line.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,111 @@
+import {
+  deletionPolicies,
+  type ClientHistory,
+  type DeletionImpact,
+  type DeletionPlan,
+  type DeletionPolicy,
+  type TreeMove,
+  type User,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { findPlacement, type TreePosition } from "./placement";
+
+export function hasMoneyHistory(history: ClientHistory): boolean {
+  return Object.values(history).some(count => count > 0);
+}
+
+function displayName(user: User): string {
+  return user.name || user.username;
+}
+
+// Left child first so promotion is predictable
+async function childrenOf(storage: IStorage, client: User): Promise<User[]> {
+  const children = await storage.getClientsByParent(client.id);
+  return children.sort((a, b) => (a.position === "left" ? -1 : 0) - (b.position === "left" ? -1 : 0));
+}
+
+// The first child takes the vacated slot; a sibling hangs off the far end of
+// the promoted child's subtree on its own side
+async function promoteChildMoves(storage: IStorage, client: User, children: User[]): Promise<TreeMove[]> {
+  const [promoted, sibling] = children;
+  const moves: TreeMove[] = [{
+    userId: promoted.id,
+    parentId: client.parentId,
+    position: client.position as TreePosition | null,
+  }];
+  if (sibling) {
+    const side = (sibling.position || "right") as TreePosition;
+    const placement = await findPlacement(storage, promoted.id, side === "left" ? "extreme_left" : "extreme_right");
+    moves.push({ userId: sibling.id, ...placement });
+  }
+  return moves;
+}
+
+// Children move up to the grandparent, keeping their side where it is free
+async function reattachMoves(storage: IStorage, client: User, children: User[]): Promise<TreeMove[] | string> {
+  if (!client.parentId) {
+    return `${displayName(client)} has no parent to re-attach children to`;
+  }
+  const free = (await storage.getAvailablePositions(client.parentId)).concat(client.position as TreePosition);
+  if (children.length > free.length) {
+    return `The grandparent has ${free.length} free slot(s) for ${children.length} children; promote a child instead`;
+  }
+  const moves: TreeMove[] = [];
+  for (const child of children) {
+    const position = free.includes(child.position as TreePosition) ? child.position as TreePosition : free[0];
+    free.splice(free.indexOf(position), 1);
+    moves.push({ userId: child.id, parentId: client.parentId, position });
+  }
+  return moves;
+}
+
+// Work out what a policy would do to the tree without changing anything
+export async function planClientDeletion(storage: IStorage, client: User, policy: DeletionPolicy): Promise<DeletionPlan> {
+  if (policy === "deactivate") {
+    return { policy, allowed: true, reason: null, removal: "deactivate", moves: [] };
+  }
+
+  const children = await childrenOf(storage, client);
+  const removal = hasMoneyHistory(await storage.getClientHistory(client.id)) ? "detach" : "delete";
+  const blocked = (reason: string): DeletionPlan => ({ policy, allowed: false, reason, removal, moves: [] });
+
+  if (policy === "block") {
+    if (children.length > 0) {
+      return blocked(`${displayName(client)} has ${children.length} downline member(s)`);
+    }
+    if (removal === "detach") {
+      return blocked(`${displayName(client)} has earnings, withdrawals, payments or audit history on record`);
+    }
+    return { policy, allowed: true, reason: null, removal, moves: [] };
+  }
+
+  if (children.length === 0) {
+    return { policy, allowed: true, reason: null, removal, moves: [] };
+  }
+  const moves = policy === "promote_child"
+    ? await promoteChildMoves(storage, client, children)
+    : await reattachMoves(storage, client, children);
+  if (typeof moves === "string") {
+    return blocked(moves);
+  }
+  return { policy, allowed: true, reason: null, removal, moves };
+}
+
+export async function getDeletionImpact(storage: IStorage, client: User): Promise<DeletionImpact> {
+  const children = await childrenOf(storage, client);
+  return {
+    clientId: client.id,
+    children: children.map(({ id, name, username, position }) => ({ id, name, username, position })),
+    downlineSize: (await storage.getSubtreeStats(client.id)).size,
+    referrals: (await storage.getClientsBySponsor(client.id)).length,
+    history: await storage.getClientHistory(client.id),
+    plans: await Promise.all(deletionPolicies.map(policy => planClientDeletion(storage, client, policy))),
+  };
+}
+
+export function assertDeletionAllowed(plan: DeletionPlan): DeletionPlan {
+  if (!plan.allowed) {
+    throw new Error(plan.reason || "This deletion policy cannot be used");
+  }
+  return plan;
+}
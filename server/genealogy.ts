@@ -0,0 +1,82 @@
+import type { BinaryVolume, GenealogyNode, SubtreeStats, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Downline members counted per leg of the root, with the deepest level reached
+export interface LegSummary {
+  leg: string | null;
+  count: number;
+  depth: number;
+}
+
+// Downline size under each leg of a member
+export interface LegCounts {
+  left: number;
+  right: number;
+}
+
+export function buildSubtreeStats(clientId: string, legs: LegSummary[], volume: BinaryVolume | null): SubtreeStats {
+  const legStats = (leg: "left" | "right") => ({
+    count: legs.find(summary => summary.leg === leg)?.count || 0,
+    bv: (leg === "left" ? volume?.leftBv : volume?.rightBv) || 0,
+  });
+  return {
+    clientId,
+    size: legs.reduce((sum, summary) => sum + summary.count, 0),
+    depth: legs.reduce((max, summary) => Math.max(max, summary.depth), 0),
+    left: legStats("left"),
+    right: legStats("right"),
+  };
+}
+
+// Build the placement tree from root down to maxDepth levels below it. Leg
+// counts cover the whole downline so collapsed branches still show their size.
+export async function buildGenealogy(storage: IStorage, root: User, maxDepth: number): Promise<GenealogyNode> {
+  const window = await storage.getDownlineWindow(root.id, maxDepth);
+  const members = [root, ...window];
+  const counts = await storage.getLegCounts(members.map(member => member.id));
+
+  const childrenOf = new Map<string, User[]>();
+  for (const member of window) {
+    childrenOf.set(member.parentId!, (childrenOf.get(member.parentId!) || []).concat(member));
+  }
+
+  const build = (member: User, depth: number): GenealogyNode => {
+    const { password: _, ...user } = member;
+    const legCounts = counts.get(member.id) || { left: 0, right: 0 };
+    const children = childrenOf.get(member.id) || [];
+    const child = (position: "left" | "right") => {
+      const found = children.find(c => c.position === position);
+      return found ? build(found, depth + 1) : null;
+    };
+    return {
+      user,
+      depth,
+      leftCount: legCounts.left,
+      rightCount: legCounts.right,
+      hasLeft: legCounts.left > 0,
+      hasRight: legCounts.right > 0,
+      left: child("left"),
+      right: child("right"),
+    };
+  };
+
+  return build(root, 0);
+}
+
+// Placement chain from root down to the member with this username, so the
+// tree view can load each branch on the way and reveal them. Null when the
+// member is not below root.
+export async function findGenealogyPath(storage: IStorage, rootId: string, username: string): Promise<string[] | null> {
+  const target = await storage.getUserByUsername(username);
+  if (!target) return null;
+
+  const path = [target.id];
+  let current: User | null = target;
+  while (current.id !== rootId) {
+    if (!current.parentId || path.includes(current.parentId)) return null;
+    current = await storage.getUserById(current.parentId);
+    if (!current) return null;
+    path.unshift(current.id);
+  }
+  return path;
+}
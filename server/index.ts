@@ -1,26 +1,36 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
-import MemoryStore from "memorystore";
 import { registerRoutes } from "./routes";
+import { createSessionStore, SESSION_MAX_AGE_MS } from "./sessions";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer; // Unparsed JSON body, for verifying webhook signatures
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
+// Behind one reverse proxy, so req.ip is the browser's address in the session list
+app.set("trust proxy", 1);
+
 // Configure session middleware
-const MemStore = MemoryStore(session);
 app.use(session({
   secret: process.env.SESSION_SECRET || 'fallback-secret-key',
   resave: false,
   saveUninitialized: false,
-  store: new MemStore({
-    checkPeriod: 86400000 // prune expired entries every 24h
-  }),
+  store: createSessionStore(),
   cookie: {
     secure: false, // set to true in production with HTTPS
     httpOnly: true,
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
+    maxAge: SESSION_MAX_AGE_MS // 24 hours
   }
 }));
 
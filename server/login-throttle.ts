@@ -0,0 +1,109 @@
+import type { Request } from "express";
+import type { LockoutStatus, LoginHistoryEntry, LoginOutcome, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { describeDevice } from "./sessions";
+
+// Failures are tracked per username and per IP. After the free attempts each
+// further failure doubles the wait (1s, 2s, 4s, ...) up to MAX_BACKOFF_MS, and
+// reaching the lock threshold blocks the key for LOCKOUT_MS. An IP gets more
+// room because offices and mobile carriers share addresses.
+const LIMITS = {
+  user: { freeAttempts: 3, lockAfter: 10 },
+  ip: { freeAttempts: 10, lockAfter: 50 },
+};
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// A key with no failures for this long starts counting from zero again
+const RESET_AFTER_MS = 60 * 60 * 1000;
+
+const LOGIN_HISTORY_LIMIT = 50;
+
+type ThrottleKind = keyof typeof LIMITS;
+
+function throttleKey(kind: ThrottleKind, value: string): string {
+  return `${kind}:${value}`;
+}
+
+function requestKeys(req: Request, username: string): string[] {
+  const keys = [throttleKey("user", username)];
+  if (req.ip) keys.push(throttleKey("ip", req.ip));
+  return keys;
+}
+
+// How long to block a key after its nth failure
+export function backoffFor(kind: ThrottleKind, failures: number): number {
+  const { freeAttempts, lockAfter } = LIMITS[kind];
+  if (failures >= lockAfter) return LOCKOUT_MS;
+  if (failures <= freeAttempts) return 0;
+  return Math.min(BASE_BACKOFF_MS * 2 ** (failures - freeAttempts - 1), MAX_BACKOFF_MS);
+}
+
+// When this username or address may try again, or null if it may now
+export async function loginBlockedUntil(storage: IStorage, req: Request, username: string, now = Date.now()): Promise<Date | null> {
+  const throttles = await storage.getLoginThrottles(requestKeys(req, username));
+  const until = Math.max(0, ...throttles.map(throttle => throttle.blockedUntil?.getTime() ?? 0));
+  return until > now ? new Date(until) : null;
+}
+
+export async function recordLoginEvent(storage: IStorage, req: Request, user: User, outcome: LoginOutcome): Promise<void> {
+  await storage.createLoginEvent({
+    userId: user.id,
+    outcome,
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+  });
+}
+
+// Count a wrong password or code against both the username and the address.
+// user is undefined when the username does not exist; it is throttled all the same
+// so responses do not reveal which accounts exist.
+export async function recordLoginFailure(
+  storage: IStorage,
+  req: Request,
+  username: string,
+  user: User | undefined,
+  outcome: LoginOutcome
+): Promise<void> {
+  const now = Date.now();
+  const resetBefore = new Date(now - RESET_AFTER_MS);
+  for (const key of requestKeys(req, username)) {
+    const throttle = await storage.incrementLoginFailures(key, resetBefore);
+    const delay = backoffFor(key.startsWith("ip:") ? "ip" : "user", throttle.failures);
+    if (delay > 0) {
+      await storage.blockLogin(key, new Date(now + delay));
+    }
+  }
+  if (user) {
+    await recordLoginEvent(storage, req, user, outcome);
+  }
+}
+
+// A completed sign-in clears the account's failures. The address keeps its
+// count, so one working account cannot be used to reset guessing on others.
+export async function recordLoginSuccess(storage: IStorage, req: Request, user: User): Promise<void> {
+  await storage.deleteLoginThrottle(throttleKey("user", user.username));
+  await recordLoginEvent(storage, req, user, "success");
+}
+
+export async function getLockoutStatus(storage: IStorage, user: User): Promise<LockoutStatus> {
+  const [throttle] = await storage.getLoginThrottles([throttleKey("user", user.username)]);
+  const blockedUntil = throttle?.blockedUntil && throttle.blockedUntil.getTime() > Date.now() ? throttle.blockedUntil : null;
+  return { failures: throttle?.failures ?? 0, blockedUntil };
+}
+
+// Admin override: forget the account's failures and lift any block
+export async function unlockAccount(storage: IStorage, user: User): Promise<void> {
+  await storage.deleteLoginThrottle(throttleKey("user", user.username));
+}
+
+export async function getLoginHistory(storage: IStorage, userId: string): Promise<LoginHistoryEntry[]> {
+  const events = await storage.getLoginEvents(userId, LOGIN_HISTORY_LIMIT);
+  return events.map(event => ({
+    id: event.id,
+    outcome: event.outcome as LoginOutcome,
+    device: describeDevice(event.userAgent),
+    ipAddress: event.ipAddress,
+    createdAt: event.createdAt,
+  }));
+}
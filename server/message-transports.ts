@@ -0,0 +1,116 @@
+import { appendFile } from "fs/promises";
+
+export interface MessageRecipient {
+  email: string | null;
+  mobile: string | null;
+}
+
+export interface OutgoingMessage {
+  subject: string; // Email only
+  text: string;
+}
+
+// Delivers account messages such as one-time codes. Each transport reaches
+// the user through whichever contact detail it needs and throws without it.
+export interface MessageTransport {
+  readonly name: string;
+  send(to: MessageRecipient, message: OutgoingMessage): Promise<void>;
+}
+
+// Development and tests: messages are printed, and appended as JSON lines to
+// MESSAGE_OUTBOX_FILE when it is set
+export class LocalMessageTransport implements MessageTransport {
+  readonly name = "local";
+
+  constructor(private outboxFile: string | undefined = process.env.MESSAGE_OUTBOX_FILE) {}
+
+  async send(to: MessageRecipient, message: OutgoingMessage): Promise<void> {
+    const address = to.email || to.mobile || "unknown recipient";
+    console.log(`[message to ${address}] ${message.subject}: ${message.text}`);
+    if (this.outboxFile) {
+      await appendFile(this.outboxFile, JSON.stringify({ to, ...message, sentAt: new Date().toISOString() }) + "\n");
+    }
+  }
+}
+
+// Email through SendGrid's v3 mail send API
+export class SendGridEmailTransport implements MessageTransport {
+  readonly name = "sendgrid";
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(to: MessageRecipient, message: OutgoingMessage): Promise<void> {
+    if (!to.email) {
+      throw new Error("Recipient has no email address");
+    }
+    const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${this.apiKey}` },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: to.email }] }],
+        from: { email: this.from },
+        subject: message.subject,
+        content: [{ type: "text/plain", value: message.text }],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Email provider rejected the message (${response.status})`);
+    }
+  }
+}
+
+// SMS through Twilio's Messages API. Stored mobiles are 10-digit national
+// numbers, so the country code is added in front.
+export class TwilioSmsTransport implements MessageTransport {
+  readonly name = "twilio";
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string,
+    private countryCode: string = "+91"
+  ) {}
+
+  async send(to: MessageRecipient, message: OutgoingMessage): Promise<void> {
+    if (!to.mobile) {
+      throw new Error("Recipient has no mobile number");
+    }
+    const number = to.mobile.startsWith("+") ? to.mobile : `${this.countryCode}${to.mobile}`;
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+      },
+      body: new URLSearchParams({ To: number, From: this.from, Body: message.text }),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS provider rejected the message (${response.status})`);
+    }
+  }
+}
+
+// The active transport is chosen with MESSAGE_TRANSPORT; local is the default
+// outside production
+export function getMessageTransport(): MessageTransport {
+  const transport = process.env.MESSAGE_TRANSPORT;
+  if (transport === "sendgrid") {
+    const { SENDGRID_API_KEY, MESSAGE_FROM_EMAIL } = process.env;
+    if (!SENDGRID_API_KEY || !MESSAGE_FROM_EMAIL) {
+      throw new Error("SENDGRID_API_KEY and MESSAGE_FROM_EMAIL are required for SendGrid");
+    }
+    return new SendGridEmailTransport(SENDGRID_API_KEY, MESSAGE_FROM_EMAIL);
+  }
+  if (transport === "twilio") {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER, SMS_COUNTRY_CODE } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+      throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER are required for Twilio");
+    }
+    return new TwilioSmsTransport(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER, SMS_COUNTRY_CODE || undefined);
+  }
+  // Codes would only reach the server log, so production has to choose explicitly
+  if (!transport && process.env.NODE_ENV === "production") {
+    throw new Error("MESSAGE_TRANSPORT is required in production");
+  }
+  return new LocalMessageTransport();
+}
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { getPairingConfig, matchPairs } from "./pairing";
+
+test("simultaneous joins share one upline volume and stay within the pair caps", async () => {
+  const storage = new MemStorage();
+  const plan = (await storage.getAllPlans()).find(p => p.name === "Silver")!;
+  const admin = await storage.createUser({ username: "admin", password: "admin-password", role: "admin" });
+  const member = (username: string) => ({
+    name: `Member ${username}`,
+    username,
+    mobile: "9876543210",
+    email: `${username}@example.com`,
+    planId: plan.id,
+  });
+  const sponsor = await storage.createClient({ ...member("sponsor"), password: "secret1" }, admin.id);
+
+  const joined = await Promise.all(
+    Array.from({ length: 10 }, (_, i) => storage.createClientWithPayment({ ...member(`member${i}`), passwordHash: "hash", sponsorId: sponsor.id }, admin.id))
+  );
+
+  const bv = parseInt(plan.businessVolume, 10);
+  const legSize = (position: "left" | "right") => {
+    const top = joined.find(user => user.parentId === sponsor.id && user.position === position);
+    const below = (id: string): number => 1 + joined.filter(user => user.parentId === id).reduce((sum, user) => sum + below(user.id), 0);
+    return top ? below(top.id) : 0;
+  };
+  const volume = (await storage.getBinaryVolume(sponsor.id))!;
+  assert.equal(volume.leftBv, legSize("left") * bv);
+  assert.equal(volume.rightBv, legSize("right") * bv);
+
+  // Every matched pair is either paid within the daily cap or flushed
+  const { pairs } = matchPairs(volume.leftBv, volume.rightBv, getPairingConfig());
+  assert.equal(volume.totalPairs, Math.min(pairs, plan.dailyPairCap!));
+  assert.equal(volume.totalPairs + volume.flushedPairs, pairs);
+  assert.equal(volume.pairsOnDate, volume.totalPairs);
+
+  const treeEarnings = (await storage.getEarningsByClient(sponsor.id)).filter(earning => earning.type === "tree");
+  assert.equal(treeEarnings.reduce((sum, earning) => sum + earning.amount, 0), volume.totalPairs * plan.treeCommission);
+});
@@ -0,0 +1,177 @@
+import type { User, BinaryVolume, Plan } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type PairRatio = "1:1" | "2:1";
+
+export interface PairingConfig {
+  ratio: PairRatio;
+  pairUnitBv: number; // BV needed on a leg for one side of a pair
+}
+
+export type FlushReason = "daily_cap" | "monthly_cap";
+
+export interface PairingResult {
+  clientId: string;
+  paidPairs: number;
+  flushedPairs: number;
+}
+
+export function getPairingConfig(): PairingConfig {
+  const ratio = process.env.PAIR_RATIO === "2:1" ? "2:1" : "1:1";
+  const pairUnitBv = parseInt(process.env.PAIR_UNIT_BV || "100", 10);
+  return {
+    ratio,
+    pairUnitBv: isNaN(pairUnitBv) || pairUnitBv <= 0 ? 100 : pairUnitBv,
+  };
+}
+
+export function emptyBinaryVolume(clientId: string): BinaryVolume {
+  return {
+    clientId,
+    leftBv: 0,
+    rightBv: 0,
+    leftCarry: 0,
+    rightCarry: 0,
+    totalPairs: 0,
+    flushedPairs: 0,
+    pairsOnDate: 0,
+    pairDate: null,
+    pairsInMonth: 0,
+    pairMonth: null,
+    updatedAt: new Date(),
+  };
+}
+
+// Match as many pairs as the carried volume allows. With a 2:1 ratio the
+// stronger leg gives two units for every unit taken from the weaker leg.
+export function matchPairs(left: number, right: number, config: PairingConfig) {
+  const unit = config.pairUnitBv;
+  const [major, minor] = config.ratio === "2:1" ? [2, 1] : [1, 1];
+  let pairs = 0;
+
+  while (true) {
+    if (left >= right && left >= major * unit && right >= minor * unit) {
+      left -= major * unit;
+      right -= minor * unit;
+    } else if (right > left && right >= major * unit && left >= minor * unit) {
+      right -= major * unit;
+      left -= minor * unit;
+    } else {
+      break;
+    }
+    pairs++;
+  }
+
+  return { pairs, left, right };
+}
+
+export function pairingDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function pairingMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+// Split newly matched pairs into paid and flushed under the earner's plan
+// caps. The volume's day and month counters must already be current.
+export function applyPairCaps(
+  volume: Pick<BinaryVolume, "pairsOnDate" | "pairsInMonth">,
+  matchedPairs: number,
+  plan: Pick<Plan, "dailyPairCap" | "monthlyPairCap"> | null
+): { paidPairs: number; flushedPairs: number; reason: FlushReason | null; cap: number } {
+  const dailyCap = plan?.dailyPairCap || 0;
+  const monthlyCap = plan?.monthlyPairCap || 0;
+  const dailyRemaining = dailyCap > 0 ? Math.max(dailyCap - volume.pairsOnDate, 0) : Infinity;
+  const monthlyRemaining = monthlyCap > 0 ? Math.max(monthlyCap - volume.pairsInMonth, 0) : Infinity;
+
+  const paidPairs = Math.min(matchedPairs, dailyRemaining, monthlyRemaining);
+  const flushedPairs = matchedPairs - paidPairs;
+  if (flushedPairs === 0) {
+    return { paidPairs, flushedPairs, reason: null, cap: 0 };
+  }
+  return monthlyRemaining < dailyRemaining
+    ? { paidPairs, flushedPairs, reason: "monthly_cap", cap: monthlyCap }
+    : { paidPairs, flushedPairs, reason: "daily_cap", cap: dailyCap };
+}
+
+// Add the joining client's BV to every upline node on the leg it came from,
+// then match pairs at each node. Pairs beyond the earner's daily or monthly
+// plan cap are flushed and recorded; the unmatched surplus is carried forward.
+// Runs inside the join, which holds each upline volume row until it commits,
+// so concurrent joins see each other's volume and cap counters.
+export async function addBusinessVolume(
+  storage: IStorage,
+  joiner: User,
+  bv: number,
+  config: PairingConfig = getPairingConfig(),
+  now: Date = new Date()
+): Promise<PairingResult[]> {
+  const results: PairingResult[] = [];
+  if (bv <= 0) return results;
+
+  const today = pairingDate(now);
+  const thisMonth = pairingMonth(now);
+  const visited = new Set<string>([joiner.id]);
+  let child = joiner;
+
+  while (child.parentId && !visited.has(child.parentId)) {
+    visited.add(child.parentId);
+    const ancestor = await storage.getUserById(child.parentId);
+    if (!ancestor || ancestor.role !== "client") break;
+
+    if (child.position === "left" || child.position === "right") {
+      const volume = await storage.getBinaryVolumeForUpdate(ancestor.id);
+      if (child.position === "left") {
+        volume.leftBv += bv;
+        volume.leftCarry += bv;
+      } else {
+        volume.rightBv += bv;
+        volume.rightCarry += bv;
+      }
+
+      const matched = matchPairs(volume.leftCarry, volume.rightCarry, config);
+      volume.leftCarry = matched.left;
+      volume.rightCarry = matched.right;
+
+      if (volume.pairDate !== today) {
+        volume.pairDate = today;
+        volume.pairsOnDate = 0;
+      }
+      if (volume.pairMonth !== thisMonth) {
+        volume.pairMonth = thisMonth;
+        volume.pairsInMonth = 0;
+      }
+      const plan = ancestor.planId ? await storage.getPlanById(ancestor.planId) : null;
+      const { paidPairs, flushedPairs, reason, cap } = applyPairCaps(volume, matched.pairs, plan);
+
+      volume.pairsOnDate += paidPairs;
+      volume.pairsInMonth += paidPairs;
+      volume.totalPairs += paidPairs;
+      volume.flushedPairs += flushedPairs;
+      volume.updatedAt = now;
+      await storage.saveBinaryVolume(volume);
+
+      if (reason) {
+        await storage.recordPairFlush({
+          clientId: ancestor.id,
+          fromClientId: joiner.id,
+          pairs: flushedPairs,
+          reason,
+          cap,
+          forgoneAmount: flushedPairs * (plan?.treeCommission || 0),
+          currency: plan?.currency,
+          pairDate: today,
+        });
+      }
+
+      if (matched.pairs > 0) {
+        results.push({ clientId: ancestor.id, paidPairs, flushedPairs });
+      }
+    }
+
+    child = ancestor;
+  }
+
+  return results;
+}
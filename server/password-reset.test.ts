@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import type { Request } from "express";
+import { MemStorage } from "./storage";
+import { confirmPasswordReset } from "./password-reset";
+
+const NOW = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+async function userWithCode(code: string) {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: "client", password: "secret1", role: "client" });
+  const token = await storage.replacePasswordResetToken({
+    userId: user.id,
+    codeHash: createHash("sha256").update(code).digest("hex"),
+    expiresAt: new Date(NOW + 10 * 60 * 1000),
+  });
+  return { storage, user, token };
+}
+
+// Each guess comes from its own address so only the per-code cap applies
+const fromIp = (ip: string) => ({ ip }) as Request;
+
+test("concurrent guesses share the five-guess cap on a reset code", async () => {
+  const { storage, user, token } = await userWithCode("123456");
+
+  const guesses = ["000001", "000002", "000003", "000004", "000005", "000006", "123456"];
+  const results = await Promise.all(guesses.map((code, i) => confirmPasswordReset(
+    storage,
+    fromIp(`10.0.0.${i + 1}`),
+    { username: "client", code, newPassword: "new-secret", confirmPassword: "new-secret" },
+    NOW
+  )));
+
+  assert.deepEqual(results.map(result => result.status), guesses.map(() => "invalid"));
+  assert.equal(await storage.getPasswordResetToken(user.id), null);
+  assert.equal(await storage.markPasswordResetTokenUsed(token.id, 5), false);
+});
+
+test("the code works within the cap and only once", async () => {
+  const { storage, user } = await userWithCode("123456");
+  const attempt = (code: string) => confirmPasswordReset(
+    storage,
+    { ip: "10.0.0.1", sessionStore: { destroy: (_sid: string, done: () => void) => done() } } as unknown as Request,
+    { username: "client", code, newPassword: "new-secret", confirmPassword: "new-secret" },
+    NOW
+  );
+
+  assert.equal((await attempt("000001")).status, "invalid");
+  assert.equal((await attempt("123456")).status, "reset");
+  assert.equal((await attempt("123456")).status, "invalid");
+  assert.ok(await storage.validateUser(user.username, "new-secret", "client"));
+});
@@ -0,0 +1,155 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+import { strongPasswordSchema, type ConfirmPasswordResetRequest, type User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getMessageTransport } from "./message-transports";
+import { unlockAccount } from "./login-throttle";
+import { revokeSessions } from "./sessions";
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+// Wrong codes allowed before the code is thrown away and a new one is needed
+const MAX_CODE_ATTEMPTS = 5;
+
+// Requests per username and per IP within the window. Wrong codes count
+// against the IP as well, so guessing across accounts is slowed down too.
+const REQUEST_LIMITS = { user: 3, ip: 10 };
+const REQUEST_WINDOW_MS = 15 * 60 * 1000;
+
+type ResetKind = keyof typeof REQUEST_LIMITS;
+
+function resetKey(kind: ResetKind, value: string): string {
+  return `reset:${kind}:${value}`;
+}
+
+function hashCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+function codeMatches(code: string, codeHash: string): boolean {
+  const given = Buffer.from(hashCode(code));
+  const expected = Buffer.from(codeHash);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Count one attempt against each key, blocking those that reach their limit.
+// Attempts are counted before they are acted on, so a burst of concurrent
+// requests cannot all get in under the limit. Returns when the caller may try
+// again if this attempt was itself over the limit.
+async function countResetAttempt(storage: IStorage, keys: [ResetKind, string][], now: number): Promise<Date | null> {
+  let overLimit = false;
+  for (const [kind, value] of keys) {
+    const throttle = await storage.incrementLoginFailures(resetKey(kind, value), new Date(now - REQUEST_WINDOW_MS));
+    if (throttle.failures >= REQUEST_LIMITS[kind]) {
+      await storage.blockLogin(resetKey(kind, value), new Date(now + REQUEST_WINDOW_MS));
+    }
+    overLimit = overLimit || throttle.failures > REQUEST_LIMITS[kind];
+  }
+  return overLimit ? new Date(now + REQUEST_WINDOW_MS) : null;
+}
+
+async function resetBlockedUntil(storage: IStorage, keys: [ResetKind, string][], now: number): Promise<Date | null> {
+  const throttles = await storage.getLoginThrottles(keys.map(([kind, value]) => resetKey(kind, value)));
+  const until = Math.max(0, ...throttles.map(throttle => throttle.blockedUntil?.getTime() ?? 0));
+  return until > now ? new Date(until) : null;
+}
+
+function requestKeys(req: Request, username?: string): [ResetKind, string][] {
+  const keys: [ResetKind, string][] = [];
+  if (username) keys.push(["user", username]);
+  if (req.ip) keys.push(["ip", req.ip]);
+  return keys;
+}
+
+async function findResettableUser(storage: IStorage, username: string): Promise<User | undefined> {
+  const user = await storage.getUserByUsername(username);
+  return user && user.status === "active" ? user : undefined;
+}
+
+// Sends a fresh code to the account's email or mobile. Unknown usernames are
+// throttled and answered the same way, so the response does not reveal which
+// accounts exist; delivery problems are only logged for the same reason.
+// Returns when the caller may try again if this request was over the limit.
+export async function requestPasswordReset(storage: IStorage, req: Request, username: string, now = Date.now()): Promise<Date | null> {
+  const keys = requestKeys(req, username);
+  const blockedUntil = (await resetBlockedUntil(storage, keys, now)) || (await countResetAttempt(storage, keys, now));
+  if (blockedUntil) return blockedUntil;
+
+  const user = await findResettableUser(storage, username);
+  if (!user) return null;
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  await storage.replacePasswordResetToken({
+    userId: user.id,
+    codeHash: hashCode(code),
+    expiresAt: new Date(now + CODE_TTL_MS),
+  });
+
+  try {
+    const { companyName } = await storage.getAppSettings();
+    const minutes = CODE_TTL_MS / 60000;
+    await getMessageTransport().send(
+      { email: user.email, mobile: user.mobile },
+      {
+        subject: `${companyName || "Your account"} password reset code`,
+        text: `Your password reset code is ${code}. It expires in ${minutes} minutes. If you did not ask to reset your password, ignore this message.`,
+      }
+    );
+  } catch (error) {
+    console.error(`Could not deliver password reset code for ${user.username}:`, error);
+  }
+  return null;
+}
+
+export type PasswordResetResult =
+  | { status: "reset" }
+  | { status: "invalid" }
+  | { status: "blocked"; blockedUntil: Date };
+
+// Checks the code and sets the new password. Every attempt counts against the
+// IP and the code before the code is compared. Every session of the account
+// is signed out, and the account's sign-in lockout is lifted.
+export async function confirmPasswordReset(
+  storage: IStorage,
+  req: Request,
+  data: ConfirmPasswordResetRequest,
+  now = Date.now()
+): Promise<PasswordResetResult> {
+  const ipKeys = requestKeys(req);
+  const blockedUntil = (await resetBlockedUntil(storage, ipKeys, now)) || (await countResetAttempt(storage, ipKeys, now));
+  if (blockedUntil) return { status: "blocked", blockedUntil };
+
+  const user = await findResettableUser(storage, data.username);
+  const token = user ? await storage.getPasswordResetToken(user.id) : null;
+  if (!user || !token || token.usedAt || token.expiresAt.getTime() <= now) {
+    return { status: "invalid" };
+  }
+
+  const attempts = await storage.claimPasswordResetAttempt(token.id, MAX_CODE_ATTEMPTS);
+  if (attempts === null) {
+    return { status: "invalid" };
+  }
+  if (!codeMatches(data.code, token.codeHash)) {
+    if (attempts >= MAX_CODE_ATTEMPTS) {
+      await storage.deletePasswordResetTokens(user.id);
+    }
+    return { status: "invalid" };
+  }
+
+  // Admin accounts keep the stronger password policy
+  if (user.role === "admin") {
+    const strength = strongPasswordSchema.safeParse(data.newPassword);
+    if (!strength.success) {
+      throw new Error(strength.error.errors[0].message);
+    }
+  }
+
+  // Two requests racing with the same code: only one gets to use it
+  if (!(await storage.markPasswordResetTokenUsed(token.id, MAX_CODE_ATTEMPTS))) {
+    return { status: "invalid" };
+  }
+  await storage.resetUserPassword(user.id, data.newPassword);
+  await storage.deletePasswordResetTokens(user.id);
+  await unlockAccount(storage, user);
+  await revokeSessions(storage, req.sessionStore, await storage.getUserSessions(user.id));
+  return { status: "reset" };
+}
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { MockPaymentProvider } from "./payment-providers";
+import { createClientPaymentIntent, processPaymentWebhook } from "./payment-intents";
+
+async function paidIntent() {
+  const storage = new MemStorage();
+  const provider = new MockPaymentProvider("test-webhook-secret");
+  const [plan] = await storage.getAllPlans();
+  const admin = await storage.createUser({ username: "admin", password: "admin-password", role: "admin" });
+  const { intent } = await createClientPaymentIntent(storage, provider, {
+    name: "New Member",
+    username: "newmember",
+    password: "secret1",
+    mobile: "9876543210",
+    email: "newmember@example.com",
+    planId: plan.id,
+  }, admin.id);
+  const deliver = () => {
+    const { rawBody, headers } = provider.signWebhook(intent.providerOrderId, "success");
+    return processPaymentWebhook(storage, provider, rawBody, headers);
+  };
+  return { storage, intent, deliver };
+}
+
+test("a redelivered webhook retries a client creation that failed", async () => {
+  const { storage, intent, deliver } = await paidIntent();
+  const createClientWithPayment = storage.createClientWithPayment.bind(storage);
+  storage.createClientWithPayment = async () => { throw new Error("connection reset"); };
+
+  const first = await deliver();
+  assert.equal(first.result, "retry");
+  assert.equal((await storage.getPaymentIntent(intent.id))!.status, "paid");
+  assert.equal(await storage.getUserByUsername("newmember"), undefined);
+
+  storage.createClientWithPayment = createClientWithPayment;
+  const second = await deliver();
+  assert.equal(second.result, "processed");
+  const client = await storage.getUserByUsername("newmember");
+  assert.ok(client);
+  const settled = (await storage.getPaymentIntent(intent.id))!;
+  assert.equal(settled.clientId, client.id);
+  assert.equal(settled.failureReason, null);
+
+  // Later deliveries change nothing
+  assert.equal((await deliver()).result, "processed");
+  assert.equal((await storage.getAllClients()).filter(user => user.username === "newmember").length, 1);
+});
+
+test("a redelivery links a client created just before a crash", async () => {
+  const { storage, intent, deliver } = await paidIntent();
+  const updatePaymentIntentResult = storage.updatePaymentIntentResult.bind(storage);
+  storage.updatePaymentIntentResult = async () => { throw new Error("process exited"); };
+  await assert.rejects(deliver(), /process exited/);
+  assert.equal((await storage.getPaymentIntent(intent.id))!.clientId, null);
+
+  storage.updatePaymentIntentResult = updatePaymentIntentResult;
+  assert.equal((await deliver()).result, "processed");
+  const client = await storage.getUserByUsername("newmember");
+  assert.equal((await storage.getPaymentIntent(intent.id))!.clientId, client!.id);
+});
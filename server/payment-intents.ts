@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import bcrypt from "bcrypt";
+import type { CreateClientRequest, PaidClientRequest, PaymentIntent } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { assertPurchasablePlan } from "./plans";
+import { placeNewMember } from "./placement";
+import type { PaymentOrder, PaymentProvider } from "./payment-providers";
+
+export type PublicPaymentIntent = Omit<PaymentIntent, "clientData" | "passwordHash">;
+
+export function toPublicPaymentIntent(intent: PaymentIntent): PublicPaymentIntent {
+  const { clientData: _, passwordHash: __, ...publicIntent } = intent;
+  return publicIntent;
+}
+
+// Validate the pending client and open a provider order for its plan price.
+// Nothing is created in the tree until the payment is confirmed by webhook.
+export async function createClientPaymentIntent(
+  storage: IStorage,
+  provider: PaymentProvider,
+  clientData: CreateClientRequest,
+  adminId: string
+): Promise<{ intent: PaymentIntent; order: PaymentOrder }> {
+  if (await storage.getUserByUsername(clientData.username)) {
+    throw new Error("Username already exists");
+  }
+
+  const plan = assertPurchasablePlan(await storage.getPlanById(clientData.planId));
+  // Surface placement problems before any money is taken
+  const { sponsorId } = await placeNewMember(storage, clientData, adminId);
+
+  const { password, ...pendingClient } = clientData;
+  const id = randomUUID();
+  const order = await provider.createOrder(plan.price, plan.currency, id);
+  const intent = await storage.createPaymentIntent({
+    id,
+    provider: provider.name,
+    providerOrderId: order.orderId,
+    amount: plan.price,
+    currency: plan.currency,
+    clientData: JSON.stringify({ ...pendingClient, sponsorId }),
+    passwordHash: await bcrypt.hash(password, 10),
+    createdBy: adminId,
+  });
+  return { intent, order };
+}
+
+export type WebhookOutcome =
+  | { result: "invalid_signature" }
+  | { result: "ignored" }
+  | { result: "not_found" }
+  | { result: "processed"; intent: PaymentIntent }
+  // The payment is recorded but the client could not be created yet; the
+  // provider should deliver the webhook again
+  | { result: "retry"; intent: PaymentIntent };
+
+// Runs for every delivery of a paid intent that has no client yet, so a
+// failure or crash after settling is picked up by the next delivery
+async function createPaidClient(storage: IStorage, intent: PaymentIntent): Promise<WebhookOutcome> {
+  const pendingClient: PaidClientRequest = { ...JSON.parse(intent.clientData), passwordHash: intent.passwordHash };
+  const existing = await storage.getUserByUsername(pendingClient.username);
+  if (existing) {
+    // An earlier delivery created the client but did not get to link it
+    const clientId = existing.password === intent.passwordHash ? existing.id : null;
+    const updated = await storage.updatePaymentIntentResult(intent.id, clientId, clientId ? undefined : "Username was taken before the payment completed");
+    return { result: "processed", intent: updated || intent };
+  }
+
+  try {
+    const client = await storage.createClientWithPayment(pendingClient, intent.createdBy);
+    return { result: "processed", intent: await storage.updatePaymentIntentResult(intent.id, client.id) || intent };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Failed to create client";
+    const updated = await storage.updatePaymentIntentResult(intent.id, null, `Payment received but client creation failed: ${reason}`);
+    if (!updated) {
+      // A concurrent delivery created and linked the client first
+      return { result: "processed", intent: await storage.getPaymentIntent(intent.id) || intent };
+    }
+    return { result: "retry", intent: updated };
+  }
+}
+
+// Apply a provider webhook. The signature is checked against the raw body
+// before anything is trusted, and settling is idempotent; creating the paid
+// client is retried on redelivery until it succeeds.
+export async function processPaymentWebhook(
+  storage: IStorage,
+  provider: PaymentProvider,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders
+): Promise<WebhookOutcome> {
+  if (!provider.verifySignature(rawBody, headers)) {
+    return { result: "invalid_signature" };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    return { result: "ignored" };
+  }
+  const event = provider.parseWebhook(body);
+  if (!event) {
+    return { result: "ignored" };
+  }
+
+  const intent = await storage.getPaymentIntentByOrderId(provider.name, event.orderId);
+  if (!intent) {
+    return { result: "not_found" };
+  }
+
+  // Null when an earlier delivery already settled it
+  const settled = await storage.settlePaymentIntent(intent.id, event.status, event.paymentId, event.failureReason)
+    || await storage.getPaymentIntent(intent.id)
+    || intent;
+  if (settled.status === "paid" && !settled.clientId) {
+    return await createPaidClient(storage, settled);
+  }
+  return { result: "processed", intent: settled };
+}
@@ -0,0 +1,135 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+export interface PaymentOrder {
+  orderId: string;
+  checkout: Record<string, string | number>; // What the browser needs to open the provider's checkout
+}
+
+export interface PaymentEvent {
+  orderId: string;
+  paymentId: string | null;
+  status: "paid" | "failed";
+  failureReason?: string;
+}
+
+// A payment gateway. Orders are created server-side for the exact plan price;
+// the gateway then reports the outcome through a signed webhook.
+export interface PaymentProvider {
+  readonly name: string;
+  createOrder(amount: number, currency: string, receipt: string): Promise<PaymentOrder>;
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  // Null for webhook events that do not settle a payment
+  parseWebhook(body: any): PaymentEvent | null;
+}
+
+function hmacSha256(secret: string, payload: Buffer | string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function signaturesMatch(expected: string, received: string | string[] | undefined): boolean {
+  if (typeof received !== "string") return false;
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+// Offline provider for development: orders are local and the outcome is
+// simulated by posting a webhook signed with PAYMENT_WEBHOOK_SECRET. Anyone
+// holding the secret can mark payments paid, so only a local development or
+// test run may fall back to a built-in one.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  static readonly signatureHeader = "x-mock-signature";
+
+  constructor(private secret: string) {}
+
+  async createOrder(amount: number, currency: string, receipt: string): Promise<PaymentOrder> {
+    const orderId = `mock_order_${randomBytes(8).toString("hex")}`;
+    return { orderId, checkout: { provider: this.name, orderId, amount, currency, receipt } };
+  }
+
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+    return signaturesMatch(hmacSha256(this.secret, rawBody), headers[MockPaymentProvider.signatureHeader]);
+  }
+
+  parseWebhook(body: any): PaymentEvent | null {
+    if (!body || typeof body.orderId !== "string" || (body.status !== "paid" && body.status !== "failed")) {
+      return null;
+    }
+    return {
+      orderId: body.orderId,
+      paymentId: typeof body.paymentId === "string" ? body.paymentId : null,
+      status: body.status,
+      failureReason: typeof body.failureReason === "string" ? body.failureReason : undefined,
+    };
+  }
+
+  // Build the webhook the mock gateway would send for an order
+  signWebhook(orderId: string, outcome: "success" | "failure"): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const payload = outcome === "success"
+      ? { orderId, paymentId: `mock_pay_${randomBytes(8).toString("hex")}`, status: "paid" }
+      : { orderId, paymentId: null, status: "failed", failureReason: "Payment declined by mock provider" };
+    const rawBody = Buffer.from(JSON.stringify(payload));
+    return { rawBody, headers: { [MockPaymentProvider.signatureHeader]: hmacSha256(this.secret, rawBody) } };
+  }
+}
+
+// Razorpay Orders API with order.paid / payment.failed webhooks
+export class RazorpayPaymentProvider implements PaymentProvider {
+  readonly name = "razorpay";
+
+  constructor(
+    private keyId: string,
+    private keySecret: string,
+    private webhookSecret: string
+  ) {}
+
+  async createOrder(amount: number, currency: string, receipt: string): Promise<PaymentOrder> {
+    const response = await fetch("https://api.razorpay.com/v1/orders", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${Buffer.from(`${this.keyId}:${this.keySecret}`).toString("base64")}`,
+      },
+      body: JSON.stringify({ amount, currency, receipt }),
+    });
+    if (!response.ok) {
+      throw new Error(`Payment provider rejected the order (${response.status})`);
+    }
+    const order = await response.json();
+    return { orderId: order.id, checkout: { provider: this.name, keyId: this.keyId, orderId: order.id, amount, currency } };
+  }
+
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+    return signaturesMatch(hmacSha256(this.webhookSecret, rawBody), headers["x-razorpay-signature"]);
+  }
+
+  parseWebhook(body: any): PaymentEvent | null {
+    const payment = body?.payload?.payment?.entity;
+    if (!payment?.order_id) return null;
+    if (body.event === "order.paid" || body.event === "payment.captured") {
+      return { orderId: payment.order_id, paymentId: payment.id || null, status: "paid" };
+    }
+    if (body.event === "payment.failed") {
+      return { orderId: payment.order_id, paymentId: payment.id || null, status: "failed", failureReason: payment.error_description || "Payment failed" };
+    }
+    return null;
+  }
+}
+
+// The active provider is chosen with PAYMENT_PROVIDER; the mock is the default
+export function getPaymentProvider(): PaymentProvider {
+  if (process.env.PAYMENT_PROVIDER === "razorpay") {
+    const { RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET } = process.env;
+    if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET || !RAZORPAY_WEBHOOK_SECRET) {
+      throw new Error("RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET are required for Razorpay");
+    }
+    return new RazorpayPaymentProvider(RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET);
+  }
+  const localRun = process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test";
+  if (!process.env.PAYMENT_WEBHOOK_SECRET && !localRun) {
+    throw new Error("PAYMENT_WEBHOOK_SECRET is required to use the mock payment provider outside local development");
+  }
+  return new MockPaymentProvider(process.env.PAYMENT_WEBHOOK_SECRET || "mock-webhook-secret");
+}
@@ -0,0 +1,52 @@
+import type { PayoutMethod } from "@shared/schema";
+
+// Keep the last four digits of an account number, e.g. "XXXXXXXX1234"
+export function maskAccountNumber(accountNumber: string): string {
+  if (accountNumber.length <= 4) return accountNumber;
+  return "X".repeat(accountNumber.length - 4) + accountNumber.slice(-4);
+}
+
+// Keep the first two characters of the handle and the whole provider, e.g. "ra****@okaxis"
+export function maskUpiId(upiId: string): string {
+  const [handle, provider] = upiId.split("@");
+  const visible = handle.slice(0, 2);
+  return `${visible}${"*".repeat(Math.max(handle.length - visible.length, 4))}@${provider}`;
+}
+
+// Payout methods are always returned masked; full details only leave the
+// server in the payout batch export
+export function maskPayoutMethod(method: PayoutMethod): PayoutMethod {
+  return {
+    ...method,
+    accountNumber: method.accountNumber ? maskAccountNumber(method.accountNumber) : null,
+    upiId: method.upiId ? maskUpiId(method.upiId) : null,
+  };
+}
+
+// One-line summary stored on a withdrawal, e.g. "Bank: Ravi Kumar, A/C XXXXXXXX1234, IFSC HDFC0001234"
+export function describePayoutMethod(method: PayoutMethod): string {
+  const masked = maskPayoutMethod(method);
+  if (method.type === "upi") {
+    return `UPI: ${method.accountHolderName}, ${masked.upiId}`;
+  }
+  return `Bank: ${method.accountHolderName}, A/C ${masked.accountNumber}, IFSC ${method.ifsc}`;
+}
+
+// A withdrawal can only be requested against the client's own active method
+export function assertUsablePayoutMethod(method: PayoutMethod | null | undefined, clientId: string): PayoutMethod {
+  if (!method || method.clientId !== clientId || !method.isActive) {
+    throw new Error("Payout method not found");
+  }
+  return method;
+}
+
+// Money is only approved for release to a verified payout method that still exists
+export function assertApprovablePayoutMethod(method: PayoutMethod | null | undefined): PayoutMethod {
+  if (!method || !method.isActive) {
+    throw new Error("This withdrawal has no payout method to pay into");
+  }
+  if (!method.isVerified) {
+    throw new Error("Verify the payout method before approving this withdrawal");
+  }
+  return method;
+}
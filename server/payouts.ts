@@ -0,0 +1,76 @@
+import { randomBytes } from "crypto";
+import {
+  type PayoutBatch,
+  type PayoutMethod,
+  type User,
+  type Withdrawal,
+  canTransitionWithdrawal
+} from "@shared/schema";
+import { fromMinorUnits } from "@shared/money";
+
+export function assertWithdrawalTransition(withdrawal: Withdrawal, nextStatus: string): void {
+  if (!canTransitionWithdrawal(withdrawal.status, nextStatus)) {
+    throw new Error(`Cannot change withdrawal from ${withdrawal.status} to ${nextStatus}`);
+  }
+}
+
+// Only approved withdrawals that are not already batched can be paid together
+export function assertBatchable(withdrawalIds: string[], found: Withdrawal[]): void {
+  if (new Set(withdrawalIds).size !== withdrawalIds.length) {
+    throw new Error("A withdrawal can only appear once in a batch");
+  }
+  if (found.length !== withdrawalIds.length) {
+    throw new Error("One or more withdrawals were not found");
+  }
+  const notApproved = found.find(w => w.status !== "approved" || w.batchId);
+  if (notApproved) {
+    throw new Error(`Withdrawal ${notApproved.id} is ${notApproved.status} and cannot be batched`);
+  }
+  const currencies = new Set(found.map(w => w.currency));
+  if (currencies.size > 1) {
+    throw new Error("All withdrawals in a batch must use the same currency");
+  }
+}
+
+export function generateBatchReference(now: Date = new Date()): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, "");
+  return `PB-${date}-${randomBytes(3).toString("hex").toUpperCase()}`;
+}
+
+export function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export interface PayoutCsvRow {
+  withdrawal: Withdrawal;
+  client: User | null;
+  method: PayoutMethod | null; // Unmasked; null for withdrawals made before payout methods
+}
+
+// Bank bulk-transfer file: one row per withdrawal in the batch. "Amount" is
+// the net to transfer; gross and deductions are included for reconciliation.
+export function buildPayoutCsv(batch: PayoutBatch, rows: PayoutCsvRow[]): string {
+  const header = [
+    "Batch Reference", "Withdrawal ID", "Beneficiary Name", "Username", "Amount", "Currency", "Gross", "TDS", "Admin Charge",
+    "Method", "Account Holder", "Account Number", "IFSC", "UPI ID", "Bank Details",
+  ];
+  const lines = rows.map(({ withdrawal, client, method }) => [
+    batch.reference,
+    withdrawal.id,
+    client?.name || "",
+    client?.username || "",
+    fromMinorUnits(withdrawal.netAmount).toFixed(2),
+    withdrawal.currency,
+    fromMinorUnits(withdrawal.amount).toFixed(2),
+    fromMinorUnits(withdrawal.tdsAmount).toFixed(2),
+    fromMinorUnits(withdrawal.adminCharge).toFixed(2),
+    method?.type || "",
+    method?.accountHolderName || "",
+    method?.accountNumber || "",
+    method?.ifsc || "",
+    method?.upiId || "",
+    withdrawal.bankDetails,
+  ].map(csvCell).join(","));
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
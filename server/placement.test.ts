@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { allocateSlot } from "./placement";
+
+async function setUp() {
+  const storage = new MemStorage();
+  const [plan] = await storage.getAllPlans();
+  const admin = await storage.createUser({ username: "admin", password: "admin-password", role: "admin" });
+  const member = (username: string) => ({
+    name: `Member ${username}`,
+    username,
+    password: "secret1",
+    mobile: "9876543210",
+    email: `${username}@example.com`,
+    planId: plan.id,
+  });
+  const sponsor = await storage.createClient(member("sponsor"), admin.id);
+  return { storage, admin, sponsor, member };
+}
+
+function assertSlotsUnique(users: User[]) {
+  const slots = users.filter(user => user.parentId).map(user => `${user.parentId}:${user.position}`);
+  assert.equal(new Set(slots).size, slots.length, `slot used twice: ${slots.join(", ")}`);
+}
+
+test("parallel joins under one parent each get their own slot", async () => {
+  const { storage, admin, sponsor, member } = await setUp();
+
+  // Paid joins skip password hashing, so all of them search for a slot at once
+  const joined = await Promise.all(
+    Array.from({ length: 6 }, (_, i) => {
+      const { password, ...request } = member(`member${i}`);
+      return storage.createClientWithPayment({ ...request, passwordHash: password, sponsorId: sponsor.id }, admin.id);
+    })
+  );
+
+  assertSlotsUnique(await storage.getAllUsers());
+  assert.equal(joined.length, 6);
+  // Breadth-first: both slots under the sponsor, then both under each child
+  const underSponsor = joined.filter(user => user.parentId === sponsor.id);
+  assert.deepEqual(underSponsor.map(user => user.position).sort(), ["left", "right"]);
+  const children = new Set(underSponsor.map(user => user.id));
+  assert.equal(joined.filter(user => children.has(user.parentId!)).length, 4);
+});
+
+test("parallel manual joins for the same slot let exactly one through", async () => {
+  const { storage, admin, sponsor, member } = await setUp();
+
+  const results = await Promise.allSettled(
+    Array.from({ length: 4 }, (_, i) => storage.createClient(
+      { ...member(`member${i}`), parentId: sponsor.id, position: "left", placementStrategy: "manual" },
+      admin.id
+    ))
+  );
+
+  const placed = results.filter(result => result.status === "fulfilled");
+  assert.equal(placed.length, 1);
+  for (const result of results) {
+    if (result.status === "rejected") {
+      assert.match(result.reason.message, /left position under this parent is already taken/);
+    }
+  }
+  assertSlotsUnique(await storage.getAllUsers());
+});
+
+test("allocateSlot moves on to the next free slot when it loses one", async () => {
+  const { storage, admin, sponsor, member } = await setUp();
+  const tried: string[] = [];
+
+  const user = await allocateSlot(storage, { sponsorId: sponsor.id }, admin.id, async (sponsorId, placement) => {
+    tried.push(`${placement?.parentId}:${placement?.position}`);
+    if (tried.length === 1) {
+      // Another request takes the slot between placement and insert
+      await storage.createClient({ ...member("winner"), parentId: placement!.parentId, position: placement!.position, placementStrategy: "manual" }, admin.id);
+      return null;
+    }
+    return storage.createUser({ username: "loser", password: "secret1", role: "client", sponsorId, parentId: placement!.parentId, position: placement!.position });
+  });
+
+  assert.deepEqual(tried, [`${sponsor.id}:left`, `${sponsor.id}:right`]);
+  assert.equal(user.position, "right");
+  assertSlotsUnique(await storage.getAllUsers());
+});
+
+test("allocateSlot gives up after repeated conflicts", async () => {
+  const { storage, admin, sponsor } = await setUp();
+  await assert.rejects(
+    allocateSlot(storage, { sponsorId: sponsor.id }, admin.id, async () => null),
+    /The tree is busy/
+  );
+});
@@ -0,0 +1,168 @@
+import type { CreateClientRequest, PlacementStrategy, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type TreePosition = "left" | "right";
+
+export interface Placement {
+  parentId: string;
+  position: TreePosition;
+}
+
+const positions: TreePosition[] = ["left", "right"];
+
+// PLACEMENT_STRATEGY sets the default when a request does not choose one
+export function getDefaultPlacementStrategy(): PlacementStrategy {
+  const configured = process.env.PLACEMENT_STRATEGY;
+  return configured === "extreme_left" || configured === "extreme_right" || configured === "weaker_leg"
+    ? configured
+    : "breadth_first";
+}
+
+// A preferred position without a strategy means the caller picked the slot
+export function resolvePlacementStrategy(strategy?: PlacementStrategy | null, position?: TreePosition | null): PlacementStrategy {
+  if (strategy) return strategy;
+  return position ? "manual" : getDefaultPlacementStrategy();
+}
+
+async function childAt(storage: IStorage, parentId: string, position: TreePosition): Promise<User | undefined> {
+  const children = await storage.getClientsByParent(parentId);
+  return children.find(child => child.position === position);
+}
+
+// Follow one leg down to its last node
+async function placeAtExtreme(storage: IStorage, rootId: string, position: TreePosition): Promise<Placement> {
+  const visited = new Set<string>();
+  let parentId = rootId;
+  while (!visited.has(parentId)) {
+    visited.add(parentId);
+    const child = await childAt(storage, parentId, position);
+    if (!child) return { parentId, position };
+    parentId = child.id;
+  }
+  throw new Error("Tree contains a cycle");
+}
+
+// First free slot level by level, left before right
+async function placeBreadthFirst(storage: IStorage, rootId: string): Promise<Placement> {
+  const queue = [rootId];
+  const visited = new Set<string>();
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    if (visited.has(parentId)) continue;
+    visited.add(parentId);
+
+    const children = await storage.getClientsByParent(parentId);
+    for (const position of positions) {
+      const child = children.find(c => c.position === position);
+      if (!child) return { parentId, position };
+      queue.push(child.id);
+    }
+  }
+  throw new Error("No free position found in the sponsor's subtree");
+}
+
+// Fill an empty leg first; otherwise go breadth-first down the leg with less BV
+async function placeOnWeakerLeg(storage: IStorage, rootId: string): Promise<Placement> {
+  const children = await storage.getClientsByParent(rootId);
+  const left = children.find(c => c.position === "left");
+  const right = children.find(c => c.position === "right");
+  if (!left) return { parentId: rootId, position: "left" };
+  if (!right) return { parentId: rootId, position: "right" };
+
+  const volume = await storage.getBinaryVolume(rootId);
+  const weaker = (volume?.rightBv || 0) < (volume?.leftBv || 0) ? right : left;
+  return placeBreadthFirst(storage, weaker.id);
+}
+
+async function placeManually(storage: IStorage, parentId: string, position?: TreePosition | null): Promise<Placement> {
+  if (!position) {
+    throw new Error("Choose a left or right position for manual placement");
+  }
+  const available = await storage.getAvailablePositions(parentId);
+  if (!available.includes(position)) {
+    throw new Error(`The ${position} position under this parent is already taken`);
+  }
+  return { parentId, position };
+}
+
+// Find where a new member lands under a sponsor. Every strategy except
+// manual searches only the sponsor's own subtree.
+export async function findPlacement(
+  storage: IStorage,
+  sponsorId: string,
+  strategy: PlacementStrategy,
+  position?: TreePosition | null
+): Promise<Placement> {
+  const sponsor = await storage.getUserById(sponsorId);
+  if (!sponsor) {
+    throw new Error("Parent user not found");
+  }
+
+  switch (strategy) {
+    case "manual":
+      return placeManually(storage, sponsorId, position);
+    case "extreme_left":
+      return placeAtExtreme(storage, sponsorId, "left");
+    case "extreme_right":
+      return placeAtExtreme(storage, sponsorId, "right");
+    case "weaker_leg":
+      return placeOnWeakerLeg(storage, sponsorId);
+    case "breadth_first":
+      return placeBreadthFirst(storage, sponsorId);
+  }
+}
+
+export async function isWithinSubtree(storage: IStorage, rootId: string, nodeId: string): Promise<boolean> {
+  if (rootId === nodeId) return true;
+  const downline = await storage.getClientDownline(rootId);
+  return downline.some(member => member.id === nodeId);
+}
+
+// Clients may only place members at or below themselves
+export async function assertWithinSubtree(storage: IStorage, rootId: string, nodeId: string): Promise<void> {
+  if (!(await isWithinSubtree(storage, rootId, nodeId))) {
+    throw new Error("Parent must be in your own downline");
+  }
+}
+
+// The sponsor is who recruited the member and defaults to the creator.
+// Placement starts at the requested parent, or the sponsor, and a requested
+// parent must sit inside the sponsor's subtree.
+export async function placeNewMember(
+  storage: IStorage,
+  request: Pick<CreateClientRequest, "sponsorId" | "parentId" | "position" | "placementStrategy">,
+  createdById?: string
+): Promise<{ sponsorId: string | null; placement: Placement | null }> {
+  if (request.sponsorId && !(await storage.getUserById(request.sponsorId))) {
+    throw new Error("Sponsor not found");
+  }
+  const sponsorId = request.sponsorId || createdById || null;
+  const rootId = request.parentId || sponsorId;
+  if (!rootId) {
+    return { sponsorId, placement: null };
+  }
+  if (sponsorId && rootId !== sponsorId && !(await isWithinSubtree(storage, sponsorId, rootId))) {
+    throw new Error("Placement parent must be in the sponsor's downline");
+  }
+  const strategy = resolvePlacementStrategy(request.placementStrategy, request.position);
+  return { sponsorId, placement: await findPlacement(storage, rootId, strategy, request.position) };
+}
+
+export const SLOT_ALLOCATION_ATTEMPTS = 3;
+
+// Place a new member and hand the slot to insert, which returns null when a
+// concurrent request claimed that slot first. Automatic strategies then pick
+// the next free slot; a manual position re-checks and reports it as taken.
+export async function allocateSlot(
+  storage: IStorage,
+  request: Pick<CreateClientRequest, "sponsorId" | "parentId" | "position" | "placementStrategy">,
+  createdById: string | undefined,
+  insert: (sponsorId: string | null, placement: Placement | null) => Promise<User | null>
+): Promise<User> {
+  for (let attempt = 0; attempt < SLOT_ALLOCATION_ATTEMPTS; attempt++) {
+    const { sponsorId, placement } = await placeNewMember(storage, request, createdById);
+    const user = await insert(sponsorId, placement);
+    if (user) return user;
+  }
+  throw new Error("The tree is busy, please try again");
+}
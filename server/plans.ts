@@ -0,0 +1,29 @@
+import type { ClientStats, Plan, User } from "@shared/schema";
+
+// New clients can only join on an existing, active plan
+export function assertPurchasablePlan(plan: Plan | null): Plan {
+  if (!plan) {
+    throw new Error("Plan not found");
+  }
+  if (plan.status !== "active") {
+    throw new Error(`The ${plan.name} plan is not available`);
+  }
+  return plan;
+}
+
+// Client counts per plan, ordered by plan price. Plans without clients are
+// still listed so every plan gets a stat.
+export function buildClientStats(clients: User[], allPlans: Plan[]): ClientStats {
+  const counts = new Map<string, number>();
+  for (const client of clients) {
+    if (client.planId) {
+      counts.set(client.planId, (counts.get(client.planId) || 0) + 1);
+    }
+  }
+  return {
+    total: clients.length,
+    byPlan: [...allPlans]
+      .sort((a, b) => a.price - b.price)
+      .map(plan => ({ planId: plan.id, name: plan.name, count: counts.get(plan.id) || 0 })),
+  };
+}
@@ -1,15 +1,75 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { getPairingConfig, emptyBinaryVolume } from "./pairing";
+import { buildPayoutCsv } from "./payouts";
+import { maskPayoutMethod } from "./payout-methods";
+import { getPaymentProvider, MockPaymentProvider } from "./payment-providers";
+import { createClientPaymentIntent, processPaymentWebhook, toPublicPaymentIntent } from "./payment-intents";
+import { getUpiPayee, buildUpiLink, renderQrSvg, renderQrPng } from "./upi";
+import { calculateDeductions, financialYearOf, deductedWithdrawalsInYear, buildDeductionStatementCsv } from "./deductions";
+import { findPlacement, resolvePlacementStrategy, isWithinSubtree, assertWithinSubtree } from "./placement";
+import { buildSponsorTree, MAX_SPONSOR_TREE_DEPTH } from "./sponsors";
+import { getDeletionImpact } from "./deletion";
+import { moveClientSubtree } from "./tree-moves";
+import { checkTreeIntegrity } from "./tree-integrity";
+import { buildGenealogy, findGenealogyPath } from "./genealogy";
+import {
+  startUserSession,
+  startPendingTwoFactor,
+  pendingTwoFactorUserId,
+  checkUserSession,
+  revokeSessions,
+  listActiveSessions,
+  MAX_TWO_FACTOR_ATTEMPTS,
+} from "./sessions";
+import {
+  twoFactorChallengeFor,
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  verifyTwoFactorCode,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "./two-factor";
+import {
+  loginBlockedUntil,
+  recordLoginEvent,
+  recordLoginFailure,
+  recordLoginSuccess,
+  getLockoutStatus,
+  unlockAccount,
+  getLoginHistory,
+} from "./login-throttle";
+import { requestPasswordReset, confirmPasswordReset } from "./password-reset";
+import { prepareInstallation, isSetupRequired, getSetupStatus, completeSetup, updateOrganization } from "./setup";
 import { 
   loginSchema, 
   createClientSchema, 
-  paymentConfirmationSchema, 
+  placementPreviewSchema,
+  deleteClientSchema,
+  moveSubtreeSchema,
+  genealogyQuerySchema,
+  genealogySearchSchema,
+  createPaymentIntentSchema,
+  simulatePaymentSchema,
   insertPlanSchema, 
   updatePlanSchema,
   createReportSchema,
   createWithdrawalSchema,
+  createPayoutMethodSchema,
+  verifyPayoutMethodSchema,
+  createEarningSchema,
+  updateWithdrawalStatusSchema,
+  createPayoutBatchSchema,
   updatePasswordSchema,
+  updateAdminPasswordSchema,
+  setupSchema,
+  organizationSettingsSchema,
+  twoFactorCodeSchema,
+  updateSecuritySettingsSchema,
+  requestPasswordResetSchema,
+  confirmPasswordResetSchema,
   updateProfileSchema
 } from "@shared/schema";
 import { z } from "zod";
@@ -18,15 +78,45 @@ declare module "express-session" {
   interface SessionData {
     userId?: string;
     role?: string;
+    pendingTwoFactor?: { userId: string; setup: boolean; attempts: number; expiresAt: number };
+    mustChangePassword?: boolean;
   }
 }
 
+// All an admin on the old default password may do until they change it
+const PASSWORD_CHANGE_PATHS = ["/api/auth/me", "/api/profile/password"];
+
+// Sessions revoked from another device or by an admin stop working at once
+const requireActiveSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (await checkUserSession(storage, req)) {
+      if (req.session.mustChangePassword && !PASSWORD_CHANGE_PATHS.includes(req.path)) {
+        return res.status(403).json({ message: "Change your password to continue", passwordChangeRequired: true });
+      }
+      return next();
+    }
+    req.session.destroy(() => {
+      res.status(401).json({ message: "Your session has ended, please sign in again" });
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
 // Middleware to check authentication
 const requireAuth = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session?.userId) {
     return res.status(401).json({ message: "Authentication required" });
   }
-  next();
+  requireActiveSession(req, res, next);
+};
+
+// 429 for a username or address that has to wait before trying again
+const sendLoginBlocked = (res: Response, blockedUntil: Date, attempts = "failed sign-in attempts") => {
+  const seconds = Math.max(1, Math.ceil((blockedUntil.getTime() - Date.now()) / 1000));
+  const wait = seconds < 60 ? `${seconds} second(s)` : `${Math.ceil(seconds / 60)} minute(s)`;
+  res.set("Retry-After", String(seconds));
+  return res.status(429).json({ message: `Too many ${attempts}. Try again in ${wait}.`, retryAfter: seconds });
 };
 
 // Middleware to check admin role
@@ -34,22 +124,78 @@ const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session?.userId || req.session.role !== "admin") {
     return res.status(403).json({ message: "Admin access required" });
   }
-  next();
+  requireActiveSession(req, res, next);
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  await prepareInstallation(storage);
+
+  // Until the owner account exists, only setup answers
+  app.use("/api", async (req, res, next) => {
+    if (req.path.startsWith("/setup")) return next();
+    try {
+      if (await isSetupRequired(storage)) {
+        return res.status(503).json({ message: "Setup required", setupRequired: true });
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/setup/status", async (req, res) => {
+    try {
+      res.json(await getSetupStatus(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // First run: create the owner and sign them in
+  app.post("/api/setup", async (req, res) => {
+    try {
+      const input = setupSchema.parse(req.body);
+      const owner = await completeSetup(storage, input);
+      await startUserSession(storage, req, owner);
+      await recordLoginSuccess(storage, req, owner);
+      const { password: _, ...ownerWithoutPassword } = owner;
+      res.status(201).json(ownerWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Setup failed" });
+    }
+  });
+
   // Login endpoint
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { username, password, role } = loginSchema.parse(req.body);
-      
+
+      // Throttled before the password is even checked
+      const blockedUntil = await loginBlockedUntil(storage, req, username);
+      if (blockedUntil) {
+        const account = await storage.getUserByUsername(username);
+        if (account) await recordLoginEvent(storage, req, account, "blocked");
+        return sendLoginBlocked(res, blockedUntil);
+      }
+
       const user = await storage.validateUser(username, password, role);
       if (!user) {
+        await recordLoginFailure(storage, req, username, await storage.getUserByUsername(username), "invalid_password");
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      req.session.userId = user.id;
-      req.session.role = user.role;
+      // With 2FA the session is only issued once the code has been checked
+      const challenge = await twoFactorChallengeFor(storage, user);
+      if (challenge) {
+        await startPendingTwoFactor(storage, req, user, challenge.twoFactor === "setup");
+        return res.json(challenge);
+      }
+
+      await startUserSession(storage, req, user);
+      await recordLoginSuccess(storage, req, user);
 
       // Return user without password
       const { password: _, ...userWithoutPassword } = user;
@@ -62,8 +208,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Forgot password: email or text a one-time code to the account
+  app.post("/api/auth/password-reset/request", async (req, res) => {
+    try {
+      const { username } = requestPasswordResetSchema.parse(req.body);
+      const blockedUntil = await requestPasswordReset(storage, req, username);
+      if (blockedUntil) {
+        return sendLoginBlocked(res, blockedUntil, "password reset requests");
+      }
+      res.json({ message: "If the account exists, a reset code has been sent to its email or mobile number" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Set a new password with the code; signs the account out everywhere
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
+    try {
+      const data = confirmPasswordResetSchema.parse(req.body);
+      const result = await confirmPasswordReset(storage, req, data);
+      if (result.status === "blocked") {
+        return sendLoginBlocked(res, result.blockedUntil, "password reset attempts");
+      }
+      if (result.status === "invalid") {
+        return res.status(400).json({ message: "The code is invalid or has expired" });
+      }
+      res.json({ message: "Password has been reset. Sign in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Password reset failed" });
+    }
+  });
+
   // Logout endpoint
-  app.post("/api/auth/logout", (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await storage.deleteUserSessions([req.sessionID]);
+    } catch (error) {
+      return res.status(500).json({ message: "Could not log out" });
+    }
     req.session.destroy((err) => {
       if (err) {
         return res.status(500).json({ message: "Could not log out" });
@@ -72,6 +260,216 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Second login step: a TOTP or recovery code for the user who passed the password check
+  app.post("/api/auth/2fa/verify", async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = pendingTwoFactorUserId(req, false);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+
+      // Wrong codes count against the account like wrong passwords
+      const blockedUntil = await loginBlockedUntil(storage, req, user.username);
+      if (blockedUntil) {
+        await recordLoginEvent(storage, req, user, "blocked");
+        return sendLoginBlocked(res, blockedUntil);
+      }
+
+      if (!(await verifyTwoFactorCode(storage, user.id, code))) {
+        await recordLoginFailure(storage, req, user.username, user, "invalid_code");
+        const pending = req.session.pendingTwoFactor!;
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many invalid codes, sign in again" });
+        }
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await startUserSession(storage, req, user);
+      await recordLoginSuccess(storage, req, user);
+      const { password: _, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/auth/2fa", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await getTwoFactorStatus(storage, user));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Enrolment is open to the signed-in user, and to an admin whose login is
+  // held until they enrol because the role requires 2FA
+  app.post("/api/auth/2fa/setup", async (req, res) => {
+    try {
+      const userId = req.session.userId || pendingTwoFactorUserId(req, true);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      if (req.session.userId && !(await checkUserSession(storage, req))) {
+        return res.status(401).json({ message: "Your session has ended, please sign in again" });
+      }
+      res.json(await beginTwoFactorSetup(storage, user));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const pendingUserId = req.session.userId ? null : pendingTwoFactorUserId(req, true);
+      const userId = req.session.userId || pendingUserId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      if (req.session.userId && !(await checkUserSession(storage, req))) {
+        return res.status(401).json({ message: "Your session has ended, please sign in again" });
+      }
+
+      const recoveryCodes = await confirmTwoFactorSetup(storage, user.id, code);
+      if (!pendingUserId) {
+        return res.json({ recoveryCodes });
+      }
+      // Enrolling was the last step of a held login
+      await startUserSession(storage, req, user);
+      await recordLoginSuccess(storage, req, user);
+      const { password: _, ...userWithoutPassword } = user;
+      res.json({ recoveryCodes, user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", requireAuth, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await disableTwoFactor(storage, user, code);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await regenerateRecoveryCodes(storage, req.session.userId!, code);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.get("/api/admin/settings", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getAppSettings());
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/settings/organization", requireAdmin, async (req, res) => {
+    try {
+      const organization = organizationSettingsSchema.parse(req.body);
+      res.json(await updateOrganization(storage, organization, req.session.userId!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Making 2FA mandatory holds every admin login without it until they enrol
+  app.patch("/api/admin/settings/security", requireAdmin, async (req, res) => {
+    try {
+      const update = updateSecuritySettingsSchema.parse(req.body);
+      if (update.requireAdminTwoFactor && !(await storage.getTwoFactorSettings(req.session.userId!))?.enabledAt) {
+        return res.status(400).json({ message: "Enable two-factor authentication on your own account first" });
+      }
+      res.json(await storage.updateAppSettings(update, req.session.userId!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Recent sign-in attempts on the current user's account
+  app.get("/api/auth/login-history", requireAuth, async (req, res) => {
+    try {
+      res.json(await getLoginHistory(storage, req.session.userId!));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Browsers the current user is signed in on
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const sessions = await listActiveSessions(storage, req.sessionStore, req.session.userId!, req.sessionID);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sign out every other browser, keeping this one
+  app.post("/api/auth/sessions/revoke-others", requireAuth, async (req, res) => {
+    try {
+      const others = (await storage.getUserSessions(req.session.userId!)).filter(record => record.sid !== req.sessionID);
+      await revokeSessions(storage, req.sessionStore, others);
+      res.json({ message: `Signed out ${others.length} other session(s)`, revoked: others.length });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sign out one browser
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const record = (await storage.getUserSessions(req.session.userId!)).find(record => record.id === req.params.id);
+      if (!record) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await revokeSessions(storage, req.sessionStore, [record]);
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Get current user
   app.get("/api/auth/me", requireAuth, async (req, res) => {
     try {
@@ -98,50 +496,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin: Create new client with payment confirmation
-  app.post("/api/clients/create-with-payment", requireAdmin, async (req, res) => {
+  // Payments
+  // Admin: Start a plan payment for a new client. The client is created by
+  // the payment webhook, never by this request.
+  app.post("/api/payments/intents", requireAdmin, async (req, res) => {
     try {
-      const paymentData = paymentConfirmationSchema.parse(req.body);
-      
-      if (!paymentData.paymentConfirmed) {
-        return res.status(400).json({ message: "Payment confirmation required" });
+      const { clientData } = createPaymentIntentSchema.parse(req.body);
+      const { intent, order } = await createClientPaymentIntent(storage, getPaymentProvider(), clientData, req.session.userId!);
+      res.status(201).json({ ...toPublicPaymentIntent(intent), checkout: order.checkout });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to start payment" });
+    }
+  });
 
-      const { clientData } = paymentData;
-      
-      // Check if username already exists
-      const existingUser = await storage.getUserByUsername(clientData.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
+  // Admin: Poll the status of a payment
+  app.get("/api/payments/intents/:id", requireAdmin, async (req, res) => {
+    try {
+      const intent = await storage.getPaymentIntent(req.params.id);
+      if (!intent) {
+        return res.status(404).json({ message: "Payment not found" });
       }
+      res.json(toPublicPaymentIntent(intent));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Verify the parent user exists (should be the current admin)
-      const parentUser = await storage.getUserById(clientData.parentId || req.session.userId!);
-      if (!parentUser) {
-        return res.status(400).json({ message: "Parent user not found" });
+  // Admin: UPI QR for the exact plan price of a pending payment, as .svg or .png.
+  // The provider order id is the transaction reference.
+  app.get("/api/payments/intents/:id/upi-qr.:format", requireAdmin, async (req, res) => {
+    try {
+      const { format } = req.params;
+      if (format !== "svg" && format !== "png") {
+        return res.status(404).json({ message: "Format must be svg or png" });
       }
+      
+      const payee = getUpiPayee(await storage.getAppSettings());
+      if (!payee) {
+        return res.status(404).json({ message: "UPI payee is not configured" });
+      }
+      
+      const intent = await storage.getPaymentIntent(req.params.id);
+      if (!intent) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (intent.status !== "created") {
+        return res.status(400).json({ message: "Payment is already settled" });
+      }
+      
+      const pendingClient = JSON.parse(intent.clientData);
+      const plan = await storage.getPlanById(pendingClient.planId);
+      const link = buildUpiLink(payee, intent.amount, intent.currency, intent.providerOrderId, `${plan?.name || "Plan"} for ${pendingClient.username}`);
+      
+      res.setHeader("Cache-Control", "no-store");
+      if (format === "svg") {
+        res.type("image/svg+xml").send(await renderQrSvg(link));
+      } else {
+        res.type("image/png").send(await renderQrPng(link));
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Ensure parentId is properly set in client data
-      const finalClientData = {
-        ...clientData,
-        parentId: clientData.parentId || req.session.userId!
-      };
-
-      // Create client with proper parent-child relationship
-      const client = await storage.createClientWithPayment(finalClientData, req.session.userId);
-      const { password: _, ...clientWithoutPassword } = client;
+  // Admin: Make the mock provider send a signed success or failure webhook
+  app.post("/api/payments/intents/:id/simulate", requireAdmin, async (req, res) => {
+    try {
+      const { outcome } = simulatePaymentSchema.parse(req.body);
+      const provider = getPaymentProvider();
+      const intent = await storage.getPaymentIntent(req.params.id);
+      if (!intent) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (!(provider instanceof MockPaymentProvider) || intent.provider !== provider.name) {
+        return res.status(400).json({ message: "Payments can only be simulated with the mock provider" });
+      }
       
-      res.status(201).json({
-        ...clientWithoutPassword,
-        message: "Client created successfully after payment confirmation"
-      });
+      const { rawBody, headers } = provider.signWebhook(intent.providerOrderId, outcome);
+      const result = await processPaymentWebhook(storage, provider, rawBody, headers);
+      res.json(toPublicPaymentIntent(result.result === "processed" || result.result === "retry" ? result.intent : intent));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      res.status(400).json({ 
-        message: error instanceof Error ? error.message : "Failed to create client" 
-      });
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Provider webhook; authenticated by its signature rather than a session
+  app.post("/api/payments/webhook/:provider", async (req, res) => {
+    try {
+      const provider = getPaymentProvider();
+      if (req.params.provider !== provider.name || !Buffer.isBuffer(req.rawBody)) {
+        return res.status(404).json({ message: "Unknown payment provider" });
+      }
+      
+      const outcome = await processPaymentWebhook(storage, provider, req.rawBody, req.headers);
+      if (outcome.result === "invalid_signature") {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+      if (outcome.result === "not_found") {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (outcome.result === "retry") {
+        // Not acknowledged, so the provider delivers it again
+        return res.status(500).json({ message: outcome.intent.failureReason || "Client creation failed" });
+      }
+      res.json({ received: true });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
@@ -182,8 +648,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const clientData = createClientSchema.parse(req.body);
       
-      // Set the parent to be the current user
-      clientData.parentId = req.session.userId;
+      // Clients sponsor everyone they add; placement may spill into their subtree
+      clientData.sponsorId = req.session.userId;
+      if (clientData.parentId) {
+        await assertWithinSubtree(storage, req.session.userId!, clientData.parentId);
+      }
 
       // Check if username already exists
       const existingUser = await storage.getUserByUsername(clientData.username);
@@ -198,16 +667,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create downline client" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create downline client" });
+    }
+  });
+
+  // Get client's downline
+  app.get("/api/clients/downline", requireAuth, async (req, res) => {
+    try {
+      const downline = await storage.getClientsByParent(req.session.userId!);
+      const downlineWithoutPasswords = downline.map(({ password: _, ...client }) => client);
+      res.json(downlineWithoutPasswords);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Members the current user personally recruited, wherever they were placed
+  app.get("/api/clients/referrals", requireAuth, async (req, res) => {
+    try {
+      const referrals = await storage.getClientsBySponsor(req.session.userId!);
+      const referralsWithoutPasswords = referrals.map(({ password: _, ...client }) => client);
+      res.json(referralsWithoutPasswords);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sponsor (referral) tree; admins may pass ?clientId to view any member
+  app.get("/api/clients/sponsor-tree", requireAuth, async (req, res) => {
+    try {
+      const rootId = req.session.role === "admin" && req.query.clientId
+        ? req.query.clientId as string
+        : req.session.userId!;
+      const depth = req.query.depth ? parseInt(req.query.depth as string, 10) : MAX_SPONSOR_TREE_DEPTH;
+      if (!Number.isInteger(depth) || depth < 1 || depth > MAX_SPONSOR_TREE_DEPTH) {
+        return res.status(400).json({ message: `Depth must be between 1 and ${MAX_SPONSOR_TREE_DEPTH}` });
+      }
+
+      const tree = await buildSponsorTree(storage, rootId, depth);
+      if (!tree) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(tree);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Placement tree from a root down a limited number of levels; the tree view
+  // calls this again for a boundary node to expand it
+  app.get("/api/genealogy", requireAuth, async (req, res) => {
+    try {
+      const { rootId, depth } = genealogyQuerySchema.parse(req.query);
+      const id = rootId || req.session.userId!;
+      if (req.session.role === "client" && !(await isWithinSubtree(storage, req.session.userId!, id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const root = await storage.getUserById(id);
+      if (!root) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await buildGenealogy(storage, root, depth));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Find a member by username below the root and return the placement path to them
+  app.get("/api/genealogy/search", requireAuth, async (req, res) => {
+    try {
+      const { rootId, username } = genealogySearchSchema.parse(req.query);
+      const id = rootId || req.session.userId!;
+      if (req.session.role === "client" && !(await isWithinSubtree(storage, req.session.userId!, id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const path = await findGenealogyPath(storage, id, username);
+      if (!path) {
+        return res.status(404).json({ message: "No member with that username in this tree" });
+      }
+      res.json({ path });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // A client's signed-in browsers, for admins
+  app.get("/api/clients/:id/sessions", requireAdmin, async (req, res) => {
+    try {
+      const sessions = await listActiveSessions(storage, req.sessionStore, req.params.id);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Force-logout a client everywhere
+  app.delete("/api/clients/:id/sessions", requireAdmin, async (req, res) => {
+    try {
+      const client = await storage.getUser(req.params.id);
+      if (!client || client.role !== "client") {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      const sessions = await storage.getUserSessions(client.id);
+      await revokeSessions(storage, req.sessionStore, sessions);
+      res.json({ message: `Signed out ${sessions.length} session(s)`, revoked: sessions.length });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Whether a client is locked out after failed sign-ins
+  app.get("/api/clients/:id/lockout", requireAdmin, async (req, res) => {
+    try {
+      const client = await storage.getUser(req.params.id);
+      if (!client || client.role !== "client") {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await getLockoutStatus(storage, client));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get client's downline
-  app.get("/api/clients/downline", requireAuth, async (req, res) => {
+  // Lift a lockout before it expires
+  app.post("/api/clients/:id/unlock", requireAdmin, async (req, res) => {
     try {
-      const downline = await storage.getClientsByParent(req.session.userId!);
-      const downlineWithoutPasswords = downline.map(({ password: _, ...client }) => client);
-      res.json(downlineWithoutPasswords);
+      const client = await storage.getUser(req.params.id);
+      if (!client || client.role !== "client") {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      await unlockAccount(storage, client);
+      res.json({ message: `${client.username} can sign in again` });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
@@ -218,8 +816,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { parentId } = req.params;
       
-      // Check if user can access this information
-      if (req.session.role === "client" && req.session.userId !== parentId) {
+      // Clients can only look at parents within their own subtree
+      if (req.session.role === "client" && !(await isWithinSubtree(storage, req.session.userId!, parentId))) {
         return res.status(403).json({ message: "Access denied" });
       }
 
@@ -230,6 +828,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Subtree size, depth and per-leg counts and BV for a member
+  app.get("/api/clients/:id/subtree-stats", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (req.session.role === "client" && !(await isWithinSubtree(storage, req.session.userId!, id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!(await storage.getUserById(id))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const stats = await storage.getSubtreeStats(id);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Preview where a new member would land for a sponsor and strategy
+  app.get("/api/placement/preview", requireAuth, async (req, res) => {
+    try {
+      const { sponsorId, strategy, position } = placementPreviewSchema.parse(req.query);
+      const rootId = sponsorId || req.session.userId!;
+      if (req.session.role === "client") {
+        await assertWithinSubtree(storage, req.session.userId!, rootId);
+      }
+
+      const resolvedStrategy = resolvePlacementStrategy(strategy, position);
+      const placement = await findPlacement(storage, rootId, resolvedStrategy, position);
+      const parent = await storage.getUserById(placement.parentId);
+      res.json({
+        ...placement,
+        strategy: resolvedStrategy,
+        parent: parent ? { id: parent.id, name: parent.name, username: parent.username } : null,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to preview placement" });
+    }
+  });
+
   // Get client statistics
   app.get("/api/stats", requireAdmin, async (req, res) => {
     try {
@@ -268,7 +909,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/plans", requireAdmin, async (req, res) => {
     try {
       const planData = insertPlanSchema.parse(req.body);
-      const plan = await storage.createPlan(planData);
+      // Plans are priced in the installation currency unless one is given
+      const currency = planData.currency || (await storage.getAppSettings()).currency;
+      const plan = await storage.createPlan({ ...planData, currency });
       res.status(201).json(plan);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -278,10 +921,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What each deletion policy would do to a client's tree and records
+  app.get("/api/clients/:id/deletion-impact", requireAdmin, async (req, res) => {
+    try {
+      const client = await storage.getUserById(req.params.id);
+      if (!client || client.role !== "client") {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const impact = await getDeletionImpact(storage, client);
+      res.json(impact);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Move a client and their subtree to another parent; dryRun previews it
+  app.post("/api/clients/:id/move", requireAdmin, async (req, res) => {
+    try {
+      const request = moveSubtreeSchema.parse(req.body);
+      const result = await moveClientSubtree(storage, req.params.id, request, req.session.userId!);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to move client" });
+    }
+  });
+
+  // Tree integrity report; POST also applies the automated repairs
+  app.get("/api/admin/tree-integrity", requireAdmin, async (req, res) => {
+    try {
+      const report = await checkTreeIntegrity(storage);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/tree-integrity/repair", requireAdmin, async (req, res) => {
+    try {
+      const report = await checkTreeIntegrity(storage, { repair: true, actorId: req.session.userId });
+      res.json(report);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to repair the tree" });
+    }
+  });
+
+  // Audit trail of placement corrections, optionally for one client
+  app.get("/api/placement-changes", requireAdmin, async (req, res) => {
+    try {
+      const changes = await storage.getPlacementChanges(req.query.userId as string | undefined);
+      res.json(changes);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Delete client (Admin only)
   app.delete("/api/clients/:id", requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
+      // Soft delete (deactivate) unless another policy is asked for
+      const { policy } = deleteClientSchema.parse(req.body || {});
       
       // Check if client exists
       const client = await storage.getUser(id);
@@ -294,13 +997,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Cannot delete admin users" });
       }
       
-      const deleted = await storage.deleteClient(id);
-      if (!deleted) {
+      const sessions = await storage.getUserSessions(id);
+      const plan = await storage.deleteClient(id, policy);
+      if (!plan) {
         return res.status(404).json({ message: "Client not found or could not be deleted" });
       }
-      res.json({ message: "Client deleted successfully" });
+      // However they leave, the client is signed out everywhere
+      await revokeSessions(storage, req.sessionStore, sessions);
+      const messages = {
+        deactivate: "Client deactivated successfully",
+        detach: "Client removed from the tree and deactivated; their money history is kept",
+        delete: "Client deleted successfully",
+      };
+      res.json({ message: messages[plan.removal], plan });
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to delete client" });
     }
   });
 
@@ -330,7 +1044,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       res.json({ message: "Plan deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to delete plan" });
     }
   });
 
@@ -419,7 +1133,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const total = await storage.getTotalEarnings(clientId);
-      res.json({ total });
+      const { currency } = await storage.getAppSettings();
+      res.json({ total, currency });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get binary pairing volume for a client
+  app.get("/api/earnings/pairing", requireAuth, async (req, res) => {
+    try {
+      const clientId = req.session.role === "admin" ? req.query.clientId as string : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client ID is required" });
+      }
+      
+      const volume = await storage.getBinaryVolume(clientId) || emptyBinaryVolume(clientId);
+      const client = await storage.getUserById(clientId);
+      const plan = client?.planId ? await storage.getPlanById(client.planId) : null;
+      res.json({
+        ...volume,
+        config: getPairingConfig(),
+        caps: { daily: plan?.dailyPairCap || 0, monthly: plan?.monthlyPairCap || 0 },
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Pairs a client lost to their plan's daily or monthly cap
+  app.get("/api/earnings/flushed", requireAuth, async (req, res) => {
+    try {
+      const clientId = req.session.role === "admin" ? req.query.clientId as string : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client ID is required" });
+      }
+      
+      const flushes = await storage.getPairFlushesByClient(clientId);
+      res.json(flushes);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
@@ -428,14 +1179,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create earning (admin only)
   app.post("/api/earnings", requireAdmin, async (req, res) => {
     try {
-      const { clientId, type, amount, description, fromClientId } = req.body;
+      const { clientId, type, amount, description, fromClientId } = createEarningSchema.parse(req.body);
       const earning = await storage.createEarning(clientId, type, amount, description, fromClientId);
       res.status(201).json(earning);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Wallet
+  // Get available, held and lifetime balances
+  app.get("/api/wallet", requireAuth, async (req, res) => {
+    try {
+      const clientId = req.session.role === "admin" ? req.query.clientId as string : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client ID is required" });
+      }
+      
+      const balance = await storage.getWalletBalance(clientId);
+      res.json(balance);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get wallet ledger entries
+  app.get("/api/wallet/ledger", requireAuth, async (req, res) => {
+    try {
+      const clientId = req.session.role === "admin" ? req.query.clientId as string : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client ID is required" });
+      }
+      
+      const entries = await storage.getLedgerEntriesByClient(clientId);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payout Methods
+  // List saved payout methods (masked). Admins see every client's methods.
+  app.get("/api/payout-methods", requireAuth, async (req, res) => {
+    try {
+      let methods;
+      if (req.session.role === "admin") {
+        const clientId = req.query.clientId as string | undefined;
+        methods = clientId ? await storage.getPayoutMethodsByClient(clientId) : await storage.getAllPayoutMethods();
+      } else {
+        methods = await storage.getPayoutMethodsByClient(req.session.userId!);
+      }
+      res.json(methods.map(maskPayoutMethod));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Add a bank account or UPI ID (client only)
+  app.post("/api/payout-methods", requireAuth, async (req, res) => {
+    try {
+      if (req.session.role !== "client") {
+        return res.status(403).json({ message: "Only clients can add payout methods" });
+      }
+      
+      const methodData = createPayoutMethodSchema.parse(req.body);
+      const method = await storage.createPayoutMethod(req.session.userId!, methodData);
+      res.status(201).json(maskPayoutMethod(method));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Remove own payout method; past withdrawals keep their reference to it
+  app.delete("/api/payout-methods/:id", requireAuth, async (req, res) => {
+    try {
+      const method = await storage.getPayoutMethodById(req.params.id);
+      if (!method || (req.session.role !== "admin" && method.clientId !== req.session.userId)) {
+        return res.status(404).json({ message: "Payout method not found" });
+      }
+      
+      const removed = await storage.removePayoutMethod(method.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Payout method not found" });
+      }
+      res.json({ message: "Payout method removed successfully" });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Mark a payout method as verified or unverified (admin only)
+  app.put("/api/payout-methods/:id/verify", requireAdmin, async (req, res) => {
+    try {
+      const { isVerified } = verifyPayoutMethodSchema.parse(req.body);
+      const method = await storage.setPayoutMethodVerified(req.params.id, isVerified, req.session.userId!);
+      if (!method) {
+        return res.status(404).json({ message: "Payout method not found" });
+      }
+      res.json(maskPayoutMethod(method));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Withdrawals Management
   // Create withdrawal request (client only)
   app.post("/api/withdrawals", requireAuth, async (req, res) => {
@@ -451,7 +1306,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      res.status(500).json({ message: "Internal server error" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create withdrawal request" });
     }
   });
 
@@ -470,25 +1325,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Preview TDS and admin charge for a gross amount in minor units (client only)
+  app.get("/api/withdrawals/preview", requireAuth, async (req, res) => {
+    try {
+      const amount = parseInt(req.query.amount as string, 10);
+      if (isNaN(amount) || amount <= 0) {
+        return res.status(400).json({ message: "Amount must be greater than zero" });
+      }
+      
+      const user = await storage.getUserById(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ ...calculateDeductions(amount, user), panProvided: !!user.pan });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Download a financial-year deduction statement as CSV
+  app.get("/api/withdrawals/statement", requireAuth, async (req, res) => {
+    try {
+      const clientId = req.session.role === "admin" ? req.query.clientId as string : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client ID is required" });
+      }
+      
+      const client = await storage.getUserById(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const financialYear = (req.query.fy as string) || financialYearOf(new Date());
+      const clientWithdrawals = deductedWithdrawalsInYear(await storage.getWithdrawalsByClient(clientId), financialYear);
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="deductions-${client.username}-FY${financialYear}.csv"`);
+      res.send(buildDeductionStatementCsv(client, financialYear, clientWithdrawals));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to build statement" });
+    }
+  });
+
   // Update withdrawal status (admin only)
   app.put("/api/withdrawals/:id", requireAdmin, async (req, res) => {
     try {
-      const { status, adminNotes } = req.body;
-      const withdrawal = await storage.updateWithdrawalStatus(req.params.id, status, adminNotes);
+      const { status, adminNotes } = updateWithdrawalStatusSchema.parse(req.body);
+      // Approval also checks the payout method is verified, in the same transaction
+      const withdrawal = await storage.updateWithdrawalStatus(req.params.id, status, req.session.userId!, adminNotes);
       if (!withdrawal) {
         return res.status(404).json({ message: "Withdrawal not found" });
       }
       res.json(withdrawal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update withdrawal" });
+    }
+  });
+
+  // Cancel own pending withdrawal (client only)
+  app.post("/api/withdrawals/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getWithdrawalById(req.params.id);
+      if (!existing || existing.clientId !== req.session.userId) {
+        return res.status(404).json({ message: "Withdrawal not found" });
+      }
+      if (existing.status !== "pending") {
+        return res.status(400).json({ message: "Only pending withdrawals can be cancelled" });
+      }
+      
+      const withdrawal = await storage.updateWithdrawalStatus(existing.id, "cancelled", req.session.userId!, "Cancelled by client");
+      res.json(withdrawal);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel withdrawal" });
+    }
+  });
+
+  // Get status history of a withdrawal
+  app.get("/api/withdrawals/:id/events", requireAuth, async (req, res) => {
+    try {
+      const withdrawal = await storage.getWithdrawalById(req.params.id);
+      if (!withdrawal || (req.session.role !== "admin" && withdrawal.clientId !== req.session.userId)) {
+        return res.status(404).json({ message: "Withdrawal not found" });
+      }
+      
+      const events = await storage.getWithdrawalEvents(withdrawal.id);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payout Batches (admin only)
+  // List payout batches
+  app.get("/api/payout-batches", requireAdmin, async (req, res) => {
+    try {
+      const batches = await storage.getAllPayoutBatches();
+      res.json(batches);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Group approved withdrawals into a batch
+  app.post("/api/payout-batches", requireAdmin, async (req, res) => {
+    try {
+      const { withdrawalIds } = createPayoutBatchSchema.parse(req.body);
+      const batch = await storage.createPayoutBatch(withdrawalIds, req.session.userId!);
+      res.status(201).json(batch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create payout batch" });
+    }
+  });
+
+  // Get a batch with its withdrawals
+  app.get("/api/payout-batches/:id", requireAdmin, async (req, res) => {
+    try {
+      const batch = await storage.getPayoutBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      
+      const batchWithdrawals = await storage.getWithdrawalsByBatch(batch.id);
+      res.json({ ...batch, withdrawals: batchWithdrawals });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Export a batch as a bank bulk-transfer CSV
+  app.get("/api/payout-batches/:id/export", requireAdmin, async (req, res) => {
+    try {
+      const batch = await storage.getPayoutBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      
+      const batchWithdrawals = await storage.getWithdrawalsByBatch(batch.id);
+      const rows = await Promise.all(batchWithdrawals.map(async (withdrawal) => ({
+        withdrawal,
+        client: await storage.getUserById(withdrawal.clientId),
+        method: withdrawal.payoutMethodId ? await storage.getPayoutMethodById(withdrawal.payoutMethodId) : null,
+      })));
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${batch.reference}.csv"`);
+      res.send(buildPayoutCsv(batch, rows));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Mark every withdrawal in a batch as paid
+  app.post("/api/payout-batches/:id/mark-paid", requireAdmin, async (req, res) => {
+    try {
+      const batch = await storage.markPayoutBatchPaid(req.params.id, req.session.userId!);
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      res.json(batch);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to mark batch as paid" });
+    }
+  });
+
   // User Profile Management
   // Update password
   app.put("/api/profile/password", requireAuth, async (req, res) => {
     try {
-      const passwordData = updatePasswordSchema.parse(req.body);
+      // Admin passwords have to meet the stronger policy
+      const passwordSchema = req.session.role === "admin" ? updateAdminPasswordSchema : updatePasswordSchema;
+      const passwordData = passwordSchema.parse(req.body);
       const success = await storage.updateUserPassword(
         req.session.userId!,
         passwordData.currentPassword,
@@ -498,6 +1510,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!success) {
         return res.status(400).json({ message: "Current password is incorrect" });
       }
+      delete req.session.mustChangePassword;
+
+      // The old password no longer works anywhere: sign out other browsers and drop reset codes
+      const others = (await storage.getUserSessions(req.session.userId!)).filter(record => record.sid !== req.sessionID);
+      await revokeSessions(storage, req.sessionStore, others);
+      await storage.deletePasswordResetTokens(req.session.userId!);
       
       res.json({ message: "Password updated successfully" });
     } catch (error) {
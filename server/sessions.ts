@@ -0,0 +1,129 @@
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import MemoryStore from "memorystore";
+import type { Request } from "express";
+import type { ActiveSession, User, UserSession } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// lastSeenAt is written at most once a minute per session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Sessions live in Postgres whenever there is a database, so restarts and
+// extra instances keep everyone signed in. Only the in-memory dev setup
+// falls back to memorystore.
+export function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "session",
+      createTableIfMissing: true,
+    });
+  }
+  const MemStore = MemoryStore(session);
+  return new MemStore({ checkPeriod: SESSION_MAX_AGE_MS });
+}
+
+// Rough "Browser on OS" label for the session list
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = [
+    ["Edg/", "Edge"],
+    ["OPR/", "Opera"],
+    ["Chrome/", "Chrome"],
+    ["Firefox/", "Firefox"],
+    ["Safari/", "Safari"],
+  ].find(([token]) => userAgent.includes(token))?.[1];
+  const os = [
+    ["Android", "Android"],
+    ["iPhone", "iOS"],
+    ["iPad", "iOS"],
+    ["Windows", "Windows"],
+    ["Mac OS", "macOS"],
+    ["Linux", "Linux"],
+  ].find(([token]) => userAgent.includes(token))?.[1];
+  if (!browser && !os) return "Unknown device";
+  return [browser || "Browser", os && `on ${os}`].filter(Boolean).join(" ");
+}
+
+// Sign the user in on a fresh session id and record the device it belongs to
+export async function startUserSession(storage: IStorage, req: Request, user: User): Promise<void> {
+  // Signing in again from the same browser replaces its previous session
+  await storage.deleteUserSessions([req.sessionID]);
+  await new Promise<void>((resolve, reject) => req.session.regenerate(err => err ? reject(err) : resolve()));
+  req.session.userId = user.id;
+  req.session.role = user.role;
+  if (user.mustChangePassword) {
+    req.session.mustChangePassword = true;
+  }
+  await storage.createUserSession({
+    sid: req.sessionID,
+    userId: user.id,
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+  });
+}
+
+// How long the password step stays valid while waiting for the second factor
+const TWO_FACTOR_WINDOW_MS = 5 * 60 * 1000;
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Password accepted but a code (or enrolment) is still owed: the session
+// only remembers who is signing in, it is not authenticated yet
+export async function startPendingTwoFactor(storage: IStorage, req: Request, user: User, setup: boolean): Promise<void> {
+  await storage.deleteUserSessions([req.sessionID]);
+  await new Promise<void>((resolve, reject) => req.session.regenerate(err => err ? reject(err) : resolve()));
+  req.session.pendingTwoFactor = { userId: user.id, setup, attempts: 0, expiresAt: Date.now() + TWO_FACTOR_WINDOW_MS };
+}
+
+export function pendingTwoFactorUserId(req: Request, setup: boolean): string | null {
+  const pending = req.session.pendingTwoFactor;
+  if (!pending || pending.setup !== setup || pending.expiresAt < Date.now()) return null;
+  return pending.userId;
+}
+
+// False once the session has been revoked; otherwise notes the activity
+export async function checkUserSession(storage: IStorage, req: Request): Promise<boolean> {
+  const record = await storage.getUserSession(req.sessionID);
+  if (!record || record.userId !== req.session.userId) return false;
+  if (Date.now() - record.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    await storage.touchUserSession(record.sid);
+  }
+  return true;
+}
+
+// Drop the records and the stored sessions, so revoked browsers are signed
+// out on their very next request
+export async function revokeSessions(storage: IStorage, store: session.Store, sessions: UserSession[]): Promise<void> {
+  await storage.deleteUserSessions(sessions.map(record => record.sid));
+  await Promise.all(sessions.map(record => new Promise<void>(resolve => store.destroy(record.sid, () => resolve()))));
+}
+
+// A user's sessions, newest activity first. Records idle for longer than a
+// session can live are cleaned up on the way.
+export async function listActiveSessions(
+  storage: IStorage,
+  store: session.Store,
+  userId: string,
+  currentSid?: string
+): Promise<ActiveSession[]> {
+  const records = await storage.getUserSessions(userId);
+  const cutoff = Date.now() - SESSION_MAX_AGE_MS;
+  const expired = records.filter(record => record.lastSeenAt.getTime() < cutoff);
+  if (expired.length > 0) {
+    await revokeSessions(storage, store, expired);
+  }
+
+  return records
+    .filter(record => !expired.includes(record))
+    .map(record => ({
+      id: record.id,
+      device: describeDevice(record.userAgent),
+      ipAddress: record.ipAddress,
+      createdAt: record.createdAt,
+      lastSeenAt: record.lastSeenAt,
+      current: record.sid === currentSid,
+    }));
+}
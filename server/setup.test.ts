@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { completeSetup } from "./setup";
+
+process.env.SETUP_CODE = "abcd-1234-ef56";
+
+const owner = (username: string) => ({
+  setupCode: "abcd-1234-ef56",
+  currency: "INR" as const,
+  companyName: "Acme Networks",
+  logoUrl: "",
+  upiPayeeVpa: "",
+  upiPayeeName: "",
+  name: `Owner ${username}`,
+  username,
+  email: `${username}@example.com`,
+  password: "Owner-password-1",
+  confirmPassword: "Owner-password-1",
+});
+
+test("simultaneous setup requests create a single owner", async () => {
+  const storage = new MemStorage();
+
+  const results = await Promise.allSettled([completeSetup(storage, owner("first")), completeSetup(storage, owner("second"))]);
+
+  assert.equal(results.filter(result => result.status === "fulfilled").length, 1);
+  const admins = (await storage.getAllUsers()).filter(user => user.role === "admin");
+  assert.equal(admins.length, 1);
+  await assert.rejects(completeSetup(storage, owner("third")), /already been completed/);
+});
+
+test("createFirstAdmin lets only one of several instances through", async () => {
+  const storage = new MemStorage();
+
+  const created = await Promise.all(
+    ["one", "two", "three"].map(username => storage.createFirstAdmin({ username, password: "Owner-password-1", role: "admin" }))
+  );
+
+  assert.equal(created.filter(Boolean).length, 1);
+  assert.equal((await storage.getAllUsers()).filter(user => user.role === "admin").length, 1);
+});
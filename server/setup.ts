@@ -0,0 +1,125 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import bcrypt from "bcrypt";
+import type { AppSettings, AppSettingsUpdate, OrganizationSettingsRequest, SetupRequest, SetupStatus, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Installs used to be seeded with admin/admin123. Admins still on it are made
+// to pick a new password at their next login.
+const LEGACY_DEFAULT_PASSWORD = "admin123";
+
+// Once an admin exists setup is never needed again, so that answer is cached
+let setupComplete = false;
+let setupInProgress = false;
+let setupCode: string | null = null;
+
+export async function isSetupRequired(storage: IStorage): Promise<boolean> {
+  if (!setupComplete) {
+    setupComplete = await storage.hasAdminUser();
+  }
+  return !setupComplete;
+}
+
+// One-time code for claiming a fresh install, shown only in the server log.
+// SETUP_CODE pins it when several instances serve the app.
+function currentSetupCode(): string {
+  if (!setupCode) {
+    setupCode = process.env.SETUP_CODE || randomBytes(6).toString("hex").replace(/(.{4})(?!$)/g, "$1-");
+  }
+  return setupCode;
+}
+
+function normalizeCode(code: string): Buffer {
+  return Buffer.from(code.trim().toLowerCase().replace(/[\s-]/g, ""));
+}
+
+function setupCodeMatches(code: string): boolean {
+  const given = normalizeCode(code);
+  const expected = normalizeCode(currentSetupCode());
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Run at startup: a fresh install announces its setup code, an existing one
+// flags admins who never changed the old default password
+export async function prepareInstallation(storage: IStorage): Promise<void> {
+  if (await isSetupRequired(storage)) {
+    console.log(`First-run setup required: open the app and enter setup code ${currentSetupCode()}`);
+    return;
+  }
+
+  const admins = (await storage.getAllUsers()).filter(user => user.role === "admin" && !user.mustChangePassword);
+  for (const admin of admins) {
+    if (await bcrypt.compare(LEGACY_DEFAULT_PASSWORD, admin.password)) {
+      await storage.setMustChangePassword(admin.id, true);
+      console.log(`Admin "${admin.username}" still uses the default password and must change it at next login`);
+    }
+  }
+}
+
+export async function getSetupStatus(storage: IStorage): Promise<SetupStatus> {
+  const settings = await storage.getAppSettings();
+  return {
+    required: await isSetupRequired(storage),
+    companyName: settings.companyName,
+    logoUrl: settings.logoUrl,
+    currency: settings.currency,
+  };
+}
+
+function toOrganizationUpdate(organization: OrganizationSettingsRequest): AppSettingsUpdate {
+  return {
+    companyName: organization.companyName,
+    logoUrl: organization.logoUrl || null,
+    upiPayeeVpa: organization.upiPayeeVpa || null,
+    upiPayeeName: organization.upiPayeeName || null,
+  };
+}
+
+// Create the owner account and record the organisation. Returns the owner,
+// who is signed in straight away.
+export async function completeSetup(storage: IStorage, input: SetupRequest): Promise<User> {
+  if (setupInProgress) {
+    throw new Error("Setup is already in progress");
+  }
+  // Claimed before the first await, so a second request here is turned away;
+  // other instances are stopped by createFirstAdmin
+  setupInProgress = true;
+  try {
+    if (!(await isSetupRequired(storage))) {
+      throw new Error("Setup has already been completed");
+    }
+    if (!setupCodeMatches(input.setupCode)) {
+      throw new Error("Incorrect setup code");
+    }
+
+    const owner = await storage.createFirstAdmin({ username: input.username, password: input.password, role: "admin" });
+    if (!owner) {
+      setupComplete = true;
+      throw new Error("Setup has already been completed");
+    }
+    await storage.updateUserProfile(owner.id, { name: input.name, email: input.email });
+    await storage.updateAppSettings({
+      ...toOrganizationUpdate(input),
+      currency: input.currency,
+      setupCompletedAt: new Date(),
+    }, owner.id);
+
+    // The default plans were seeded before the currency was chosen
+    for (const plan of await storage.getAllPlans()) {
+      if (plan.currency !== input.currency) {
+        await storage.updatePlan(plan.id, { currency: input.currency });
+      }
+    }
+
+    setupComplete = true;
+    setupCode = null;
+    return (await storage.getUser(owner.id))!;
+  } finally {
+    setupInProgress = false;
+  }
+}
+
+// Company details can change after setup; the currency cannot, since every
+// amount already recorded is in it
+export async function updateOrganization(storage: IStorage, organization: OrganizationSettingsRequest, updatedBy: string): Promise<AppSettings> {
+  return await storage.updateAppSettings(toOrganizationUpdate(organization), updatedBy);
+}
@@ -0,0 +1,29 @@
+import type { SponsorTreeNode } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Cap how far the sponsor tree is expanded in one response
+export const MAX_SPONSOR_TREE_DEPTH = 10;
+
+// Build the tree of who recruited whom from the given member down. This
+// follows sponsorId, not the placement parent, so spillover members appear
+// under their recruiter.
+export async function buildSponsorTree(
+  storage: IStorage,
+  rootId: string,
+  maxDepth = MAX_SPONSOR_TREE_DEPTH
+): Promise<SponsorTreeNode | null> {
+  const root = await storage.getUserById(rootId);
+  if (!root) return null;
+
+  const expand = async (userId: string, depth: number): Promise<SponsorTreeNode[]> => {
+    if (depth >= maxDepth) return [];
+    const referrals = await storage.getClientsBySponsor(userId);
+    return Promise.all(referrals.map(async ({ password: _, ...user }) => ({
+      user,
+      referrals: await expand(user.id, depth + 1),
+    })));
+  };
+
+  const { password: _, ...user } = root;
+  return { user, referrals: await expand(root.id, 0) };
+}
@@ -2,27 +2,96 @@ import {
   type User, 
   type InsertUser, 
   type CreateClientRequest, 
+  type PaidClientRequest,
   type Plan, 
   type InsertPlan, 
   type UpdatePlan,
+  type ClientStats,
+  type SubtreeStats,
+  type DeletionPolicy,
+  type DeletionPlan,
+  type ClientHistory,
   type Report,
   type CreateReportRequest,
   type Earning,
   type Withdrawal,
   type CreateWithdrawalRequest,
+  type PayoutMethod,
+  type CreatePayoutMethodRequest,
+  type BinaryVolume,
+  type PairFlush,
+  type InsertPairFlush,
+  type PlacementChange,
+  type UserSession,
+  type InsertUserSession,
+  type TwoFactorSettings,
+  type InsertTwoFactorSettings,
+  type AppSettings,
+  type AppSettingsUpdate,
+  type LoginThrottle,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type LoginEvent,
+  type InsertLoginEvent,
+  type SubtreeMovePlan,
+  type LedgerEntry,
+  type InsertLedgerEntry,
+  type WithdrawalEvent,
+  type PayoutBatch,
+  type PaymentIntent,
+  type InsertPaymentIntent,
   type UpdatePasswordRequest,
   type UpdateProfileRequest,
   users, 
   plans,
   reports,
   earnings,
-  withdrawals
+  withdrawals,
+  payoutMethods,
+  binaryVolumes,
+  pairFlushes,
+  placementChanges,
+  userSessions,
+  twoFactorSettings,
+  appSettings,
+  loginThrottles,
+  loginEvents,
+  passwordResetTokens,
+  ledgerEntries,
+  withdrawalEvents,
+  payoutBatches,
+  paymentIntents
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
-import { drizzle } from "drizzle-orm/postgres-js";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, sql, inArray, isNull, or, lt, lte } from "drizzle-orm";
+import { creditJoiningCommissions } from "./commissions";
+import { assertPurchasablePlan, buildClientStats } from "./plans";
+import { allocateSlot, type Placement } from "./placement";
+import { emptyBinaryVolume } from "./pairing";
+import { buildSubtreeStats, type LegCounts, type LegSummary } from "./genealogy";
+import { planClientDeletion, assertDeletionAllowed } from "./deletion";
+import { DEFAULT_CURRENCY } from "@shared/money";
+import {
+  type WalletBalance,
+  assertBalanced,
+  computeWalletBalance,
+  earningCreditEntries,
+  withdrawalHoldEntries,
+  withdrawalStatusEntries,
+  insufficientBalanceError
+} from "./wallet";
+import { assertWithdrawalTransition, assertBatchable, generateBatchReference } from "./payouts";
+import { assertApprovablePayoutMethod, assertUsablePayoutMethod, describePayoutMethod } from "./payout-methods";
+import { calculateDeductions, assertNetPayable } from "./deductions";
+
+type Transaction = Parameters<Parameters<PostgresJsDatabase["transaction"]>[0]>[0];
+type Database = PostgresJsDatabase | Transaction;
+
+// A subtree move planned against the locked tree, with the volumes it leaves behind
+export type PreparedMove = { plan: SubtreeMovePlan; volumes: BinaryVolume[] };
 
 export interface IStorage {
   // User management
@@ -31,19 +100,76 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   createClient(client: CreateClientRequest, createdById?: string): Promise<User>;
-  createClientWithPayment(client: CreateClientRequest, createdById?: string): Promise<User>;
-  deleteClient(id: string): Promise<boolean>;
+  createClientWithPayment(client: PaidClientRequest, createdById?: string): Promise<User>;
+  deleteClient(id: string, policy: DeletionPolicy): Promise<DeletionPlan | null>;
+  getClientHistory(clientId: string): Promise<ClientHistory>;
   updateUserPassword(userId: string, currentPassword: string, newPassword: string): Promise<boolean>;
+  // Sets a new password without the current one, after a reset code was checked
+  resetUserPassword(userId: string, newPassword: string): Promise<void>;
   updateUserProfile(userId: string, profile: UpdateProfileRequest): Promise<User | null>;
   
   // Authentication
   validateUser(username: string, password: string, role: string): Promise<User | null>;
+  hasAdminUser(): Promise<boolean>;
+  // Creates the admin only while there is none; null when another request got there first
+  createFirstAdmin(owner: InsertUser): Promise<User | null>;
+  setMustChangePassword(userId: string, mustChange: boolean): Promise<void>;
+
+  // Signed-in sessions
+  createUserSession(session: InsertUserSession): Promise<UserSession>;
+  getUserSession(sid: string): Promise<UserSession | null>;
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  touchUserSession(sid: string): Promise<void>;
+  deleteUserSessions(sids: string[]): Promise<void>;
+
+  // Two-factor authentication and installation settings
+  getTwoFactorSettings(userId: string): Promise<TwoFactorSettings | null>;
+  saveTwoFactorSettings(settings: InsertTwoFactorSettings): Promise<TwoFactorSettings>;
+  deleteTwoFactorSettings(userId: string): Promise<void>;
+  // Both return false when a concurrent request already used the step or code
+  claimTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  getAppSettings(): Promise<AppSettings>;
+  updateAppSettings(update: AppSettingsUpdate, updatedBy: string): Promise<AppSettings>;
+
+  // Login throttling and history
+  getLoginThrottles(keys: string[]): Promise<LoginThrottle[]>;
+  // Counts one more failure, starting over when the last one is older than resetBefore
+  incrementLoginFailures(key: string, resetBefore: Date): Promise<LoginThrottle>;
+  // Never shortens a block that is already longer
+  blockLogin(key: string, until: Date): Promise<void>;
+  deleteLoginThrottle(key: string): Promise<void>;
+  createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent>;
+  getLoginEvents(userId: string, limit: number): Promise<LoginEvent[]>;
+
+  // Password reset codes; a user has at most one
+  replacePasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetToken(userId: string): Promise<PasswordResetToken | null>;
+  // Counts one guess and returns the new count, or null once maxAttempts guesses have been made
+  claimPasswordResetAttempt(id: string, maxAttempts: number): Promise<number | null>;
+  // False if the code was already used or guessed at too often, so it cannot be redeemed
+  markPasswordResetTokenUsed(id: string, maxAttempts: number): Promise<boolean>;
+  deletePasswordResetTokens(userId: string): Promise<void>;
   
   // Hierarchical operations
   getAllClients(): Promise<User[]>;
+  getAllUsers(): Promise<User[]>;
   getClientsByParent(parentId: string): Promise<User[]>;
+  getClientsBySponsor(sponsorId: string): Promise<User[]>;
   getClientDownline(clientId: string): Promise<User[]>;
+  getSubtreeStats(clientId: string): Promise<SubtreeStats>;
+  getDownlineWindow(clientId: string, maxDepth: number): Promise<User[]>;
+  getLegCounts(clientIds: string[]): Promise<Map<string, LegCounts>>;
   getAvailablePositions(parentId: string): Promise<("left" | "right")[]>;
+  // Locks the target parent, then has prepare plan the move against the locked
+  // tree, so checks made before the lock are repeated under it
+  moveSubtree(
+    parentId: string,
+    prepare: (storage: IStorage) => Promise<PreparedMove>,
+    movedBy: string,
+    reason?: string
+  ): Promise<PreparedMove & { change: PlacementChange }>;
+  getPlacementChanges(userId?: string): Promise<PlacementChange[]>;
   
   // Plans management
   getAllPlans(): Promise<Plan[]>;
@@ -60,22 +186,56 @@ export interface IStorage {
   
   // Earnings management
   getEarningsByClient(clientId: string): Promise<Earning[]>;
-  createEarning(clientId: string, type: string, amount: string, description: string, fromClientId?: string): Promise<Earning>;
-  getTotalEarnings(clientId: string): Promise<string>;
+  // The currency defaults to the installation's
+  createEarning(clientId: string, type: string, amount: number, description: string, fromClientId?: string, currency?: string): Promise<Earning>;
+  getTotalEarnings(clientId: string): Promise<number>;
+  
+  // Binary pairing
+  getBinaryVolume(clientId: string): Promise<BinaryVolume | null>;
+  // Read for changing during a join: the row stays locked until the join commits
+  getBinaryVolumeForUpdate(clientId: string): Promise<BinaryVolume>;
+  saveBinaryVolume(volume: BinaryVolume): Promise<BinaryVolume>;
+  recordPairFlush(flush: InsertPairFlush): Promise<PairFlush>;
+  getPairFlushesByClient(clientId: string): Promise<PairFlush[]>;
+  
+  // Wallet ledger
+  postLedgerEntries(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]>;
+  getLedgerEntriesByClient(clientId: string): Promise<LedgerEntry[]>;
+  getWalletBalance(clientId: string): Promise<WalletBalance>;
+  
+  // Payout methods
+  createPayoutMethod(clientId: string, method: CreatePayoutMethodRequest): Promise<PayoutMethod>;
+  getPayoutMethodsByClient(clientId: string): Promise<PayoutMethod[]>;
+  getAllPayoutMethods(): Promise<PayoutMethod[]>;
+  getPayoutMethodById(id: string): Promise<PayoutMethod | null>;
+  setPayoutMethodVerified(id: string, isVerified: boolean, adminId: string): Promise<PayoutMethod | null>;
+  removePayoutMethod(id: string): Promise<boolean>;
   
   // Withdrawals management
   createWithdrawal(clientId: string, withdrawal: CreateWithdrawalRequest): Promise<Withdrawal>;
   getWithdrawalsByClient(clientId: string): Promise<Withdrawal[]>;
   getAllWithdrawals(): Promise<Withdrawal[]>;
-  updateWithdrawalStatus(withdrawalId: string, status: string, adminNotes?: string): Promise<Withdrawal | null>;
+  getWithdrawalById(id: string): Promise<Withdrawal | null>;
+  updateWithdrawalStatus(withdrawalId: string, status: string, actorId: string, adminNotes?: string): Promise<Withdrawal | null>;
+  getWithdrawalEvents(withdrawalId: string): Promise<WithdrawalEvent[]>;
+  
+  // Payment intents
+  createPaymentIntent(intent: InsertPaymentIntent): Promise<PaymentIntent>;
+  getPaymentIntent(id: string): Promise<PaymentIntent | null>;
+  getPaymentIntentByOrderId(provider: string, providerOrderId: string): Promise<PaymentIntent | null>;
+  settlePaymentIntent(id: string, status: "paid" | "failed", providerPaymentId: string | null, failureReason?: string): Promise<PaymentIntent | null>;
+  // No-op (null) once a client is linked, so a late failure cannot unlink it
+  updatePaymentIntentResult(id: string, clientId: string | null, failureReason?: string): Promise<PaymentIntent | null>;
+  
+  // Payout batches
+  createPayoutBatch(withdrawalIds: string[], adminId: string): Promise<PayoutBatch>;
+  getAllPayoutBatches(): Promise<PayoutBatch[]>;
+  getPayoutBatch(id: string): Promise<PayoutBatch | null>;
+  getWithdrawalsByBatch(batchId: string): Promise<Withdrawal[]>;
+  markPayoutBatchPaid(id: string, adminId: string): Promise<PayoutBatch | null>;
   
   // Statistics
-  getClientStats(): Promise<{
-    total: number;
-    silver: number;
-    gold: number;
-    diamond: number;
-  }>;
+  getClientStats(): Promise<ClientStats>;
 }
 
 export class MemStorage implements IStorage {
@@ -84,6 +244,24 @@ export class MemStorage implements IStorage {
   private reports: Map<string, Report>;
   private earnings: Map<string, Earning>;
   private withdrawals: Map<string, Withdrawal>;
+  private payoutMethods: Map<string, PayoutMethod>;
+  private binaryVolumes: Map<string, BinaryVolume>;
+  private pairFlushes: PairFlush[];
+  private placementChanges: PlacementChange[];
+  private userSessions: Map<string, UserSession>;
+  private twoFactorSettings: Map<string, TwoFactorSettings>;
+  private appSettings: AppSettings;
+  private loginThrottles: Map<string, LoginThrottle>;
+  private loginEvents: LoginEvent[];
+  private passwordResetTokens: Map<string, PasswordResetToken>;
+  private ledgerEntries: LedgerEntry[];
+  private withdrawalEvents: WithdrawalEvent[];
+  private payoutBatches: Map<string, PayoutBatch>;
+  private paymentIntents: Map<string, PaymentIntent>;
+  // Joins and subtree moves run one at a time, standing in for PostgreSQL's
+  // transaction and row locks. Other writes can still take a slot, so the claim
+  // is checked regardless.
+  private joinQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.users = new Map();
@@ -91,31 +269,34 @@ export class MemStorage implements IStorage {
     this.reports = new Map();
     this.earnings = new Map();
     this.withdrawals = new Map();
-    this.initializeAdminUser();
+    this.payoutMethods = new Map();
+    this.binaryVolumes = new Map();
+    this.pairFlushes = [];
+    this.placementChanges = [];
+    this.userSessions = new Map();
+    this.twoFactorSettings = new Map();
+    this.appSettings = {
+      id: "default",
+      requireAdminTwoFactor: false,
+      companyName: null,
+      logoUrl: null,
+      currency: DEFAULT_CURRENCY,
+      upiPayeeVpa: null,
+      upiPayeeName: null,
+      setupCompletedAt: null,
+      updatedBy: null,
+      updatedAt: new Date(),
+    };
+    this.loginThrottles = new Map();
+    this.loginEvents = [];
+    this.passwordResetTokens = new Map();
+    this.ledgerEntries = [];
+    this.withdrawalEvents = [];
+    this.payoutBatches = new Map();
+    this.paymentIntents = new Map();
     this.initializePlans();
   }
 
-  private async initializeAdminUser() {
-    const adminExists = Array.from(this.users.values()).some(user => user.role === "admin");
-    if (!adminExists) {
-      const hashedPassword = await bcrypt.hash("admin123", 10);
-      const admin: User = {
-        id: randomUUID(),
-        name: "System Admin",
-        username: "admin",
-        password: hashedPassword,
-        email: "admin@nappinghand.com",
-        mobile: null,
-        role: "admin",
-        package: null,
-        parentId: null,
-        position: null,
-        createdAt: new Date(),
-      };
-      this.users.set(admin.id, admin);
-    }
-  }
-
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -131,119 +312,148 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const hashedPassword = await bcrypt.hash(insertUser.password, 10);
-    const id = randomUUID();
-    const user: User = { 
-      id,
+    const user = this.newUser(insertUser, await bcrypt.hash(insertUser.password, 10));
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  // Checked and inserted in one synchronous step once the password is hashed
+  async createFirstAdmin(owner: InsertUser): Promise<User | null> {
+    const user = this.newUser({ ...owner, role: "admin" }, await bcrypt.hash(owner.password, 10));
+    if (Array.from(this.users.values()).some(existing => existing.role === "admin")) {
+      return null;
+    }
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  private newUser(insertUser: InsertUser, hashedPassword: string): User {
+    return {
+      id: randomUUID(),
       name: null,
       email: null,
       mobile: null,
+      pan: null,
       username: insertUser.username,
       password: hashedPassword,
       role: insertUser.role || "client",
-      package: insertUser.package || null,
+      planId: insertUser.planId || null,
+      sponsorId: insertUser.sponsorId || null,
       parentId: insertUser.parentId || null,
       position: insertUser.position || null,
+      status: "active",
+      deactivatedAt: null,
+      mustChangePassword: false,
       createdAt: new Date(),
     };
-    this.users.set(id, user);
-    return user;
   }
 
   async createClient(client: CreateClientRequest, createdById?: string): Promise<User> {
+    assertPurchasablePlan(await this.getPlanById(client.planId));
     const hashedPassword = await bcrypt.hash(client.password, 10);
-    const id = randomUUID();
-    
-    // Ensure parentId is set (fallback to createdById if not provided)
-    const parentId = client.parentId || createdById;
-    
-    // If parentId is provided, find available position
-    let position: string | null = null;
-    if (parentId) {
-      const availablePositions = await this.getAvailablePositions(parentId);
-      if (availablePositions.length === 0) {
-        throw new Error("Parent already has 2 children");
-      }
-      position = client.position || availablePositions[0];
-    }
-
-    const user: User = {
-      id,
+    return await this.joinClient(client, createdById, (sponsorId, placement) => ({
+      id: randomUUID(),
       name: client.name || null,
       username: client.username,
       password: hashedPassword,
       email: client.email || null,
       mobile: client.mobile || null,
+      pan: null,
       role: "client",
-      package: client.package,
-      parentId: parentId || null,
-      position: position,
+      planId: client.planId,
+      sponsorId,
+      parentId: placement?.parentId || null,
+      position: placement?.position || null,
+      status: "active",
+      deactivatedAt: null,
+      mustChangePassword: false,
       createdAt: new Date(),
-    };
-    
-    this.users.set(id, user);
-    return user;
+    }));
   }
 
   // Enhanced client creation with payment confirmation and binary tree logic
-  async createClientWithPayment(client: CreateClientRequest, adminId?: string): Promise<User> {
-    const hashedPassword = await bcrypt.hash(client.password, 10);
-    const id = randomUUID();
-    
-    // Binary tree insertion logic
-    let parentId = client.parentId || adminId;
-    let position: string | null = null;
-    
-    if (parentId) {
-      // Find available position under the specified parent
-      const availablePositions = await this.getAvailablePositions(parentId);
-      
-      if (availablePositions.length === 0) {
-        // Parent has no available positions, find the first available spot in the tree
-        const allClients = await this.getAllClients();
-        
-        for (const potentialParent of allClients) {
-          const availablePos = await this.getAvailablePositions(potentialParent.id);
-          if (availablePos.length > 0) {
-            parentId = potentialParent.id;
-            position = availablePos[0]; // Take the first available position
-            break;
-          }
-        }
-        
-        // If still no position found, make them a direct client under admin
-        if (!position && adminId) {
-          parentId = adminId;
-          const adminPositions = await this.getAvailablePositions(adminId);
-          position = adminPositions.length > 0 ? adminPositions[0] : null;
-        }
-      } else {
-        // Assign to the first available position
-        position = availablePositions[0];
-      }
-    }
-
-    const user: User = {
-      id,
+  async createClientWithPayment(client: PaidClientRequest, adminId?: string): Promise<User> {
+    return await this.joinClient(client, adminId, (sponsorId, placement) => ({
+      id: randomUUID(),
       name: client.name || null,
       username: client.username,
-      password: hashedPassword,
+      password: client.passwordHash,
       email: client.email || null,
       mobile: client.mobile || null,
+      pan: null,
       role: "client",
-      package: client.package,
-      parentId: parentId || null,
-      position: position || null,
+      planId: client.planId,
+      sponsorId,
+      parentId: placement?.parentId || null,
+      position: placement?.position || null,
+      status: "active",
+      deactivatedAt: null,
+      mustChangePassword: false,
       createdAt: new Date(),
-    };
-    
-    this.users.set(id, user);
+    }));
+  }
+
+  // Placement, the slot claim and the joining commissions as one step. A join
+  // that fails part way is undone, so no client is left with half its commissions.
+  private joinClient(
+    request: Pick<CreateClientRequest, "sponsorId" | "parentId" | "position" | "placementStrategy">,
+    createdById: string | undefined,
+    build: (sponsorId: string | null, placement: Placement | null) => User
+  ): Promise<User> {
+    const join = this.joinQueue.then(async () => {
+      const user = await allocateSlot(this, request, createdById, async (sponsorId, placement) => this.insertIntoFreeSlot(build(sponsorId, placement)));
+      const volumesBefore = new Map(Array.from(this.binaryVolumes, ([id, volume]) => [id, { ...volume }]));
+      try {
+        await creditJoiningCommissions(this, user);
+      } catch (error) {
+        this.undoJoin(user, volumesBefore);
+        throw error;
+      }
+      return user;
+    });
+    this.joinQueue = join.catch(() => undefined);
+    return join;
+  }
+
+  // Check and claim the slot in one synchronous step so interleaved requests
+  // cannot both take it, mirroring the unique index in PostgreSQL
+  private insertIntoFreeSlot(user: User): User | null {
+    if (user.parentId && Array.from(this.users.values()).some(u => u.parentId === user.parentId && u.position === user.position)) {
+      return null;
+    }
+    this.users.set(user.id, user);
     return user;
   }
 
+  // Everything a join writes points back at the joiner, or is the upline's volume
+  private undoJoin(user: User, volumesBefore: Map<string, BinaryVolume>): void {
+    const earningIds = new Set<string>();
+    for (const earning of Array.from(this.earnings.values())) {
+      if (earning.fromClientId === user.id) {
+        earningIds.add(earning.id);
+        this.earnings.delete(earning.id);
+      }
+    }
+    this.ledgerEntries = this.ledgerEntries.filter(entry => !(entry.entryType === "earning" && entry.referenceId && earningIds.has(entry.referenceId)));
+    this.pairFlushes = this.pairFlushes.filter(flush => flush.fromClientId !== user.id);
+
+    const visited = new Set<string>();
+    for (let parentId = user.parentId; parentId && !visited.has(parentId); parentId = this.users.get(parentId)?.parentId || null) {
+      visited.add(parentId);
+      const before = volumesBefore.get(parentId);
+      if (before) {
+        this.binaryVolumes.set(parentId, before);
+      } else {
+        this.binaryVolumes.delete(parentId);
+      }
+    }
+    this.users.delete(user.id);
+  }
+
   async validateUser(username: string, password: string, role: string): Promise<User | null> {
     const user = await this.getUserByUsername(username);
-    if (!user || user.role !== role) {
+    // Deactivated users can no longer sign in
+    if (!user || user.role !== role || user.status !== "active") {
       return null;
     }
     
@@ -251,14 +461,31 @@ export class MemStorage implements IStorage {
     return isValid ? user : null;
   }
 
+  async hasAdminUser(): Promise<boolean> {
+    return Array.from(this.users.values()).some(user => user.role === "admin");
+  }
+
+  async setMustChangePassword(userId: string, mustChange: boolean): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) user.mustChangePassword = mustChange;
+  }
+
   async getAllClients(): Promise<User[]> {
     return Array.from(this.users.values()).filter(user => user.role === "client");
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getClientsByParent(parentId: string): Promise<User[]> {
     return Array.from(this.users.values()).filter(user => user.parentId === parentId);
   }
 
+  async getClientsBySponsor(sponsorId: string): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.sponsorId === sponsorId);
+  }
+
   async getClientDownline(clientId: string): Promise<User[]> {
     const downline: User[] = [];
     const directChildren = await this.getClientsByParent(clientId);
@@ -272,6 +499,45 @@ export class MemStorage implements IStorage {
     return downline;
   }
 
+  async getSubtreeStats(clientId: string): Promise<SubtreeStats> {
+    const legs = new Map<string | null, LegSummary>();
+    // Walk level by level, remembering which of the root's legs each member sits in
+    let level = (await this.getClientsByParent(clientId)).map(child => ({ user: child, leg: child.position }));
+    for (let depth = 1; level.length > 0; depth++) {
+      const next: typeof level = [];
+      for (const { user, leg } of level) {
+        const summary = legs.get(leg) || { leg, count: 0, depth: 0 };
+        legs.set(leg, { leg, count: summary.count + 1, depth });
+        next.push(...(await this.getClientsByParent(user.id)).map(child => ({ user: child, leg })));
+      }
+      level = next;
+    }
+    return buildSubtreeStats(clientId, Array.from(legs.values()), await this.getBinaryVolume(clientId));
+  }
+
+  async getDownlineWindow(clientId: string, maxDepth: number): Promise<User[]> {
+    const window: User[] = [];
+    let level = await this.getClientsByParent(clientId);
+    for (let depth = 1; depth <= maxDepth && level.length > 0; depth++) {
+      window.push(...level);
+      const next: User[] = [];
+      for (const member of level) {
+        next.push(...(await this.getClientsByParent(member.id)));
+      }
+      level = next;
+    }
+    return window;
+  }
+
+  async getLegCounts(clientIds: string[]): Promise<Map<string, LegCounts>> {
+    const counts = new Map<string, LegCounts>();
+    for (const clientId of clientIds) {
+      const { left, right } = await this.getSubtreeStats(clientId);
+      counts.set(clientId, { left: left.count, right: right.count });
+    }
+    return counts;
+  }
+
   async getAvailablePositions(parentId: string): Promise<("left" | "right")[]> {
     const children = await this.getClientsByParent(parentId);
     const occupiedPositions = children.map(child => child.position).filter(Boolean);
@@ -280,14 +546,228 @@ export class MemStorage implements IStorage {
     return allPositions.filter(pos => !occupiedPositions.includes(pos));
   }
 
-  async getClientStats(): Promise<{ total: number; silver: number; gold: number; diamond: number; }> {
-    const clients = await this.getAllClients();
-    return {
-      total: clients.length,
-      silver: clients.filter(c => c.package === "Silver").length,
-      gold: clients.filter(c => c.package === "Gold").length,
-      diamond: clients.filter(c => c.package === "Diamond").length,
+  moveSubtree(
+    parentId: string,
+    prepare: (storage: IStorage) => Promise<PreparedMove>,
+    movedBy: string,
+    reason?: string
+  ): Promise<PreparedMove & { change: PlacementChange }> {
+    const move = this.joinQueue.then(async () => {
+      const prepared = await prepare(this);
+      return { ...prepared, change: this.applySubtreeMove(prepared, movedBy, reason) };
+    });
+    this.joinQueue = move.catch(() => undefined);
+    return move;
+  }
+
+  private applySubtreeMove({ plan, volumes }: PreparedMove, movedBy: string, reason?: string): PlacementChange {
+    const user = this.users.get(plan.userId);
+    if (!user) {
+      throw new Error("Client not found");
+    }
+    if (Array.from(this.users.values()).some(u => u.parentId === plan.to.parentId && u.position === plan.to.position)) {
+      throw new Error(`The ${plan.to.position} position under this parent is already taken`);
+    }
+
+    user.parentId = plan.to.parentId;
+    user.position = plan.to.position;
+    for (const volume of volumes) {
+      this.binaryVolumes.set(volume.clientId, { ...volume });
+    }
+    const change: PlacementChange = {
+      id: randomUUID(),
+      userId: plan.userId,
+      fromParentId: plan.from.parentId,
+      fromPosition: plan.from.position,
+      toParentId: plan.to.parentId,
+      toPosition: plan.to.position,
+      subtreeSize: plan.subtreeSize,
+      subtreeBv: plan.subtreeBv,
+      reason: reason || null,
+      movedBy,
+      createdAt: new Date(),
     };
+    this.placementChanges.push(change);
+    return change;
+  }
+
+  async getPlacementChanges(userId?: string): Promise<PlacementChange[]> {
+    return this.placementChanges
+      .filter(change => !userId || change.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createUserSession(session: InsertUserSession): Promise<UserSession> {
+    const now = new Date();
+    const record: UserSession = {
+      id: randomUUID(),
+      sid: session.sid,
+      userId: session.userId,
+      userAgent: session.userAgent ?? null,
+      ipAddress: session.ipAddress ?? null,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+    this.userSessions.set(record.sid, record);
+    return record;
+  }
+
+  async getUserSession(sid: string): Promise<UserSession | null> {
+    return this.userSessions.get(sid) || null;
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return Array.from(this.userSessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async touchUserSession(sid: string): Promise<void> {
+    const session = this.userSessions.get(sid);
+    if (session) session.lastSeenAt = new Date();
+  }
+
+  async deleteUserSessions(sids: string[]): Promise<void> {
+    sids.forEach(sid => this.userSessions.delete(sid));
+  }
+
+  async getTwoFactorSettings(userId: string): Promise<TwoFactorSettings | null> {
+    return this.twoFactorSettings.get(userId) || null;
+  }
+
+  async saveTwoFactorSettings(settings: InsertTwoFactorSettings): Promise<TwoFactorSettings> {
+    const existing = this.twoFactorSettings.get(settings.userId);
+    const saved: TwoFactorSettings = {
+      userId: settings.userId,
+      secret: settings.secret,
+      enabledAt: settings.enabledAt ?? null,
+      recoveryCodeHashes: settings.recoveryCodeHashes ?? [],
+      lastUsedStep: settings.lastUsedStep ?? null,
+      createdAt: existing?.createdAt || new Date(),
+    };
+    this.twoFactorSettings.set(saved.userId, saved);
+    return saved;
+  }
+
+  async deleteTwoFactorSettings(userId: string): Promise<void> {
+    this.twoFactorSettings.delete(userId);
+  }
+
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const settings = this.twoFactorSettings.get(userId);
+    if (!settings || (settings.lastUsedStep !== null && settings.lastUsedStep >= step)) return false;
+    this.twoFactorSettings.set(userId, { ...settings, lastUsedStep: step });
+    return true;
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const settings = this.twoFactorSettings.get(userId);
+    if (!settings?.recoveryCodeHashes.includes(codeHash)) return false;
+    this.twoFactorSettings.set(userId, { ...settings, recoveryCodeHashes: settings.recoveryCodeHashes.filter(existing => existing !== codeHash) });
+    return true;
+  }
+
+  async getAppSettings(): Promise<AppSettings> {
+    return { ...this.appSettings };
+  }
+
+  async updateAppSettings(update: AppSettingsUpdate, updatedBy: string): Promise<AppSettings> {
+    this.appSettings = { ...this.appSettings, ...update, updatedBy, updatedAt: new Date() };
+    return { ...this.appSettings };
+  }
+
+  async getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    return keys.flatMap(key => {
+      const throttle = this.loginThrottles.get(key);
+      return throttle ? [{ ...throttle }] : [];
+    });
+  }
+
+  async incrementLoginFailures(key: string, resetBefore: Date): Promise<LoginThrottle> {
+    const existing = this.loginThrottles.get(key);
+    const throttle: LoginThrottle = {
+      key,
+      failures: existing && existing.lastFailureAt >= resetBefore ? existing.failures + 1 : 1,
+      lastFailureAt: new Date(),
+      blockedUntil: existing?.blockedUntil ?? null,
+    };
+    this.loginThrottles.set(key, throttle);
+    return { ...throttle };
+  }
+
+  async blockLogin(key: string, until: Date): Promise<void> {
+    const throttle = this.loginThrottles.get(key);
+    if (throttle && (!throttle.blockedUntil || throttle.blockedUntil < until)) {
+      throttle.blockedUntil = until;
+    }
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    this.loginThrottles.delete(key);
+  }
+
+  async createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent> {
+    const record: LoginEvent = {
+      id: randomUUID(),
+      userId: event.userId,
+      outcome: event.outcome,
+      userAgent: event.userAgent ?? null,
+      ipAddress: event.ipAddress ?? null,
+      createdAt: new Date(),
+    };
+    this.loginEvents.push(record);
+    return record;
+  }
+
+  async getLoginEvents(userId: string, limit: number): Promise<LoginEvent[]> {
+    return this.loginEvents
+      .filter(event => event.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async replacePasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    await this.deletePasswordResetTokens(token.userId);
+    const record: PasswordResetToken = {
+      id: randomUUID(),
+      userId: token.userId,
+      codeHash: token.codeHash,
+      attempts: 0,
+      expiresAt: token.expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokens.set(record.id, record);
+    return { ...record };
+  }
+
+  async getPasswordResetToken(userId: string): Promise<PasswordResetToken | null> {
+    const token = Array.from(this.passwordResetTokens.values()).find(token => token.userId === userId);
+    return token ? { ...token } : null;
+  }
+
+  async claimPasswordResetAttempt(id: string, maxAttempts: number): Promise<number | null> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.attempts >= maxAttempts) return null;
+    token.attempts += 1;
+    return token.attempts;
+  }
+
+  async markPasswordResetTokenUsed(id: string, maxAttempts: number): Promise<boolean> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt || token.attempts > maxAttempts) return false;
+    token.usedAt = new Date();
+    return true;
+  }
+
+  async deletePasswordResetTokens(userId: string): Promise<void> {
+    for (const [id, token] of Array.from(this.passwordResetTokens)) {
+      if (token.userId === userId) this.passwordResetTokens.delete(id);
+    }
+  }
+
+  async getClientStats(): Promise<ClientStats> {
+    return buildClientStats(await this.getAllClients(), await this.getAllPlans());
   }
 
   private async initializePlans() {
@@ -295,30 +775,39 @@ export class MemStorage implements IStorage {
       {
         id: randomUUID(),
         name: "Silver",
-        price: "₹510.00 INR",
+        price: 51000,
         businessVolume: "100",
-        referralCommission: "₹100.00 INR",
-        treeCommission: "₹200.00 INR",
+        referralCommission: 10000,
+        treeCommission: 20000,
+        dailyPairCap: 3,
+        monthlyPairCap: 90,
+        currency: DEFAULT_CURRENCY,
         status: "active",
         createdAt: new Date(),
       },
       {
         id: randomUUID(),
         name: "Gold",
-        price: "₹1010.00 INR",
+        price: 101000,
         businessVolume: "200",
-        referralCommission: "₹200.00 INR",
-        treeCommission: "₹400.00 INR",
+        referralCommission: 20000,
+        treeCommission: 40000,
+        dailyPairCap: 6,
+        monthlyPairCap: 180,
+        currency: DEFAULT_CURRENCY,
         status: "active",
         createdAt: new Date(),
       },
       {
         id: randomUUID(),
         name: "Diamond",
-        price: "₹1510.00 INR",
+        price: 151000,
         businessVolume: "300",
-        referralCommission: "₹300.00 INR",
-        treeCommission: "₹600.00 INR",
+        referralCommission: 30000,
+        treeCommission: 60000,
+        dailyPairCap: 9,
+        monthlyPairCap: 270,
+        currency: DEFAULT_CURRENCY,
         status: "active",
         createdAt: new Date(),
       }
@@ -346,6 +835,9 @@ export class MemStorage implements IStorage {
       businessVolume: planData.businessVolume,
       referralCommission: planData.referralCommission,
       treeCommission: planData.treeCommission,
+      dailyPairCap: planData.dailyPairCap ?? 0,
+      monthlyPairCap: planData.monthlyPairCap ?? 0,
+      currency: planData.currency || DEFAULT_CURRENCY,
       status: planData.status || "active",
       createdAt: new Date(),
     };
@@ -366,26 +858,79 @@ export class MemStorage implements IStorage {
   }
 
   async deletePlan(id: string): Promise<boolean> {
+    if (Array.from(this.users.values()).some(user => user.planId === id)) {
+      throw new Error("Plan is assigned to clients; disable it instead");
+    }
     return this.plans.delete(id);
   }
 
-  async deleteClient(id: string): Promise<boolean> {
+  async deleteClient(id: string, policy: DeletionPolicy): Promise<DeletionPlan | null> {
     const user = this.users.get(id);
     if (!user || user.role !== 'client') {
-      return false;
+      return null;
     }
 
-    // Get all children of this user and reassign them
-    const children = Array.from(this.users.values()).filter(u => u.parentId === id);
-    
-    // For each child, remove the parent connection (they become orphaned)
-    for (const child of children) {
-      child.parentId = null;
-      child.position = null;
+    const plan = assertDeletionAllowed(await planClientDeletion(this, user, policy));
+    if (plan.removal === "delete") {
+      // Nothing financial references the user, so drop their own rows with them
+      for (const [reportId, report] of Array.from(this.reports)) {
+        if (report.clientId === id) this.reports.delete(reportId);
+      }
+      for (const [methodId, method] of Array.from(this.payoutMethods)) {
+        if (method.clientId === id) this.payoutMethods.delete(methodId);
+      }
+      this.binaryVolumes.delete(id);
+      for (const session of Array.from(this.userSessions.values()).filter(session => session.userId === id)) {
+        this.userSessions.delete(session.sid);
+      }
+      this.twoFactorSettings.delete(id);
+      this.loginEvents = this.loginEvents.filter(event => event.userId !== id);
+      await this.deletePasswordResetTokens(id);
+      this.pairFlushes = this.pairFlushes.filter(flush => flush.clientId !== id);
+      for (const flush of this.pairFlushes.filter(flush => flush.fromClientId === id)) {
+        flush.fromClientId = null;
+      }
+      // Referrals keep their placement but lose the deleted sponsor
+      for (const referral of Array.from(this.users.values()).filter(u => u.sponsorId === id)) {
+        referral.sponsorId = null;
+      }
+      this.users.delete(id);
+    } else {
+      user.status = "inactive";
+      user.deactivatedAt = new Date();
+      if (plan.removal === "detach") {
+        user.parentId = null;
+        user.position = null;
+      }
     }
 
-    // Delete the user
-    return this.users.delete(id);
+    for (const move of plan.moves) {
+      const member = this.users.get(move.userId);
+      if (member) {
+        member.parentId = move.parentId;
+        member.position = move.position;
+      }
+    }
+    return plan;
+  }
+
+  async getClientHistory(clientId: string): Promise<ClientHistory> {
+    const allEarnings = Array.from(this.earnings.values());
+    return {
+      earnings: allEarnings.filter(e => e.clientId === clientId).length,
+      generatedEarnings: allEarnings.filter(e => e.fromClientId === clientId).length,
+      withdrawals: Array.from(this.withdrawals.values()).filter(w => w.clientId === clientId).length,
+      ledgerEntries: this.ledgerEntries.filter(e => e.clientId === clientId).length,
+      paymentIntents: Array.from(this.paymentIntents.values()).filter(i => i.clientId === clientId).length,
+      auditRecords: [
+        this.withdrawalEvents.filter(e => e.actorId === clientId).length,
+        this.placementChanges.filter(c => c.movedBy === clientId).length,
+        Array.from(this.payoutMethods.values()).filter(m => m.verifiedBy === clientId).length,
+        Array.from(this.payoutBatches.values()).filter(b => b.createdBy === clientId || b.paidBy === clientId).length,
+        Array.from(this.paymentIntents.values()).filter(i => i.createdBy === clientId).length,
+        this.appSettings.updatedBy === clientId ? 1 : 0,
+      ].reduce((sum, count) => sum + count, 0),
+    };
   }
 
   async updateUserPassword(userId: string, currentPassword: string, newPassword: string): Promise<boolean> {
@@ -397,9 +942,17 @@ export class MemStorage implements IStorage {
     
     const hashedNewPassword = await bcrypt.hash(newPassword, 10);
     user.password = hashedNewPassword;
+    user.mustChangePassword = false;
     return true;
   }
 
+  async resetUserPassword(userId: string, newPassword: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) return;
+    user.password = await bcrypt.hash(newPassword, 10);
+    user.mustChangePassword = false;
+  }
+
   async updateUserProfile(userId: string, profile: UpdateProfileRequest): Promise<User | null> {
     const user = this.users.get(userId);
     if (!user) return null;
@@ -407,6 +960,7 @@ export class MemStorage implements IStorage {
     if (profile.name !== undefined) user.name = profile.name;
     if (profile.email !== undefined) user.email = profile.email;
     if (profile.mobile !== undefined) user.mobile = profile.mobile;
+    if (profile.pan !== undefined) user.pan = profile.pan;
     
     return user;
   }
@@ -454,45 +1008,183 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async createEarning(clientId: string, type: string, amount: string, description: string, fromClientId?: string): Promise<Earning> {
+  async createEarning(clientId: string, type: string, amount: number, description: string, fromClientId?: string, currency?: string): Promise<Earning> {
     const id = randomUUID();
     const earning: Earning = {
       id,
       clientId,
       type,
       amount,
+      currency: currency || this.appSettings.currency,
       description,
       fromClientId: fromClientId || null,
       createdAt: new Date(),
     };
     this.earnings.set(id, earning);
+    await this.postLedgerEntries(earningCreditEntries(earning));
     return earning;
   }
 
-  async getTotalEarnings(clientId: string): Promise<string> {
+  async getTotalEarnings(clientId: string): Promise<number> {
     const clientEarnings = await this.getEarningsByClient(clientId);
-    const total = clientEarnings.reduce((sum, earning) => {
-      // Parse amount (assuming format "₹100.00 INR")
-      const numericAmount = parseFloat(earning.amount.replace(/[₹,INR\s]/g, ''));
-      return sum + (isNaN(numericAmount) ? 0 : numericAmount);
-    }, 0);
-    return `₹${total.toFixed(2)} INR`;
+    return clientEarnings.reduce((sum, earning) => sum + earning.amount, 0);
+  }
+
+  // Binary pairing
+  async getBinaryVolume(clientId: string): Promise<BinaryVolume | null> {
+    const volume = this.binaryVolumes.get(clientId);
+    return volume ? { ...volume } : null;
+  }
+
+  // Joins and moves are already serialised by the join queue
+  async getBinaryVolumeForUpdate(clientId: string): Promise<BinaryVolume> {
+    return (await this.getBinaryVolume(clientId)) || emptyBinaryVolume(clientId);
+  }
+
+  async saveBinaryVolume(volume: BinaryVolume): Promise<BinaryVolume> {
+    const saved = { ...volume };
+    this.binaryVolumes.set(volume.clientId, saved);
+    return saved;
+  }
+
+  async recordPairFlush(flush: InsertPairFlush): Promise<PairFlush> {
+    const newFlush: PairFlush = {
+      id: flush.id || randomUUID(),
+      clientId: flush.clientId,
+      fromClientId: flush.fromClientId || null,
+      pairs: flush.pairs,
+      reason: flush.reason,
+      cap: flush.cap,
+      forgoneAmount: flush.forgoneAmount,
+      currency: flush.currency || this.appSettings.currency,
+      pairDate: flush.pairDate,
+      createdAt: new Date(),
+    };
+    this.pairFlushes.push(newFlush);
+    return newFlush;
+  }
+
+  async getPairFlushesByClient(clientId: string): Promise<PairFlush[]> {
+    return this.pairFlushes
+      .filter(flush => flush.clientId === clientId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Wallet ledger
+  async postLedgerEntries(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]> {
+    return this.appendLedgerEntries(entries);
+  }
+
+  async getLedgerEntriesByClient(clientId: string): Promise<LedgerEntry[]> {
+    return this.ledgerEntries.filter(e => e.clientId === clientId);
+  }
+
+  async getWalletBalance(clientId: string): Promise<WalletBalance> {
+    return computeWalletBalance(await this.getLedgerEntriesByClient(clientId), (await this.getAppSettings()).currency);
+  }
+
+  // Synchronous so balance checks and postings cannot interleave with other requests
+  private appendLedgerEntries(entries: InsertLedgerEntry[]): LedgerEntry[] {
+    assertBalanced(entries);
+    const posted = entries.map(entry => ({
+      id: randomUUID(),
+      transactionId: entry.transactionId,
+      clientId: entry.clientId,
+      account: entry.account,
+      amount: entry.amount,
+      currency: entry.currency || DEFAULT_CURRENCY,
+      entryType: entry.entryType,
+      referenceId: entry.referenceId || null,
+      description: entry.description,
+      createdAt: new Date(),
+    }));
+    this.ledgerEntries.push(...posted);
+    return posted;
+  }
+
+  // Payout methods
+  async createPayoutMethod(clientId: string, method: CreatePayoutMethodRequest): Promise<PayoutMethod> {
+    const newMethod: PayoutMethod = {
+      id: randomUUID(),
+      clientId,
+      type: method.type,
+      accountHolderName: method.accountHolderName,
+      accountNumber: method.type === "bank" ? method.accountNumber : null,
+      ifsc: method.type === "bank" ? method.ifsc : null,
+      upiId: method.type === "upi" ? method.upiId : null,
+      isVerified: false,
+      verifiedBy: null,
+      verifiedAt: null,
+      isActive: true,
+      createdAt: new Date(),
+    };
+    this.payoutMethods.set(newMethod.id, newMethod);
+    return newMethod;
+  }
+
+  async getPayoutMethodsByClient(clientId: string): Promise<PayoutMethod[]> {
+    return Array.from(this.payoutMethods.values())
+      .filter(m => m.clientId === clientId && m.isActive)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getAllPayoutMethods(): Promise<PayoutMethod[]> {
+    return Array.from(this.payoutMethods.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPayoutMethodById(id: string): Promise<PayoutMethod | null> {
+    return this.payoutMethods.get(id) || null;
+  }
+
+  async setPayoutMethodVerified(id: string, isVerified: boolean, adminId: string): Promise<PayoutMethod | null> {
+    const method = this.payoutMethods.get(id);
+    if (!method) return null;
+
+    method.isVerified = isVerified;
+    method.verifiedBy = isVerified ? adminId : null;
+    method.verifiedAt = isVerified ? new Date() : null;
+    return method;
+  }
+
+  async removePayoutMethod(id: string): Promise<boolean> {
+    const method = this.payoutMethods.get(id);
+    if (!method || !method.isActive) return false;
+
+    method.isActive = false;
+    return true;
   }
 
   // Withdrawals management
   async createWithdrawal(clientId: string, withdrawal: CreateWithdrawalRequest): Promise<Withdrawal> {
+    const method = assertUsablePayoutMethod(this.payoutMethods.get(withdrawal.payoutMethodId), clientId);
+    const balance = computeWalletBalance(this.ledgerEntries.filter(e => e.clientId === clientId), this.appSettings.currency);
+    if (withdrawal.amount > balance.available) {
+      throw insufficientBalanceError(withdrawal.amount, balance);
+    }
+    const deductions = assertNetPayable(calculateDeductions(withdrawal.amount, { pan: this.users.get(clientId)?.pan || null }));
+
     const id = randomUUID();
     const newWithdrawal: Withdrawal = {
       id,
       clientId,
-      amount: `₹${withdrawal.amount} INR`,
-      bankDetails: withdrawal.bankDetails,
+      amount: withdrawal.amount,
+      currency: balance.currency,
+      tdsRate: deductions.tdsRate,
+      tdsAmount: deductions.tdsAmount,
+      adminCharge: deductions.adminCharge,
+      netAmount: deductions.netAmount,
+      bankDetails: describePayoutMethod(method),
+      payoutMethodId: method.id,
       status: "pending",
       adminNotes: null,
+      batchId: null,
       requestedAt: new Date(),
       processedAt: null,
+      approvedAt: null,
     };
     this.withdrawals.set(id, newWithdrawal);
+    this.appendLedgerEntries(withdrawalHoldEntries(newWithdrawal));
+    this.recordWithdrawalEvent(newWithdrawal, null, "pending", clientId);
     return newWithdrawal;
   }
 
@@ -505,23 +1197,195 @@ export class MemStorage implements IStorage {
     return Array.from(this.withdrawals.values()).sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
   }
 
-  async updateWithdrawalStatus(withdrawalId: string, status: string, adminNotes?: string): Promise<Withdrawal | null> {
+  async getWithdrawalById(id: string): Promise<Withdrawal | null> {
+    return this.withdrawals.get(id) || null;
+  }
+
+  async updateWithdrawalStatus(withdrawalId: string, status: string, actorId: string, adminNotes?: string): Promise<Withdrawal | null> {
     const withdrawal = this.withdrawals.get(withdrawalId);
     if (!withdrawal) return null;
     
-    withdrawal.status = status;
-    if (adminNotes) withdrawal.adminNotes = adminNotes;
-    if (status !== "pending") withdrawal.processedAt = new Date();
-    
+    if (status === "approved") {
+      assertApprovablePayoutMethod(withdrawal.payoutMethodId ? this.payoutMethods.get(withdrawal.payoutMethodId) : null);
+    }
+    this.applyWithdrawalStatus(withdrawal, status, actorId, adminNotes);
     return withdrawal;
   }
+
+  async getWithdrawalEvents(withdrawalId: string): Promise<WithdrawalEvent[]> {
+    return this.withdrawalEvents.filter(e => e.withdrawalId === withdrawalId);
+  }
+
+  private applyWithdrawalStatus(withdrawal: Withdrawal, status: string, actorId: string, notes?: string) {
+    assertWithdrawalTransition(withdrawal, status);
+    this.appendLedgerEntries(withdrawalStatusEntries(withdrawal, status));
+    this.recordWithdrawalEvent(withdrawal, withdrawal.status, status, actorId, notes);
+    
+    withdrawal.status = status;
+    if (notes) withdrawal.adminNotes = notes;
+    withdrawal.processedAt = new Date();
+    if (status === "approved") withdrawal.approvedAt = withdrawal.processedAt;
+  }
+
+  private recordWithdrawalEvent(withdrawal: Withdrawal, fromStatus: string | null, toStatus: string, actorId: string, notes?: string) {
+    this.withdrawalEvents.push({
+      id: randomUUID(),
+      withdrawalId: withdrawal.id,
+      fromStatus,
+      toStatus,
+      actorId,
+      notes: notes || null,
+      createdAt: new Date(),
+    });
+  }
+
+  // Payment intents
+  async createPaymentIntent(intent: InsertPaymentIntent): Promise<PaymentIntent> {
+    const newIntent: PaymentIntent = {
+      id: intent.id || randomUUID(),
+      provider: intent.provider,
+      providerOrderId: intent.providerOrderId,
+      providerPaymentId: null,
+      amount: intent.amount,
+      currency: intent.currency || DEFAULT_CURRENCY,
+      status: "created",
+      clientData: intent.clientData,
+      passwordHash: intent.passwordHash,
+      clientId: null,
+      failureReason: null,
+      createdBy: intent.createdBy,
+      createdAt: new Date(),
+      settledAt: null,
+    };
+    this.paymentIntents.set(newIntent.id, newIntent);
+    return newIntent;
+  }
+
+  async getPaymentIntent(id: string): Promise<PaymentIntent | null> {
+    return this.paymentIntents.get(id) || null;
+  }
+
+  async getPaymentIntentByOrderId(provider: string, providerOrderId: string): Promise<PaymentIntent | null> {
+    return Array.from(this.paymentIntents.values())
+      .find(intent => intent.provider === provider && intent.providerOrderId === providerOrderId) || null;
+  }
+
+  // Only an intent that is still "created" can be settled, so a webhook
+  // delivered twice is applied once
+  async settlePaymentIntent(id: string, status: "paid" | "failed", providerPaymentId: string | null, failureReason?: string): Promise<PaymentIntent | null> {
+    const intent = this.paymentIntents.get(id);
+    if (!intent || intent.status !== "created") return null;
+
+    intent.status = status;
+    intent.providerPaymentId = providerPaymentId;
+    intent.failureReason = failureReason || null;
+    intent.settledAt = new Date();
+    return intent;
+  }
+
+  async updatePaymentIntentResult(id: string, clientId: string | null, failureReason?: string): Promise<PaymentIntent | null> {
+    const intent = this.paymentIntents.get(id);
+    if (!intent || intent.clientId) return null;
+
+    intent.clientId = clientId;
+    intent.failureReason = failureReason || null;
+    return intent;
+  }
+
+  // Payout batches
+  async createPayoutBatch(withdrawalIds: string[], adminId: string): Promise<PayoutBatch> {
+    const batchWithdrawals = withdrawalIds
+      .map(id => this.withdrawals.get(id))
+      .filter((w): w is Withdrawal => !!w);
+    assertBatchable(withdrawalIds, batchWithdrawals);
+
+    const batch: PayoutBatch = {
+      id: randomUUID(),
+      reference: generateBatchReference(),
+      status: "processing",
+      totalAmount: batchWithdrawals.reduce((sum, w) => sum + w.netAmount, 0),
+      currency: batchWithdrawals[0].currency,
+      withdrawalCount: batchWithdrawals.length,
+      createdBy: adminId,
+      createdAt: new Date(),
+      paidBy: null,
+      paidAt: null,
+    };
+    this.payoutBatches.set(batch.id, batch);
+
+    for (const withdrawal of batchWithdrawals) {
+      this.applyWithdrawalStatus(withdrawal, "processing", adminId, `Added to payout batch ${batch.reference}`);
+      withdrawal.batchId = batch.id;
+    }
+    return batch;
+  }
+
+  async getAllPayoutBatches(): Promise<PayoutBatch[]> {
+    return Array.from(this.payoutBatches.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPayoutBatch(id: string): Promise<PayoutBatch | null> {
+    return this.payoutBatches.get(id) || null;
+  }
+
+  async getWithdrawalsByBatch(batchId: string): Promise<Withdrawal[]> {
+    return Array.from(this.withdrawals.values()).filter(w => w.batchId === batchId);
+  }
+
+  async markPayoutBatchPaid(id: string, adminId: string): Promise<PayoutBatch | null> {
+    const batch = this.payoutBatches.get(id);
+    if (!batch) return null;
+    if (batch.status === "paid") {
+      throw new Error("Payout batch is already marked as paid");
+    }
+
+    const batchWithdrawals = Array.from(this.withdrawals.values()).filter(w => w.batchId === id);
+    for (const withdrawal of batchWithdrawals) {
+      assertWithdrawalTransition(withdrawal, "completed");
+    }
+    for (const withdrawal of batchWithdrawals) {
+      this.applyWithdrawalStatus(withdrawal, "completed", adminId, `Paid in batch ${batch.reference}`);
+    }
+
+    batch.status = "paid";
+    batch.paidBy = adminId;
+    batch.paidAt = new Date();
+    return batch;
+  }
+}
+
+// Recursive CTE naming every member below clientId as downline(id, leg,
+// depth), where leg is the root's side the member sits under. maxDepth stops
+// the recursion early when only the top levels are needed.
+function downlineCte(clientId: string, maxDepth?: number) {
+  const depthLimit = maxDepth ? sql`WHERE d.depth < ${maxDepth}` : sql``;
+  return sql`
+    WITH RECURSIVE downline AS (
+      SELECT id, position AS leg, 1 AS depth FROM users WHERE parent_id = ${clientId}
+      UNION ALL
+      SELECT u.id, d.leg, d.depth + 1 FROM users u JOIN downline d ON u.parent_id = d.id ${depthLimit}
+    )
+  `;
+}
+
+// Unique violation on users (parent_id, position); postgres-js reports the
+// SQLSTATE and constraint name on the error (or its cause when wrapped)
+function isSlotConflict(error: unknown): boolean {
+  const pgError = (error as { cause?: unknown })?.cause ?? error;
+  const { code, constraint_name } = (pgError ?? {}) as { code?: string; constraint_name?: string };
+  return code === "23505" && constraint_name === "users_parent_position_unique";
 }
 
 // PostgreSQL Storage Implementation
 export class PostgreSQLStorage implements IStorage {
-  private db;
+  private db: Database;
   
-  constructor() {
+  // Given a transaction, the storage runs every query inside it
+  constructor(db?: Database) {
+    if (db) {
+      this.db = db;
+      return;
+    }
     if (!process.env.DATABASE_URL) {
       throw new Error("DATABASE_URL is required for PostgreSQL storage");
     }
@@ -530,32 +1394,12 @@ export class PostgreSQLStorage implements IStorage {
     this.initializeData();
   }
   
+  // The first admin is created by the setup wizard, never seeded
   private async initializeData() {
-    // Initialize admin user if not exists
-    await this.initializeAdminUser();
     // Initialize default plans
     await this.initializePlans();
   }
   
-  private async initializeAdminUser() {
-    try {
-      const existingAdmin = await this.db.select().from(users).where(eq(users.role, "admin")).limit(1);
-      
-      if (existingAdmin.length === 0) {
-        const hashedPassword = await bcrypt.hash("admin123", 10);
-        await this.db.insert(users).values({
-          name: "System Admin",
-          username: "admin",
-          password: hashedPassword,
-          email: "admin@nappinghand.com",
-          role: "admin",
-        });
-      }
-    } catch (error) {
-      console.error("Failed to initialize admin user:", error);
-    }
-  }
-  
   private async initializePlans() {
     try {
       const existingPlans = await this.db.select().from(plans).limit(1);
@@ -564,26 +1408,32 @@ export class PostgreSQLStorage implements IStorage {
         await this.db.insert(plans).values([
           {
             name: "Silver",
-            price: "₹510.00 INR",
+            price: 51000,
             businessVolume: "100",
-            referralCommission: "₹100.00 INR",
-            treeCommission: "₹200.00 INR",
+            referralCommission: 10000,
+            treeCommission: 20000,
+            dailyPairCap: 3,
+            monthlyPairCap: 90,
             status: "active",
           },
           {
             name: "Gold",
-            price: "₹1010.00 INR",
+            price: 101000,
             businessVolume: "200",
-            referralCommission: "₹200.00 INR",
-            treeCommission: "₹400.00 INR",
+            referralCommission: 20000,
+            treeCommission: 40000,
+            dailyPairCap: 6,
+            monthlyPairCap: 180,
             status: "active",
           },
           {
             name: "Diamond",
-            price: "₹1510.00 INR",
+            price: 151000,
             businessVolume: "300",
-            referralCommission: "₹300.00 INR",
-            treeCommission: "₹600.00 INR",
+            referralCommission: 30000,
+            treeCommission: 60000,
+            dailyPairCap: 9,
+            monthlyPairCap: 270,
             status: "active",
           }
         ]);
@@ -614,7 +1464,8 @@ export class PostgreSQLStorage implements IStorage {
       username: insertUser.username,
       password: hashedPassword,
       role: insertUser.role || "client",
-      package: insertUser.package || null,
+      planId: insertUser.planId || null,
+      sponsorId: insertUser.sponsorId || null,
       parentId: insertUser.parentId || null,
       position: insertUser.position || null,
     }).returning();
@@ -622,90 +1473,85 @@ export class PostgreSQLStorage implements IStorage {
   }
 
   async createClient(client: CreateClientRequest, createdById?: string): Promise<User> {
+    assertPurchasablePlan(await this.getPlanById(client.planId));
     const hashedPassword = await bcrypt.hash(client.password, 10);
     
-    // Ensure parentId is set (fallback to createdById if not provided)
-    const parentId = client.parentId || createdById;
-    
-    // If parentId is provided, find available position
-    let position: string | null = null;
-    if (parentId) {
-      const availablePositions = await this.getAvailablePositions(parentId);
-      if (availablePositions.length === 0) {
-        throw new Error("Parent already has 2 children");
-      }
-      position = client.position || availablePositions[0];
-    }
-
-    const result = await this.db.insert(users).values({
+    return await this.joinClient(client, createdById, (sponsorId, placement) => ({
       name: client.name,
       username: client.username,
       password: hashedPassword,
       email: client.email,
       mobile: client.mobile,
       role: "client",
-      package: client.package,
-      parentId: parentId || null,
-      position: position,
-    }).returning();
-    
-    return result[0];
+      planId: client.planId,
+      sponsorId,
+      parentId: placement?.parentId || null,
+      position: placement?.position || null,
+    }));
   }
 
-  async createClientWithPayment(client: CreateClientRequest, adminId?: string): Promise<User> {
-    const hashedPassword = await bcrypt.hash(client.password, 10);
-    
-    // Binary tree insertion logic
-    let parentId = client.parentId || adminId;
-    let position: string | null = null;
-    
-    if (parentId) {
-      // Find available position under the specified parent
-      const availablePositions = await this.getAvailablePositions(parentId);
-      
-      if (availablePositions.length === 0) {
-        // Parent has no available positions, find the first available spot in the tree
-        const allClients = await this.getAllClients();
-        
-        for (const potentialParent of allClients) {
-          const availablePos = await this.getAvailablePositions(potentialParent.id);
-          if (availablePos.length > 0) {
-            parentId = potentialParent.id;
-            position = availablePos[0]; // Take the first available position
-            break;
-          }
-        }
-        
-        // If still no position found, make them a direct client under admin
-        if (!position && adminId) {
-          parentId = adminId;
-          const adminPositions = await this.getAvailablePositions(adminId);
-          position = adminPositions.length > 0 ? adminPositions[0] : null;
-        }
-      } else {
-        // Assign to the first available position
-        position = availablePositions[0];
-      }
-    }
-
-    const result = await this.db.insert(users).values({
+  async createClientWithPayment(client: PaidClientRequest, adminId?: string): Promise<User> {
+    return await this.joinClient(client, adminId, (sponsorId, placement) => ({
       name: client.name,
       username: client.username,
-      password: hashedPassword,
+      password: client.passwordHash,
       email: client.email,
       mobile: client.mobile,
       role: "client",
-      package: client.package,
-      parentId: parentId || null,
-      position: position || null,
-    }).returning();
-    
-    return result[0];
+      planId: client.planId,
+      sponsorId,
+      parentId: placement?.parentId || null,
+      position: placement?.position || null,
+    }));
+  }
+
+  // Placement, the slot claim and the joining commissions run in one
+  // transaction, so a failure leaves none of them behind. The member placement
+  // starts from is locked first, so joins under the same sponsor queue up
+  // instead of racing for the same slot.
+  private async joinClient(
+    request: Pick<CreateClientRequest, "sponsorId" | "parentId" | "position" | "placementStrategy">,
+    createdById: string | undefined,
+    values: (sponsorId: string | null, placement: Placement | null) => typeof users.$inferInsert
+  ): Promise<User> {
+    return await this.db.transaction(async (tx) => {
+      const joinStorage = new PostgreSQLStorage(tx);
+      const rootId = request.parentId || request.sponsorId || createdById;
+      if (rootId) {
+        await tx.select({ id: users.id }).from(users).where(eq(users.id, rootId)).for("no key update");
+      }
+      const user = await allocateSlot(joinStorage, request, createdById, (sponsorId, placement) => joinStorage.insertIntoFreeSlot(values(sponsorId, placement)));
+      await creditJoiningCommissions(joinStorage, user);
+      return user;
+    });
+  }
+
+  // Claim the slot in a savepoint, so losing it does not end the join. The
+  // parent row is locked so placements under the same parent queue up, and the
+  // unique index on (parent_id, position) backs this up if anything slips past
+  // the lock.
+  private async insertIntoFreeSlot(values: typeof users.$inferInsert): Promise<User | null> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        if (values.parentId) {
+          await tx.select({ id: users.id }).from(users).where(eq(users.id, values.parentId)).for("no key update");
+          const taken = await tx.select({ id: users.id }).from(users)
+            .where(and(eq(users.parentId, values.parentId), eq(users.position, values.position!)));
+          if (taken.length > 0) return null;
+        }
+        const result = await tx.insert(users).values(values).returning();
+        return result[0];
+      });
+    } catch (error) {
+      if (isSlotConflict(error)) return null;
+      throw error;
+    }
   }
 
   async validateUser(username: string, password: string, role: string): Promise<User | null> {
     const user = await this.getUserByUsername(username);
-    if (!user || user.role !== role) {
+    // Deactivated users can no longer sign in
+    if (!user || user.role !== role || user.status !== "active") {
       return null;
     }
     
@@ -713,25 +1559,83 @@ export class PostgreSQLStorage implements IStorage {
     return isValid ? user : null;
   }
 
+  async hasAdminUser(): Promise<boolean> {
+    const result = await this.db.select({ id: users.id }).from(users).where(eq(users.role, "admin")).limit(1);
+    return result.length > 0;
+  }
+
+  async createFirstAdmin(owner: InsertUser): Promise<User | null> {
+    const hashedPassword = await bcrypt.hash(owner.password, 10);
+    return await this.db.transaction(async (tx) => {
+      // Instances racing through setup queue up here
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('first_admin'))`);
+      const existing = await tx.select({ id: users.id }).from(users).where(eq(users.role, "admin")).limit(1);
+      if (existing.length > 0) return null;
+      const result = await tx.insert(users).values({ username: owner.username, password: hashedPassword, role: "admin" }).returning();
+      return result[0];
+    });
+  }
+
+  async setMustChangePassword(userId: string, mustChange: boolean): Promise<void> {
+    await this.db.update(users).set({ mustChangePassword: mustChange }).where(eq(users.id, userId));
+  }
+
   async getAllClients(): Promise<User[]> {
     return await this.db.select().from(users).where(eq(users.role, "client"));
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users);
+  }
+
   async getClientsByParent(parentId: string): Promise<User[]> {
     return await this.db.select().from(users).where(eq(users.parentId, parentId));
   }
 
+  async getClientsBySponsor(sponsorId: string): Promise<User[]> {
+    return await this.db.select().from(users).where(eq(users.sponsorId, sponsorId));
+  }
+
+  // Whole downline in one round trip via a recursive CTE
   async getClientDownline(clientId: string): Promise<User[]> {
-    const downline: User[] = [];
-    const directChildren = await this.getClientsByParent(clientId);
-    
-    for (const child of directChildren) {
-      downline.push(child);
-      const childDownline = await this.getClientDownline(child.id);
-      downline.push(...childDownline);
+    return await this.db.select().from(users)
+      .where(sql`${users.id} IN (${downlineCte(clientId)} SELECT id FROM downline)`);
+  }
+
+  async getSubtreeStats(clientId: string): Promise<SubtreeStats> {
+    const legs = await this.db.execute<{ leg: string | null; count: number; depth: number }>(sql`
+      ${downlineCte(clientId)}
+      SELECT leg, count(*)::int AS count, max(depth)::int AS depth FROM downline GROUP BY leg
+    `);
+    return buildSubtreeStats(clientId, Array.from(legs), await this.getBinaryVolume(clientId));
+  }
+
+  async getDownlineWindow(clientId: string, maxDepth: number): Promise<User[]> {
+    return await this.db.select().from(users)
+      .where(sql`${users.id} IN (${downlineCte(clientId, maxDepth)} SELECT id FROM downline)`);
+  }
+
+  // Per-leg downline sizes for many members in one query: every descendant is
+  // tagged with the listed ancestor and the leg it hangs from
+  async getLegCounts(clientIds: string[]): Promise<Map<string, LegCounts>> {
+    const counts = new Map<string, LegCounts>(clientIds.map(id => [id, { left: 0, right: 0 }]));
+    if (clientIds.length === 0) return counts;
+
+    const rows = await this.db.execute<{ ancestor_id: string; leg: string; count: number }>(sql`
+      WITH RECURSIVE tagged AS (
+        SELECT parent_id AS ancestor_id, position AS leg, id FROM users WHERE ${inArray(users.parentId, clientIds)}
+        UNION ALL
+        SELECT t.ancestor_id, t.leg, u.id FROM users u JOIN tagged t ON u.parent_id = t.id
+      )
+      SELECT ancestor_id, leg, count(*)::int AS count FROM tagged GROUP BY ancestor_id, leg
+    `);
+    for (const row of Array.from(rows)) {
+      const legCounts = counts.get(row.ancestor_id);
+      if (legCounts && (row.leg === "left" || row.leg === "right")) {
+        legCounts[row.leg] = row.count;
+      }
     }
-    
-    return downline;
+    return counts;
   }
 
   async getAvailablePositions(parentId: string): Promise<("left" | "right")[]> {
@@ -742,14 +1646,228 @@ export class PostgreSQLStorage implements IStorage {
     return allPositions.filter(pos => !occupiedPositions.includes(pos));
   }
 
-  async getClientStats(): Promise<{ total: number; silver: number; gold: number; diamond: number; }> {
-    const allClients = await this.getAllClients();
-    return {
-      total: allClients.length,
-      silver: allClients.filter(c => c.package === "Silver").length,
-      gold: allClients.filter(c => c.package === "Gold").length,
-      diamond: allClients.filter(c => c.package === "Diamond").length,
-    };
+  // The node, its BV adjustments and the audit row commit together
+  async moveSubtree(
+    parentId: string,
+    prepare: (storage: IStorage) => Promise<PreparedMove>,
+    movedBy: string,
+    reason?: string
+  ): Promise<PreparedMove & { change: PlacementChange }> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        // Moves queue up behind each other, so two cannot close a loop between
+        // them, and the target parent is locked as a join would lock it
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext('subtree_move'))`);
+        await tx.select({ id: users.id }).from(users).where(eq(users.id, parentId)).for("no key update");
+        const { plan, volumes } = await prepare(new PostgreSQLStorage(tx));
+        const taken = await tx.select({ id: users.id }).from(users)
+          .where(and(eq(users.parentId, plan.to.parentId), eq(users.position, plan.to.position)));
+        if (taken.length > 0) {
+          throw new Error(`The ${plan.to.position} position under this parent is already taken`);
+        }
+
+        await tx.update(users).set({ parentId: plan.to.parentId, position: plan.to.position }).where(eq(users.id, plan.userId));
+        for (const { clientId, ...values } of volumes) {
+          await tx.insert(binaryVolumes).values({ clientId, ...values }).onConflictDoUpdate({
+            target: binaryVolumes.clientId,
+            set: values,
+          });
+        }
+        const result = await tx.insert(placementChanges).values({
+          userId: plan.userId,
+          fromParentId: plan.from.parentId,
+          fromPosition: plan.from.position,
+          toParentId: plan.to.parentId,
+          toPosition: plan.to.position,
+          subtreeSize: plan.subtreeSize,
+          subtreeBv: plan.subtreeBv,
+          reason: reason || null,
+          movedBy,
+        }).returning();
+        return { plan, volumes, change: result[0] };
+      });
+    } catch (error) {
+      if (isSlotConflict(error)) {
+        throw new Error("The target position under this parent is already taken");
+      }
+      throw error;
+    }
+  }
+
+  async getPlacementChanges(userId?: string): Promise<PlacementChange[]> {
+    return await this.db.select().from(placementChanges)
+      .where(userId ? eq(placementChanges.userId, userId) : undefined)
+      .orderBy(desc(placementChanges.createdAt));
+  }
+
+  async createUserSession(session: InsertUserSession): Promise<UserSession> {
+    const result = await this.db.insert(userSessions).values(session).returning();
+    return result[0];
+  }
+
+  async getUserSession(sid: string): Promise<UserSession | null> {
+    const result = await this.db.select().from(userSessions).where(eq(userSessions.sid, sid));
+    return result[0] || null;
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return await this.db.select().from(userSessions)
+      .where(eq(userSessions.userId, userId))
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  async touchUserSession(sid: string): Promise<void> {
+    await this.db.update(userSessions).set({ lastSeenAt: new Date() }).where(eq(userSessions.sid, sid));
+  }
+
+  async deleteUserSessions(sids: string[]): Promise<void> {
+    if (sids.length === 0) return;
+    await this.db.delete(userSessions).where(inArray(userSessions.sid, sids));
+  }
+
+  async getTwoFactorSettings(userId: string): Promise<TwoFactorSettings | null> {
+    const result = await this.db.select().from(twoFactorSettings).where(eq(twoFactorSettings.userId, userId));
+    return result[0] || null;
+  }
+
+  async saveTwoFactorSettings(settings: InsertTwoFactorSettings): Promise<TwoFactorSettings> {
+    const { userId, ...values } = settings;
+    const result = await this.db.insert(twoFactorSettings).values(settings)
+      .onConflictDoUpdate({
+        target: twoFactorSettings.userId,
+        set: {
+          secret: values.secret,
+          enabledAt: values.enabledAt ?? null,
+          recoveryCodeHashes: values.recoveryCodeHashes ?? [],
+          lastUsedStep: values.lastUsedStep ?? null,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteTwoFactorSettings(userId: string): Promise<void> {
+    await this.db.delete(twoFactorSettings).where(eq(twoFactorSettings.userId, userId));
+  }
+
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.db.update(twoFactorSettings)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorSettings.userId, userId),
+        or(isNull(twoFactorSettings.lastUsedStep), lt(twoFactorSettings.lastUsedStep, step))
+      ))
+      .returning({ userId: twoFactorSettings.userId });
+    return result.length > 0;
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db.update(twoFactorSettings)
+      .set({ recoveryCodeHashes: sql`(${twoFactorSettings.recoveryCodeHashes}::jsonb - ${codeHash}::text)::json` })
+      .where(and(
+        eq(twoFactorSettings.userId, userId),
+        sql`${twoFactorSettings.recoveryCodeHashes}::jsonb @> jsonb_build_array(${codeHash}::text)`
+      ))
+      .returning({ userId: twoFactorSettings.userId });
+    return result.length > 0;
+  }
+
+  // The settings row is created with its defaults the first time it is read
+  async getAppSettings(): Promise<AppSettings> {
+    const existing = await this.db.select().from(appSettings).where(eq(appSettings.id, "default"));
+    if (existing[0]) return existing[0];
+    await this.db.insert(appSettings).values({ id: "default" }).onConflictDoNothing();
+    const created = await this.db.select().from(appSettings).where(eq(appSettings.id, "default"));
+    return created[0];
+  }
+
+  async updateAppSettings(update: AppSettingsUpdate, updatedBy: string): Promise<AppSettings> {
+    await this.getAppSettings();
+    const result = await this.db.update(appSettings)
+      .set({ ...update, updatedBy, updatedAt: new Date() })
+      .where(eq(appSettings.id, "default"))
+      .returning();
+    return result[0];
+  }
+
+  async getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    return await this.db.select().from(loginThrottles).where(inArray(loginThrottles.key, keys));
+  }
+
+  // A single upsert, so concurrent failures are all counted
+  async incrementLoginFailures(key: string, resetBefore: Date): Promise<LoginThrottle> {
+    const now = new Date();
+    const result = await this.db.insert(loginThrottles).values({ key, failures: 1, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failures: sql`CASE WHEN ${loginThrottles.lastFailureAt} < ${resetBefore.toISOString()}::timestamp THEN 1 ELSE ${loginThrottles.failures} + 1 END`,
+          lastFailureAt: now,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async blockLogin(key: string, until: Date): Promise<void> {
+    // GREATEST skips nulls, so an unset block simply takes the new value
+    await this.db.update(loginThrottles)
+      .set({ blockedUntil: sql`GREATEST(${loginThrottles.blockedUntil}, ${until.toISOString()}::timestamp)` })
+      .where(eq(loginThrottles.key, key));
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    await this.db.delete(loginThrottles).where(eq(loginThrottles.key, key));
+  }
+
+  async createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent> {
+    const result = await this.db.insert(loginEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getLoginEvents(userId: string, limit: number): Promise<LoginEvent[]> {
+    return await this.db.select().from(loginEvents)
+      .where(eq(loginEvents.userId, userId))
+      .orderBy(desc(loginEvents.createdAt))
+      .limit(limit);
+  }
+
+  async replacePasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, token.userId));
+      const result = await tx.insert(passwordResetTokens).values(token).returning();
+      return result[0];
+    });
+  }
+
+  async getPasswordResetToken(userId: string): Promise<PasswordResetToken | null> {
+    const result = await this.db.select().from(passwordResetTokens).where(eq(passwordResetTokens.userId, userId)).limit(1);
+    return result[0] || null;
+  }
+
+  async claimPasswordResetAttempt(id: string, maxAttempts: number): Promise<number | null> {
+    const result = await this.db.update(passwordResetTokens)
+      .set({ attempts: sql`${passwordResetTokens.attempts} + 1` })
+      .where(and(eq(passwordResetTokens.id, id), lt(passwordResetTokens.attempts, maxAttempts)))
+      .returning({ attempts: passwordResetTokens.attempts });
+    return result[0]?.attempts ?? null;
+  }
+
+  async markPasswordResetTokenUsed(id: string, maxAttempts: number): Promise<boolean> {
+    const result = await this.db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt), lte(passwordResetTokens.attempts, maxAttempts)))
+      .returning({ id: passwordResetTokens.id });
+    return result.length > 0;
+  }
+
+  async deletePasswordResetTokens(userId: string): Promise<void> {
+    await this.db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+  }
+
+  async getClientStats(): Promise<ClientStats> {
+    return buildClientStats(await this.getAllClients(), await this.getAllPlans());
   }
 
   async getAllPlans(): Promise<Plan[]> {
@@ -772,30 +1890,69 @@ export class PostgreSQLStorage implements IStorage {
   }
 
   async deletePlan(id: string): Promise<boolean> {
+    const assigned = await this.db.select({ id: users.id }).from(users).where(eq(users.planId, id)).limit(1);
+    if (assigned.length > 0) {
+      throw new Error("Plan is assigned to clients; disable it instead");
+    }
     const result = await this.db.delete(plans).where(eq(plans.id, id)).returning();
     return result.length > 0;
   }
 
-  async deleteClient(id: string): Promise<boolean> {
+  async deleteClient(id: string, policy: DeletionPolicy): Promise<DeletionPlan | null> {
     const user = await this.getUserById(id);
     if (!user || user.role !== 'client') {
-      return false;
+      return null;
     }
 
-    // Get all children of this user and reassign them
-    const children = await this.getClientsByParent(id);
-    
-    // For each child, remove the parent connection (they become orphaned)
-    for (const child of children) {
-      await this.db.update(users).set({
-        parentId: null,
-        position: null,
-      }).where(eq(users.id, child.id));
-    }
+    const plan = assertDeletionAllowed(await planClientDeletion(this, user, policy));
+    return await this.db.transaction(async (tx) => {
+      if (plan.removal === "delete") {
+        // Nothing financial or in the audit trail references the user, so drop their own rows with them
+        await tx.delete(reports).where(eq(reports.clientId, id));
+        await tx.delete(payoutMethods).where(eq(payoutMethods.clientId, id));
+        await tx.delete(binaryVolumes).where(eq(binaryVolumes.clientId, id));
+        await tx.delete(userSessions).where(eq(userSessions.userId, id));
+        await tx.delete(twoFactorSettings).where(eq(twoFactorSettings.userId, id));
+        await tx.delete(loginEvents).where(eq(loginEvents.userId, id));
+        await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, id));
+        await tx.delete(pairFlushes).where(eq(pairFlushes.clientId, id));
+        await tx.update(pairFlushes).set({ fromClientId: null }).where(eq(pairFlushes.fromClientId, id));
+        // Referrals keep their placement but lose the deleted sponsor
+        await tx.update(users).set({ sponsorId: null }).where(eq(users.sponsorId, id));
+        await tx.delete(users).where(eq(users.id, id));
+      } else {
+        await tx.update(users).set({
+          status: "inactive",
+          deactivatedAt: new Date(),
+          ...(plan.removal === "detach" ? { parentId: null, position: null } : {}),
+        }).where(eq(users.id, id));
+      }
 
-    // Delete the user
-    const result = await this.db.delete(users).where(eq(users.id, id)).returning();
-    return result.length > 0;
+      // Moves run after the user has left their slot, so the unique index holds
+      for (const move of plan.moves) {
+        await tx.update(users).set({ parentId: move.parentId, position: move.position }).where(eq(users.id, move.userId));
+      }
+      return plan;
+    });
+  }
+
+  async getClientHistory(clientId: string): Promise<ClientHistory> {
+    const count = async (query: Promise<{ count: number }[]>) => (await query)[0]?.count || 0;
+    const rows = sql<number>`count(*)::int`;
+    return {
+      earnings: await count(this.db.select({ count: rows }).from(earnings).where(eq(earnings.clientId, clientId))),
+      generatedEarnings: await count(this.db.select({ count: rows }).from(earnings).where(eq(earnings.fromClientId, clientId))),
+      withdrawals: await count(this.db.select({ count: rows }).from(withdrawals).where(eq(withdrawals.clientId, clientId))),
+      ledgerEntries: await count(this.db.select({ count: rows }).from(ledgerEntries).where(eq(ledgerEntries.clientId, clientId))),
+      paymentIntents: await count(this.db.select({ count: rows }).from(paymentIntents).where(eq(paymentIntents.clientId, clientId))),
+      auditRecords:
+        await count(this.db.select({ count: rows }).from(withdrawalEvents).where(eq(withdrawalEvents.actorId, clientId))) +
+        await count(this.db.select({ count: rows }).from(placementChanges).where(eq(placementChanges.movedBy, clientId))) +
+        await count(this.db.select({ count: rows }).from(payoutMethods).where(eq(payoutMethods.verifiedBy, clientId))) +
+        await count(this.db.select({ count: rows }).from(payoutBatches).where(or(eq(payoutBatches.createdBy, clientId), eq(payoutBatches.paidBy, clientId)))) +
+        await count(this.db.select({ count: rows }).from(paymentIntents).where(eq(paymentIntents.createdBy, clientId))) +
+        await count(this.db.select({ count: rows }).from(appSettings).where(eq(appSettings.updatedBy, clientId))),
+    };
   }
 
   async updateUserPassword(userId: string, currentPassword: string, newPassword: string): Promise<boolean> {
@@ -807,17 +1964,26 @@ export class PostgreSQLStorage implements IStorage {
     
     const hashedNewPassword = await bcrypt.hash(newPassword, 10);
     const result = await this.db.update(users).set({
-      password: hashedNewPassword
+      password: hashedNewPassword,
+      mustChangePassword: false,
     }).where(eq(users.id, userId)).returning();
     
     return result.length > 0;
   }
 
+  async resetUserPassword(userId: string, newPassword: string): Promise<void> {
+    await this.db.update(users).set({
+      password: await bcrypt.hash(newPassword, 10),
+      mustChangePassword: false,
+    }).where(eq(users.id, userId));
+  }
+
   async updateUserProfile(userId: string, profile: UpdateProfileRequest): Promise<User | null> {
     const updateData: any = {};
     if (profile.name !== undefined) updateData.name = profile.name;
     if (profile.email !== undefined) updateData.email = profile.email;
     if (profile.mobile !== undefined) updateData.mobile = profile.mobile;
+    if (profile.pan !== undefined) updateData.pan = profile.pan;
     
     if (Object.keys(updateData).length === 0) {
       return await this.getUserById(userId);
@@ -860,37 +2026,162 @@ export class PostgreSQLStorage implements IStorage {
     return await this.db.select().from(earnings).where(eq(earnings.clientId, clientId)).orderBy(desc(earnings.createdAt));
   }
 
-  async createEarning(clientId: string, type: string, amount: string, description: string, fromClientId?: string): Promise<Earning> {
-    const result = await this.db.insert(earnings).values({
-      clientId,
-      type,
-      amount,
-      description,
-      fromClientId: fromClientId || null,
+  async createEarning(clientId: string, type: string, amount: number, description: string, fromClientId?: string, currency?: string): Promise<Earning> {
+    const earningCurrency = currency || (await this.getAppSettings()).currency;
+    return await this.db.transaction(async (tx) => {
+      const result = await tx.insert(earnings).values({
+        clientId,
+        type,
+        amount,
+        currency: earningCurrency,
+        description,
+        fromClientId: fromClientId || null,
+      }).returning();
+      await new PostgreSQLStorage(tx).postLedgerEntries(earningCreditEntries(result[0]));
+      return result[0];
+    });
+  }
+
+  async getTotalEarnings(clientId: string): Promise<number> {
+    const clientEarnings = await this.getEarningsByClient(clientId);
+    return clientEarnings.reduce((sum, earning) => sum + earning.amount, 0);
+  }
+
+  // Binary pairing
+  async getBinaryVolume(clientId: string): Promise<BinaryVolume | null> {
+    const result = await this.db.select().from(binaryVolumes).where(eq(binaryVolumes.clientId, clientId)).limit(1);
+    return result[0] || null;
+  }
+
+  // Rows are always locked deepest first (child to root for a join), so
+  // concurrent joins and moves cannot deadlock
+  async getBinaryVolumeForUpdate(clientId: string): Promise<BinaryVolume> {
+    await this.db.insert(binaryVolumes).values({ clientId }).onConflictDoNothing();
+    const result = await this.db.select().from(binaryVolumes).where(eq(binaryVolumes.clientId, clientId)).for("update");
+    return result[0];
+  }
+
+  async saveBinaryVolume(volume: BinaryVolume): Promise<BinaryVolume> {
+    const { clientId, ...values } = volume;
+    const result = await this.db.insert(binaryVolumes).values(volume).onConflictDoUpdate({
+      target: binaryVolumes.clientId,
+      set: values,
     }).returning();
     return result[0];
   }
 
-  async getTotalEarnings(clientId: string): Promise<string> {
-    const clientEarnings = await this.getEarningsByClient(clientId);
-    const total = clientEarnings.reduce((sum, earning) => {
-      // Parse amount (assuming format "₹100.00 INR")
-      const numericAmount = parseFloat(earning.amount.replace(/[₹,INR\s]/g, ''));
-      return sum + (isNaN(numericAmount) ? 0 : numericAmount);
-    }, 0);
-    return `₹${total.toFixed(2)} INR`;
+  async recordPairFlush(flush: InsertPairFlush): Promise<PairFlush> {
+    const currency = flush.currency || (await this.getAppSettings()).currency;
+    const result = await this.db.insert(pairFlushes).values({ ...flush, currency }).returning();
+    return result[0];
   }
 
-  // Withdrawals management
-  async createWithdrawal(clientId: string, withdrawal: CreateWithdrawalRequest): Promise<Withdrawal> {
-    const result = await this.db.insert(withdrawals).values({
+  async getPairFlushesByClient(clientId: string): Promise<PairFlush[]> {
+    return await this.db.select().from(pairFlushes)
+      .where(eq(pairFlushes.clientId, clientId))
+      .orderBy(desc(pairFlushes.createdAt));
+  }
+
+  // Wallet ledger
+  async postLedgerEntries(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]> {
+    assertBalanced(entries);
+    if (entries.length === 0) return [];
+    return await this.db.insert(ledgerEntries).values(entries).returning();
+  }
+
+  async getLedgerEntriesByClient(clientId: string): Promise<LedgerEntry[]> {
+    return await this.db.select().from(ledgerEntries).where(eq(ledgerEntries.clientId, clientId)).orderBy(desc(ledgerEntries.createdAt));
+  }
+
+  async getWalletBalance(clientId: string): Promise<WalletBalance> {
+    return computeWalletBalance(await this.getLedgerEntriesByClient(clientId), (await this.getAppSettings()).currency);
+  }
+
+  // Payout methods
+  async createPayoutMethod(clientId: string, method: CreatePayoutMethodRequest): Promise<PayoutMethod> {
+    const result = await this.db.insert(payoutMethods).values({
       clientId,
-      amount: `₹${withdrawal.amount} INR`,
-      bankDetails: withdrawal.bankDetails,
+      type: method.type,
+      accountHolderName: method.accountHolderName,
+      accountNumber: method.type === "bank" ? method.accountNumber : null,
+      ifsc: method.type === "bank" ? method.ifsc : null,
+      upiId: method.type === "upi" ? method.upiId : null,
     }).returning();
     return result[0];
   }
 
+  async getPayoutMethodsByClient(clientId: string): Promise<PayoutMethod[]> {
+    return await this.db.select().from(payoutMethods)
+      .where(and(eq(payoutMethods.clientId, clientId), eq(payoutMethods.isActive, true)))
+      .orderBy(desc(payoutMethods.createdAt));
+  }
+
+  async getAllPayoutMethods(): Promise<PayoutMethod[]> {
+    return await this.db.select().from(payoutMethods).orderBy(desc(payoutMethods.createdAt));
+  }
+
+  async getPayoutMethodById(id: string): Promise<PayoutMethod | null> {
+    const result = await this.db.select().from(payoutMethods).where(eq(payoutMethods.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async setPayoutMethodVerified(id: string, isVerified: boolean, adminId: string): Promise<PayoutMethod | null> {
+    const result = await this.db.update(payoutMethods)
+      .set({
+        isVerified,
+        verifiedBy: isVerified ? adminId : null,
+        verifiedAt: isVerified ? new Date() : null,
+      })
+      .where(eq(payoutMethods.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  async removePayoutMethod(id: string): Promise<boolean> {
+    const result = await this.db.update(payoutMethods)
+      .set({ isActive: false })
+      .where(and(eq(payoutMethods.id, id), eq(payoutMethods.isActive, true)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Withdrawals management
+  async createWithdrawal(clientId: string, withdrawal: CreateWithdrawalRequest): Promise<Withdrawal> {
+    const { currency } = await this.getAppSettings();
+    return await this.db.transaction(async (tx) => {
+      // Serialize balance checks per client so concurrent requests cannot overdraw
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${clientId}))`);
+      const methodResult = await tx.select().from(payoutMethods).where(eq(payoutMethods.id, withdrawal.payoutMethodId)).limit(1);
+      const method = assertUsablePayoutMethod(methodResult[0], clientId);
+      const entries = await tx.select().from(ledgerEntries).where(eq(ledgerEntries.clientId, clientId));
+      const balance = computeWalletBalance(entries, currency);
+      if (withdrawal.amount > balance.available) {
+        throw insufficientBalanceError(withdrawal.amount, balance);
+      }
+      const clientResult = await tx.select().from(users).where(eq(users.id, clientId)).limit(1);
+      const deductions = assertNetPayable(calculateDeductions(withdrawal.amount, { pan: clientResult[0]?.pan || null }));
+
+      const result = await tx.insert(withdrawals).values({
+        clientId,
+        amount: withdrawal.amount,
+        currency: balance.currency,
+        tdsRate: deductions.tdsRate,
+        tdsAmount: deductions.tdsAmount,
+        adminCharge: deductions.adminCharge,
+        netAmount: deductions.netAmount,
+        bankDetails: describePayoutMethod(method),
+        payoutMethodId: method.id,
+      }).returning();
+      await new PostgreSQLStorage(tx).postLedgerEntries(withdrawalHoldEntries(result[0]));
+      await tx.insert(withdrawalEvents).values({
+        withdrawalId: result[0].id,
+        toStatus: "pending",
+        actorId: clientId,
+      });
+      return result[0];
+    });
+  }
+
   async getWithdrawalsByClient(clientId: string): Promise<Withdrawal[]> {
     return await this.db.select().from(withdrawals).where(eq(withdrawals.clientId, clientId)).orderBy(desc(withdrawals.requestedAt));
   }
@@ -899,14 +2190,159 @@ export class PostgreSQLStorage implements IStorage {
     return await this.db.select().from(withdrawals).orderBy(desc(withdrawals.requestedAt));
   }
 
-  async updateWithdrawalStatus(withdrawalId: string, status: string, adminNotes?: string): Promise<Withdrawal | null> {
-    const updateData: any = { status };
-    if (adminNotes) updateData.adminNotes = adminNotes;
-    if (status !== "pending") updateData.processedAt = new Date();
-    
-    const result = await this.db.update(withdrawals).set(updateData).where(eq(withdrawals.id, withdrawalId)).returning();
+  async getWithdrawalById(id: string): Promise<Withdrawal | null> {
+    const result = await this.db.select().from(withdrawals).where(eq(withdrawals.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async updateWithdrawalStatus(withdrawalId: string, status: string, actorId: string, adminNotes?: string): Promise<Withdrawal | null> {
+    return await this.db.transaction(async (tx) => {
+      const existing = await tx.select().from(withdrawals).where(eq(withdrawals.id, withdrawalId)).for("update");
+      if (!existing[0]) return null;
+
+      if (status === "approved") {
+        // Held until commit, so the method cannot be unverified mid-approval
+        const method = existing[0].payoutMethodId
+          ? await tx.select().from(payoutMethods).where(eq(payoutMethods.id, existing[0].payoutMethodId)).for("share")
+          : [];
+        assertApprovablePayoutMethod(method[0]);
+      }
+      return await this.applyWithdrawalStatus(tx, existing[0], status, actorId, adminNotes);
+    });
+  }
+
+  async getWithdrawalEvents(withdrawalId: string): Promise<WithdrawalEvent[]> {
+    return await this.db.select().from(withdrawalEvents).where(eq(withdrawalEvents.withdrawalId, withdrawalId)).orderBy(withdrawalEvents.createdAt);
+  }
+
+  private async applyWithdrawalStatus(
+    tx: Transaction,
+    withdrawal: Withdrawal,
+    status: string,
+    actorId: string,
+    notes?: string,
+    extra: Partial<typeof withdrawals.$inferInsert> = {}
+  ): Promise<Withdrawal> {
+    assertWithdrawalTransition(withdrawal, status);
+
+    await new PostgreSQLStorage(tx).postLedgerEntries(withdrawalStatusEntries(withdrawal, status));
+    await tx.insert(withdrawalEvents).values({
+      withdrawalId: withdrawal.id,
+      fromStatus: withdrawal.status,
+      toStatus: status,
+      actorId,
+      notes: notes || null,
+    });
+
+    const processedAt = new Date();
+    const updateData: Partial<typeof withdrawals.$inferInsert> = { ...extra, status, processedAt };
+    if (status === "approved") updateData.approvedAt = processedAt;
+    if (notes) updateData.adminNotes = notes;
+
+    const result = await tx.update(withdrawals).set(updateData).where(eq(withdrawals.id, withdrawal.id)).returning();
+    return result[0];
+  }
+
+  // Payment intents
+  async createPaymentIntent(intent: InsertPaymentIntent): Promise<PaymentIntent> {
+    const result = await this.db.insert(paymentIntents).values(intent).returning();
+    return result[0];
+  }
+
+  async getPaymentIntent(id: string): Promise<PaymentIntent | null> {
+    const result = await this.db.select().from(paymentIntents).where(eq(paymentIntents.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async getPaymentIntentByOrderId(provider: string, providerOrderId: string): Promise<PaymentIntent | null> {
+    const result = await this.db.select().from(paymentIntents)
+      .where(and(eq(paymentIntents.provider, provider), eq(paymentIntents.providerOrderId, providerOrderId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  // Only an intent that is still "created" can be settled, so a webhook
+  // delivered twice is applied once
+  async settlePaymentIntent(id: string, status: "paid" | "failed", providerPaymentId: string | null, failureReason?: string): Promise<PaymentIntent | null> {
+    const result = await this.db.update(paymentIntents)
+      .set({
+        status,
+        providerPaymentId,
+        failureReason: failureReason || null,
+        settledAt: new Date(),
+      })
+      .where(and(eq(paymentIntents.id, id), eq(paymentIntents.status, "created")))
+      .returning();
+    return result[0] || null;
+  }
+
+  async updatePaymentIntentResult(id: string, clientId: string | null, failureReason?: string): Promise<PaymentIntent | null> {
+    const result = await this.db.update(paymentIntents)
+      .set({ clientId, failureReason: failureReason || null })
+      .where(and(eq(paymentIntents.id, id), isNull(paymentIntents.clientId)))
+      .returning();
+    return result[0] || null;
+  }
+
+  // Payout batches
+  async createPayoutBatch(withdrawalIds: string[], adminId: string): Promise<PayoutBatch> {
+    return await this.db.transaction(async (tx) => {
+      const batchWithdrawals = withdrawalIds.length > 0
+        ? await tx.select().from(withdrawals).where(inArray(withdrawals.id, withdrawalIds)).for("update")
+        : [];
+      assertBatchable(withdrawalIds, batchWithdrawals);
+
+      const result = await tx.insert(payoutBatches).values({
+        reference: generateBatchReference(),
+        totalAmount: batchWithdrawals.reduce((sum, w) => sum + w.netAmount, 0),
+        currency: batchWithdrawals[0].currency,
+        withdrawalCount: batchWithdrawals.length,
+        createdBy: adminId,
+      }).returning();
+      const batch = result[0];
+
+      for (const withdrawal of batchWithdrawals) {
+        await this.applyWithdrawalStatus(tx, withdrawal, "processing", adminId, `Added to payout batch ${batch.reference}`, { batchId: batch.id });
+      }
+      return batch;
+    });
+  }
+
+  async getAllPayoutBatches(): Promise<PayoutBatch[]> {
+    return await this.db.select().from(payoutBatches).orderBy(desc(payoutBatches.createdAt));
+  }
+
+  async getPayoutBatch(id: string): Promise<PayoutBatch | null> {
+    const result = await this.db.select().from(payoutBatches).where(eq(payoutBatches.id, id)).limit(1);
     return result[0] || null;
   }
+
+  async getWithdrawalsByBatch(batchId: string): Promise<Withdrawal[]> {
+    return await this.db.select().from(withdrawals).where(eq(withdrawals.batchId, batchId)).orderBy(withdrawals.requestedAt);
+  }
+
+  async markPayoutBatchPaid(id: string, adminId: string): Promise<PayoutBatch | null> {
+    return await this.db.transaction(async (tx) => {
+      const existing = await tx.select().from(payoutBatches).where(eq(payoutBatches.id, id)).for("update");
+      const batch = existing[0];
+      if (!batch) return null;
+      if (batch.status === "paid") {
+        throw new Error("Payout batch is already marked as paid");
+      }
+
+      const batchWithdrawals = await tx.select().from(withdrawals).where(eq(withdrawals.batchId, id)).for("update");
+      for (const withdrawal of batchWithdrawals) {
+        await this.applyWithdrawalStatus(tx, withdrawal, "completed", adminId, `Paid in batch ${batch.reference}`);
+      }
+
+      const result = await tx.update(payoutBatches).set({
+        status: "paid",
+        paidBy: adminId,
+        paidAt: new Date(),
+      }).where(eq(payoutBatches.id, id)).returning();
+      return result[0];
+    });
+  }
 }
 
 // Use PostgreSQL storage in production, MemStorage for development/testing
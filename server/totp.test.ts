@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { base32Encode, generateTotp, totpStep, verifyTotp } from "./totp";
+
+// The SHA-1 seed from RFC 6238 appendix B
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+test("generateTotp matches the RFC 6238 test vectors", () => {
+  // The RFC lists 8-digit values; apps show the last 6
+  const vectors: [number, string][] = [
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1111111111, "14050471"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+  ];
+  for (const [seconds, expected] of vectors) {
+    assert.equal(generateTotp(RFC_SECRET, seconds * 1000), expected.slice(-6), `T = ${seconds}`);
+  }
+});
+
+test("verifyTotp accepts one step of drift either way and no more", () => {
+  const now = 1234567890 * 1000;
+  const step = totpStep(now);
+  const codeAt = (offset: number) => generateTotp(RFC_SECRET, now + offset * 30_000);
+
+  assert.equal(verifyTotp(RFC_SECRET, codeAt(0), now), step);
+  assert.equal(verifyTotp(RFC_SECRET, codeAt(-1), now), step - 1);
+  assert.equal(verifyTotp(RFC_SECRET, codeAt(1), now), step + 1);
+  assert.equal(verifyTotp(RFC_SECRET, codeAt(-2), now), null);
+  assert.equal(verifyTotp(RFC_SECRET, codeAt(2), now), null);
+});
+
+test("verifyTotp refuses steps at or before the last one used", () => {
+  const now = 1234567890 * 1000;
+  const step = totpStep(now);
+
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now, step), null);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30_000), now, step), null);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30_000), now, step), step + 1);
+});
@@ -0,0 +1,103 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 time-based one-time passwords as authenticator apps expect them:
+// SHA-1, 6 digits, 30 second steps
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, for clock drift between phone and server
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.replace(/[\s=]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpStep(now: number): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+// The HOTP value for one counter (RFC 4226)
+export function generateHotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+export function generateTotp(secret: string, now: number = Date.now()): string {
+  return generateHotp(secret, totpStep(now));
+}
+
+// The step a code matches, or null. Steps at or before lastUsedStep are
+// refused so a code cannot be replayed.
+export function verifyTotp(secret: string, code: string, now: number = Date.now(), lastUsedStep?: number | null): number | null {
+  const candidate = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(candidate)) return null;
+
+  const current = totpStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(generateHotp(secret, step)), Buffer.from(candidate))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Provisioning URI for the QR code authenticator apps scan
+export function buildOtpauthUrl(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Recovery codes are random enough that a plain SHA-256 is a safe way to store them
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randomBytes(5)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.trim().toLowerCase().replace(/[\s-]/g, "")).digest("hex");
+}
@@ -0,0 +1,182 @@
+import type { IntegrityIssue, IntegrityIssueType, IntegrityRepair, IntegrityReport, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { Placement, TreePosition } from "./placement";
+
+const positions: TreePosition[] = ["left", "right"];
+
+function isSlot(position: string | null): position is TreePosition {
+  return position === "left" || position === "right";
+}
+
+function displayName(user: User): string {
+  return user.name || user.username;
+}
+
+function byCreation(a: User, b: User): number {
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+// Members whose parent chain loops back on itself. Each cycle is reported
+// once, on its oldest member, which is where a repair breaks it.
+function findCycles(users: User[], byId: Map<string, User>): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const onCycle = new Set<string>();
+  for (const user of users) {
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let current: User | undefined = user;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      path.push(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    if (!current || onCycle.has(current.id)) continue;
+
+    const cycle = path.slice(path.indexOf(current.id)).map(id => byId.get(id)!);
+    cycle.forEach(member => onCycle.add(member.id));
+    const breakAt = [...cycle].sort(byCreation)[0];
+    issues.push({
+      type: "cycle",
+      userId: breakAt.id,
+      detail: `${displayName(breakAt)} is their own ancestor through ${cycle.length} member(s)`,
+      repairable: true,
+    });
+  }
+  return issues;
+}
+
+// Check a snapshot of every user. Pure, so the endpoint and CLI report the same thing.
+export function findIntegrityIssues(users: User[]): IntegrityIssue[] {
+  const byId = new Map(users.map(user => [user.id, user]));
+  const issues = findCycles(users, byId);
+  const add = (type: IntegrityIssueType, user: User, detail: string, repairable = true) => {
+    issues.push({ type, userId: user.id, detail, repairable });
+  };
+
+  const seated = new Map<string, User[]>();
+  for (const user of users) {
+    if (user.role === "admin") {
+      if (user.parentId) add("role_mismatch", user, `Admin ${displayName(user)} is placed under another user`, false);
+      continue;
+    }
+    if (user.role !== "client") {
+      add("role_mismatch", user, `${displayName(user)} has unknown role "${user.role}"`, false);
+      continue;
+    }
+    if (user.sponsorId && !byId.has(user.sponsorId)) {
+      add("missing_sponsor", user, `${displayName(user)} names a sponsor that no longer exists`, false);
+    }
+
+    if (!user.parentId) {
+      if (isSlot(user.position)) {
+        add("position_without_parent", user, `${displayName(user)} has a ${user.position} position but no parent`);
+      } else if (user.status === "active") {
+        // Deactivated clients are detached on purpose when deleted
+        add("orphan", user, `${displayName(user)} is not in the tree`);
+      }
+    } else if (!byId.has(user.parentId)) {
+      add("missing_parent", user, `${displayName(user)} is placed under a user that no longer exists`);
+    } else if (!isSlot(user.position)) {
+      add("missing_position", user, `${displayName(user)} has a parent but no left/right position`);
+    } else {
+      seated.set(user.parentId, (seated.get(user.parentId) || []).concat(user));
+    }
+  }
+
+  // The oldest child keeps a slot; later ones are the extras
+  seated.forEach((children, parentId) => {
+    const parent = byId.get(parentId)!;
+    const taken = new Set<string>();
+    children.sort(byCreation).forEach((child, index) => {
+      if (index >= 2) {
+        add("too_many_children", child, `${displayName(parent)} has ${children.length} children; ${displayName(child)} is extra`);
+      } else if (taken.has(child.position!)) {
+        add("duplicate_slot", child, `${displayName(child)} shares the ${child.position} slot under ${displayName(parent)}`);
+      }
+      taken.add(child.position!);
+    });
+  });
+
+  return issues;
+}
+
+// The member and everyone seated below them, guarding against cycles
+function subtreeIds(rootId: string, users: User[]): Set<string> {
+  const ids = new Set<string>([rootId]);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    for (const child of users.filter(u => u.parentId === parentId && !ids.has(u.id))) {
+      ids.add(child.id);
+      queue.push(child.id);
+    }
+  }
+  return ids;
+}
+
+// First free slot level by level from root, never inside the moving subtree
+function firstFreeSlot(rootId: string, users: User[], excluded: Set<string>): Placement {
+  const queue = [rootId];
+  const visited = new Set<string>();
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    if (visited.has(parentId)) continue;
+    visited.add(parentId);
+    const children = users.filter(u => u.parentId === parentId);
+    const free = positions.find(position => !children.some(child => child.position === position));
+    if (free) {
+      return { parentId, position: free };
+    }
+    for (const position of positions) {
+      const child = children.find(c => c.position === position);
+      if (child && !excluded.has(child.id)) queue.push(child.id);
+    }
+  }
+  throw new Error("No free slot found");
+}
+
+// Re-seat each repairable member with their subtree, under their sponsor when
+// that is safe and otherwise under the first admin. BV is not shifted, since
+// broken links never carried it reliably; each move lands in the audit trail.
+export async function repairIntegrityIssues(storage: IStorage, issues: IntegrityIssue[], actorId?: string): Promise<IntegrityRepair[]> {
+  const users = (await storage.getAllUsers()).map(user => ({ ...user }));
+  const admin = users.find(user => user.role === "admin");
+  if (!admin) return [];
+
+  const repairs: IntegrityRepair[] = [];
+  for (const issue of issues.filter(issue => issue.repairable)) {
+    const user = users.find(u => u.id === issue.userId);
+    // One move fixes every issue a member has
+    if (!user || repairs.some(repair => repair.userId === user.id)) continue;
+
+    const subtree = subtreeIds(user.id, users);
+    const sponsor = users.find(u => u.id === user.sponsorId);
+    const root = sponsor && !subtree.has(sponsor.id) && sponsor.status === "active" ? sponsor : admin;
+    const slot = firstFreeSlot(root.id, users, subtree);
+
+    await storage.moveSubtree(slot.parentId, async () => ({
+      plan: {
+        userId: user.id,
+        from: { parentId: user.parentId, position: user.position },
+        to: slot,
+        subtreeSize: subtree.size,
+        subtreeBv: 0,
+        volumeChanges: [],
+      },
+      volumes: [],
+    }), actorId || admin.id, `Integrity repair: ${issue.type}`);
+
+    user.parentId = slot.parentId;
+    user.position = slot.position;
+    const parent = users.find(u => u.id === slot.parentId)!;
+    repairs.push({ userId: user.id, issue: issue.type, action: `Moved to the ${slot.position} of ${displayName(parent)}` });
+  }
+  return repairs;
+}
+
+export async function checkTreeIntegrity(storage: IStorage, options: { repair?: boolean; actorId?: string } = {}): Promise<IntegrityReport> {
+  const users = await storage.getAllUsers();
+  const issues = findIntegrityIssues(users);
+  const repairs = options.repair ? await repairIntegrityIssues(storage, issues, options.actorId) : [];
+  return { checkedAt: new Date().toISOString(), userCount: users.length, issues, repairs };
+}
@@ -0,0 +1,119 @@
+import type { BinaryVolume, MoveSubtreeRequest, PlacementChange, SubtreeMovePlan, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { isWithinSubtree, type TreePosition } from "./placement";
+
+type VolumeDelta = { left: number; right: number };
+
+// Walk up from a slot, noting which leg of each client ancestor it sits in
+// and how far below the top of the tree it is. Admins sit at the root and
+// hold no volume, as in addBusinessVolume.
+async function addUplineDeltas(
+  storage: IStorage,
+  deltas: Map<string, VolumeDelta>,
+  depths: Map<string, number>,
+  parentId: string | null,
+  position: string | null,
+  bv: number
+): Promise<void> {
+  const path: string[] = [];
+  while (parentId && !path.includes(parentId)) {
+    const ancestor = await storage.getUserById(parentId);
+    if (!ancestor || ancestor.role !== "client") break;
+    path.push(ancestor.id);
+    if (position === "left" || position === "right") {
+      const delta = deltas.get(ancestor.id) || { left: 0, right: 0 };
+      delta[position] += bv;
+      deltas.set(ancestor.id, delta);
+    }
+    parentId = ancestor.parentId;
+    position = ancestor.position;
+  }
+  path.forEach((id, index) => depths.set(id, path.length - index));
+}
+
+// BV the subtree contributed: each member's plan BV, as credited when they joined
+async function subtreeBusinessVolume(storage: IStorage, members: User[]): Promise<number> {
+  const plans = new Map((await storage.getAllPlans()).map(plan => [plan.id, plan]));
+  return members.reduce((sum, member) => {
+    const plan = member.planId ? plans.get(member.planId) : undefined;
+    return sum + (plan ? parseInt(plan.businessVolume, 10) || 0 : 0);
+  }, 0);
+}
+
+// Validate a move and work out its effect without changing anything
+export async function planSubtreeMove(storage: IStorage, userId: string, target: Pick<MoveSubtreeRequest, "parentId" | "position">): Promise<SubtreeMovePlan> {
+  const user = await storage.getUserById(userId);
+  if (!user || user.role !== "client") {
+    throw new Error("Client not found");
+  }
+  const parent = await storage.getUserById(target.parentId);
+  if (!parent) {
+    throw new Error("Target parent not found");
+  }
+  if (user.parentId === target.parentId && user.position === target.position) {
+    throw new Error("The client is already in that position");
+  }
+  if (await isWithinSubtree(storage, user.id, parent.id)) {
+    throw new Error("A client cannot be moved under themselves or their own downline");
+  }
+  const children = await storage.getClientsByParent(parent.id);
+  if (children.some(child => child.position === target.position)) {
+    throw new Error(`The ${target.position} position under this parent is already taken`);
+  }
+
+  const members = [user, ...(await storage.getClientDownline(user.id))];
+  const subtreeBv = await subtreeBusinessVolume(storage, members);
+  const deltas = new Map<string, VolumeDelta>();
+  const depths = new Map<string, number>();
+  await addUplineDeltas(storage, deltas, depths, user.parentId, user.position, -subtreeBv);
+  await addUplineDeltas(storage, deltas, depths, parent.id, target.position, subtreeBv);
+
+  return {
+    userId: user.id,
+    from: { parentId: user.parentId, position: user.position },
+    to: { parentId: parent.id, position: target.position as TreePosition },
+    subtreeSize: members.length,
+    subtreeBv,
+    // Shared ancestors whose leg did not change net out to nothing. Deepest
+    // first, the order joins lock volumes in, so the two cannot deadlock.
+    volumeChanges: Array.from(deltas, ([clientId, delta]) => ({ clientId, ...delta }))
+      .filter(change => change.left !== 0 || change.right !== 0)
+      .sort((a, b) => depths.get(b.clientId)! - depths.get(a.clientId)! || a.clientId.localeCompare(b.clientId)),
+  };
+}
+
+// Shift lifetime BV and unmatched carry by the move's deltas. Pairs already
+// paid are neither reversed nor paid here; a larger carry is matched the next
+// time BV reaches the member. The volumes stay locked until the move commits.
+export async function adjustedVolumes(storage: IStorage, plan: SubtreeMovePlan, now: Date = new Date()): Promise<BinaryVolume[]> {
+  const volumes: BinaryVolume[] = [];
+  for (const change of plan.volumeChanges) {
+    const volume = await storage.getBinaryVolumeForUpdate(change.clientId);
+    volume.leftBv = Math.max(volume.leftBv + change.left, 0);
+    volume.rightBv = Math.max(volume.rightBv + change.right, 0);
+    volume.leftCarry = Math.max(volume.leftCarry + change.left, 0);
+    volume.rightCarry = Math.max(volume.rightCarry + change.right, 0);
+    volume.updatedAt = now;
+    volumes.push(volume);
+  }
+  return volumes;
+}
+
+// Dry runs return the plan only; otherwise the move is planned again with the
+// target parent locked, in case a join or another move changed the tree, and
+// then applied and audited
+export async function moveClientSubtree(
+  storage: IStorage,
+  userId: string,
+  request: MoveSubtreeRequest,
+  adminId: string
+): Promise<{ plan: SubtreeMovePlan; change: PlacementChange | null }> {
+  if (request.dryRun) {
+    return { plan: await planSubtreeMove(storage, userId, request), change: null };
+  }
+  const { plan, change } = await storage.moveSubtree(request.parentId, async (locked) => {
+    const lockedPlan = await planSubtreeMove(locked, userId, request);
+    return { plan: lockedPlan, volumes: await adjustedVolumes(locked, lockedPlan) };
+  }, adminId, request.reason);
+  return { plan, change };
+}
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { generateTotp } from "./totp";
+import { beginTwoFactorSetup, confirmTwoFactorSetup, verifyTwoFactorCode } from "./two-factor";
+
+const START = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+async function enrolledUser() {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: "admin", password: "admin-password", role: "admin" });
+  const { secret } = await beginTwoFactorSetup(storage, user);
+  const recoveryCodes = await confirmTwoFactorSetup(storage, user.id, generateTotp(secret, START), START);
+  return { storage, user, secret, recoveryCodes };
+}
+
+test("a TOTP code is accepted once and refused when replayed", async () => {
+  const { storage, user, secret } = await enrolledUser();
+  const later = START + 60_000;
+  const code = generateTotp(secret, later);
+
+  assert.equal(await verifyTwoFactorCode(storage, user.id, code, later), true);
+  assert.equal(await verifyTwoFactorCode(storage, user.id, code, later), false);
+  // Still inside the drift window, but the step has been used
+  assert.equal(await verifyTwoFactorCode(storage, user.id, code, later + 30_000), false);
+  // The code used to confirm enrolment cannot be replayed either
+  assert.equal(await verifyTwoFactorCode(storage, user.id, generateTotp(secret, START), START), false);
+});
+
+test("simultaneous requests with one TOTP code let only one through", async () => {
+  const { storage, user, secret } = await enrolledUser();
+  const later = START + 60_000;
+  const code = generateTotp(secret, later);
+
+  const results = await Promise.all([1, 2, 3].map(() => verifyTwoFactorCode(storage, user.id, code, later)));
+  assert.deepEqual(results.sort(), [false, false, true]);
+});
+
+test("a recovery code works once", async () => {
+  const { storage, user, recoveryCodes } = await enrolledUser();
+  const [code] = recoveryCodes;
+
+  assert.equal(await verifyTwoFactorCode(storage, user.id, code.toUpperCase(), START), true);
+  assert.equal(await verifyTwoFactorCode(storage, user.id, code, START), false);
+  assert.equal((await storage.getTwoFactorSettings(user.id))!.recoveryCodeHashes.length, recoveryCodes.length - 1);
+});
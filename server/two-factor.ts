@@ -0,0 +1,102 @@
+import type { TwoFactorChallenge, TwoFactorEnrollment, TwoFactorStatus, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { renderQrSvg } from "./upi";
+import { buildOtpauthUrl, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, verifyTotp } from "./totp";
+
+const ISSUER = process.env.TOTP_ISSUER || "Napping Hand Academy";
+
+// What login still needs after the password: a code, enrolment (when the
+// role makes 2FA mandatory), or nothing
+export async function twoFactorChallengeFor(storage: IStorage, user: User): Promise<TwoFactorChallenge | null> {
+  const settings = await storage.getTwoFactorSettings(user.id);
+  if (settings?.enabledAt) return { twoFactor: "verify" };
+  if (user.role === "admin" && (await storage.getAppSettings()).requireAdminTwoFactor) {
+    return { twoFactor: "setup" };
+  }
+  return null;
+}
+
+export async function getTwoFactorStatus(storage: IStorage, user: User): Promise<TwoFactorStatus> {
+  const settings = await storage.getTwoFactorSettings(user.id);
+  const required = user.role === "admin" && (await storage.getAppSettings()).requireAdminTwoFactor;
+  return {
+    enabled: !!settings?.enabledAt,
+    required,
+    recoveryCodesLeft: settings?.enabledAt ? settings.recoveryCodeHashes.length : 0,
+  };
+}
+
+// Start (or restart) enrolment with a fresh secret. Nothing changes for login
+// until the first code is confirmed.
+export async function beginTwoFactorSetup(storage: IStorage, user: User): Promise<TwoFactorEnrollment> {
+  const existing = await storage.getTwoFactorSettings(user.id);
+  if (existing?.enabledAt) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  await storage.saveTwoFactorSettings({ userId: user.id, secret, enabledAt: null, recoveryCodeHashes: [], lastUsedStep: null });
+  const otpauthUrl = buildOtpauthUrl(secret, user.username, ISSUER);
+  return { secret, otpauthUrl, qrSvg: await renderQrSvg(otpauthUrl) };
+}
+
+// Confirm enrolment with a code from the app. Returns the recovery codes,
+// which are only ever shown this once.
+export async function confirmTwoFactorSetup(storage: IStorage, userId: string, code: string, now = Date.now()): Promise<string[]> {
+  const settings = await storage.getTwoFactorSettings(userId);
+  if (!settings || settings.enabledAt) {
+    throw new Error("Start two-factor setup first");
+  }
+  const step = verifyTotp(settings.secret, code, now);
+  if (step === null) {
+    throw new Error("Invalid authentication code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.saveTwoFactorSettings({
+    ...settings,
+    enabledAt: new Date(now),
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedStep: step,
+  });
+  return recoveryCodes;
+}
+
+// Accept a current TOTP code or an unused recovery code, consuming either.
+// The claim is conditional, so of two requests racing with one code only the
+// first gets through.
+export async function verifyTwoFactorCode(storage: IStorage, userId: string, code: string, now = Date.now()): Promise<boolean> {
+  const settings = await storage.getTwoFactorSettings(userId);
+  if (!settings?.enabledAt) return false;
+
+  const step = verifyTotp(settings.secret, code, now, settings.lastUsedStep);
+  if (step !== null) {
+    return await storage.claimTwoFactorStep(userId, step);
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (settings.recoveryCodeHashes.includes(hash)) {
+    return await storage.consumeRecoveryCode(userId, hash);
+  }
+  return false;
+}
+
+export async function disableTwoFactor(storage: IStorage, user: User, code: string, now = Date.now()): Promise<void> {
+  if (user.role === "admin" && (await storage.getAppSettings()).requireAdminTwoFactor) {
+    throw new Error("Two-factor authentication is required for admins");
+  }
+  if (!(await verifyTwoFactorCode(storage, user.id, code, now))) {
+    throw new Error("Invalid authentication code");
+  }
+  await storage.deleteTwoFactorSettings(user.id);
+}
+
+export async function regenerateRecoveryCodes(storage: IStorage, userId: string, code: string, now = Date.now()): Promise<string[]> {
+  if (!(await verifyTwoFactorCode(storage, userId, code, now))) {
+    throw new Error("Invalid authentication code");
+  }
+  const settings = (await storage.getTwoFactorSettings(userId))!;
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.saveTwoFactorSettings({ ...settings, recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+}
@@ -0,0 +1,44 @@
+import QRCode from "qrcode";
+import { fromMinorUnits } from "@shared/money";
+import type { AppSettings } from "@shared/schema";
+
+export interface UpiPayee {
+  vpa: string;
+  name: string;
+}
+
+// Payee for UPI collection QRs, from the organisation settings or else the
+// environment, e.g. UPI_PAYEE_VPA=nappinghand@okaxis
+export function getUpiPayee(settings: AppSettings): UpiPayee | null {
+  const vpa = settings.upiPayeeVpa || process.env.UPI_PAYEE_VPA;
+  if (!vpa) return null;
+  const name = settings.upiPayeeName || process.env.UPI_PAYEE_NAME || settings.companyName || "Napping Hand";
+  return { vpa, name };
+}
+
+// UPI transaction references are alphanumeric and at most 35 characters
+export function toUpiReference(reference: string): string {
+  return reference.replace(/[^A-Za-z0-9]/g, "").slice(0, 35);
+}
+
+// upi://pay deep link (NPCI linking spec) for a fixed amount
+export function buildUpiLink(payee: UpiPayee, amount: number, currency: string, reference: string, note: string): string {
+  const params = [
+    ["pa", payee.vpa],
+    ["pn", payee.name],
+    ["am", fromMinorUnits(amount).toFixed(2)],
+    ["cu", currency],
+    ["tr", toUpiReference(reference)],
+    ["tn", note.slice(0, 80)],
+  ];
+  // UPI apps expect the "@" in a VPA unescaped
+  return "upi://pay?" + params.map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, "@")}`).join("&");
+}
+
+export async function renderQrSvg(text: string): Promise<string> {
+  return await QRCode.toString(text, { type: "svg", errorCorrectionLevel: "M", margin: 2 });
+}
+
+export async function renderQrPng(text: string): Promise<Buffer> {
+  return await QRCode.toBuffer(text, { type: "png", errorCorrectionLevel: "M", margin: 2, width: 320 });
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from "crypto";
+import type { Earning, Withdrawal, LedgerEntry, InsertLedgerEntry } from "@shared/schema";
+import { DEFAULT_CURRENCY, formatMoney } from "@shared/money";
+
+// Ledger accounts. Wallet accounts belong to a client; the others are the
+// system side of each posting.
+export const WALLET_AVAILABLE = "wallet_available";
+export const WALLET_HELD = "wallet_held";
+export const COMMISSION_EXPENSE = "commission_expense";
+export const PAYOUTS = "payouts";
+export const TDS_PAYABLE = "tds_payable";
+export const ADMIN_CHARGES = "admin_charges";
+
+export interface WalletBalance {
+  available: number;
+  held: number;
+  lifetime: number; // Everything ever credited by earnings
+  withdrawn: number; // Everything paid out, net of deductions
+  currency: string;
+}
+
+type Posting = Pick<InsertLedgerEntry, "account" | "amount">;
+
+function buildTransaction(
+  clientId: string,
+  entryType: string,
+  referenceId: string,
+  description: string,
+  currency: string,
+  postings: Posting[]
+): InsertLedgerEntry[] {
+  const transactionId = randomUUID();
+  return postings.filter(posting => posting.amount !== 0).map(posting => ({
+    transactionId,
+    clientId,
+    account: posting.account,
+    amount: posting.amount,
+    currency,
+    entryType,
+    referenceId,
+    description,
+  }));
+}
+
+export function assertBalanced(entries: InsertLedgerEntry[]): void {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(entry.transactionId, (totals.get(entry.transactionId) || 0) + entry.amount);
+  }
+  totals.forEach((total, transactionId) => {
+    if (total !== 0) {
+      throw new Error(`Ledger transaction ${transactionId} is unbalanced by ${total}`);
+    }
+  });
+}
+
+// Earning: commission expense -> available balance
+export function earningCreditEntries(earning: Earning): InsertLedgerEntry[] {
+  return buildTransaction(earning.clientId, "earning", earning.id, earning.description, earning.currency, [
+    { account: WALLET_AVAILABLE, amount: earning.amount },
+    { account: COMMISSION_EXPENSE, amount: -earning.amount },
+  ]);
+}
+
+// Withdrawal request: available -> held
+export function withdrawalHoldEntries(withdrawal: Withdrawal): InsertLedgerEntry[] {
+  return buildTransaction(withdrawal.clientId, "withdrawal_hold", withdrawal.id, "Withdrawal requested", withdrawal.currency, [
+    { account: WALLET_AVAILABLE, amount: -withdrawal.amount },
+    { account: WALLET_HELD, amount: withdrawal.amount },
+  ]);
+}
+
+// Pending withdrawal rejected or cancelled: held -> available
+export function withdrawalReleaseEntries(withdrawal: Withdrawal, status: string): InsertLedgerEntry[] {
+  return buildTransaction(withdrawal.clientId, "withdrawal_release", withdrawal.id, `Withdrawal ${status}`, withdrawal.currency, [
+    { account: WALLET_HELD, amount: -withdrawal.amount },
+    { account: WALLET_AVAILABLE, amount: withdrawal.amount },
+  ]);
+}
+
+// Withdrawal approved: held -> net payout, with TDS and the admin charge
+// split off from the gross amount
+export function withdrawalPayoutEntries(withdrawal: Withdrawal): InsertLedgerEntry[] {
+  return buildTransaction(withdrawal.clientId, "withdrawal_payout", withdrawal.id, "Withdrawal approved", withdrawal.currency, [
+    { account: WALLET_HELD, amount: -withdrawal.amount },
+    { account: PAYOUTS, amount: withdrawal.netAmount },
+    { account: TDS_PAYABLE, amount: withdrawal.tdsAmount },
+    { account: ADMIN_CHARGES, amount: withdrawal.adminCharge },
+  ]);
+}
+
+// Approved withdrawal rejected or cancelled before processing: the payout
+// and its deductions go back to available
+export function withdrawalReversalEntries(withdrawal: Withdrawal, status: string): InsertLedgerEntry[] {
+  return buildTransaction(withdrawal.clientId, "withdrawal_reversal", withdrawal.id, `Withdrawal ${status} after approval`, withdrawal.currency, [
+    { account: PAYOUTS, amount: -withdrawal.netAmount },
+    { account: TDS_PAYABLE, amount: -withdrawal.tdsAmount },
+    { account: ADMIN_CHARGES, amount: -withdrawal.adminCharge },
+    { account: WALLET_AVAILABLE, amount: withdrawal.amount },
+  ]);
+}
+
+// Ledger postings needed when a withdrawal moves between statuses. Approval
+// debits the hold; rejection or cancellation gives the money back from
+// wherever it currently sits. Processing and completion move no money.
+export function withdrawalStatusEntries(withdrawal: Withdrawal, nextStatus: string): InsertLedgerEntry[] {
+  const refunded = nextStatus === "rejected" || nextStatus === "cancelled";
+  if (withdrawal.status === "pending" && nextStatus === "approved") return withdrawalPayoutEntries(withdrawal);
+  if (withdrawal.status === "pending" && refunded) return withdrawalReleaseEntries(withdrawal, nextStatus);
+  if (withdrawal.status === "approved" && refunded) return withdrawalReversalEntries(withdrawal, nextStatus);
+  return [];
+}
+
+// currency is reported for a wallet with no entries yet
+export function computeWalletBalance(entries: LedgerEntry[], currency: string = DEFAULT_CURRENCY): WalletBalance {
+  const balance: WalletBalance = { available: 0, held: 0, lifetime: 0, withdrawn: 0, currency };
+  for (const entry of entries) {
+    if (entry.account === WALLET_AVAILABLE) balance.available += entry.amount;
+    if (entry.account === WALLET_HELD) balance.held += entry.amount;
+    if (entry.account === PAYOUTS) balance.withdrawn += entry.amount;
+    if (entry.entryType === "earning" && entry.account === WALLET_AVAILABLE) balance.lifetime += entry.amount;
+    balance.currency = entry.currency;
+  }
+  return balance;
+}
+
+export function insufficientBalanceError(requested: number, balance: WalletBalance): Error {
+  return new Error(
+    `Insufficient balance: requested ${formatMoney(requested, balance.currency)} but only ${formatMoney(balance.available, balance.currency)} is available`
+  );
+}
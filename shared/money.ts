@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// Amounts are stored as integers in the currency's minor unit (paise for INR)
+export const DEFAULT_CURRENCY = "INR";
+
+// Currencies an installation can be set up with; all use two decimal places
+export const SUPPORTED_CURRENCIES = ["INR", "USD", "EUR", "GBP", "AED"] as const;
+
+const currencySymbols: Record<string, string> = {
+  INR: "₹",
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+};
+
+// Convert a major-unit amount (e.g. 510.5 or "510.50") to minor units
+export function toMinorUnits(amount: number | string): number {
+  const numericAmount = typeof amount === "string" ? parseFloat(amount) : amount;
+  if (isNaN(numericAmount)) return 0;
+  return Math.round(numericAmount * 100);
+}
+
+export function fromMinorUnits(minor: number): number {
+  return minor / 100;
+}
+
+// Format minor units for display, e.g. 51000 -> "₹510.00 INR"
+export function formatMoney(minor: number | null | undefined, currency: string = DEFAULT_CURRENCY): string {
+  const symbol = currencySymbols[currency] ?? "";
+  const major = fromMinorUnits(minor || 0);
+  return `${symbol}${major.toFixed(2)} ${currency}`;
+}
+
+// Form input for a major-unit amount typed by a user, e.g. "510.00"
+export const majorAmountSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a valid number");
+
+// API input for an amount already converted to minor units
+export const minorAmountSchema = z.number().int("Amount must be in minor units").nonnegative("Amount cannot be negative");
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, json, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, minorAmountSchema } from "./money";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -10,18 +11,27 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   email: text("email"), // Email for clients
   mobile: text("mobile"), // Mobile number for clients
+  pan: text("pan"), // PAN card number; TDS is deducted at a higher rate without it
   role: text("role").notNull().default("client"), // "admin" | "client"
-  package: text("package"), // "Silver" | "Gold" | "Diamond" (nullable for admins)
-  parentId: varchar("parent_id"), // For binary tree structure
+  planId: varchar("plan_id").references(() => plans.id), // Purchased plan (null for admins)
+  sponsorId: varchar("sponsor_id"), // Who recruited this user; earns the referral commission
+  parentId: varchar("parent_id"), // Placement parent in the binary tree; may differ from the sponsor after spillover
   position: text("position"), // "left" | "right" (position under parent)
+  status: text("status").notNull().default("active"), // "active" | "inactive" (soft deleted, cannot log in)
+  deactivatedAt: timestamp("deactivated_at"),
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Admins still on the old default password
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Each parent has at most one left and one right child; NULLs (roots) are exempt
+  uniqueIndex("users_parent_position_unique").on(table.parentId, table.position),
+]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   role: true,
-  package: true,
+  planId: true,
+  sponsorId: true,
   parentId: true,
   position: true,
 });
@@ -32,6 +42,11 @@ export const loginSchema = z.object({
   role: z.enum(["admin", "client"]),
 });
 
+// Where a new member is placed under their sponsor when the sponsor's own
+// slots are full; "manual" uses the requested position directly
+export const placementStrategies = ["extreme_left", "extreme_right", "breadth_first", "weaker_leg", "manual"] as const;
+export const placementStrategySchema = z.enum(placementStrategies);
+
 // Enhanced schema for client creation with validation
 export const createClientSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters").max(50, "Name must be less than 50 characters"),
@@ -39,29 +54,88 @@ export const createClientSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters").max(50, "Password must be less than 50 characters"),
   mobile: z.string().regex(/^[0-9]{10}$/, "Mobile number must be exactly 10 digits"),
   email: z.string().email("Please enter a valid email address"),
-  package: z.enum(["Silver", "Gold", "Diamond"], { required_error: "Please select a plan" }),
-  parentId: z.string().optional().nullable(),
-  position: z.enum(["left", "right"]).optional().nullable()
+  planId: z.string({ required_error: "Please select a plan" }).min(1, "Please select a plan"),
+  sponsorId: z.string().optional().nullable(), // Defaults to whoever creates the client
+  parentId: z.string().optional().nullable(), // Where placement starts; must be in the sponsor's subtree
+  position: z.enum(["left", "right"]).optional().nullable(),
+  placementStrategy: placementStrategySchema.optional(),
+});
+
+// How an admin removes a client: deactivate keeps everything in place; the
+// others take the user out of the tree, deleting the row only when no money
+// history references it
+export const deletionPolicies = ["deactivate", "block", "promote_child", "reattach_to_grandparent"] as const;
+export const deletionPolicySchema = z.enum(deletionPolicies);
+
+export const deleteClientSchema = z.object({
+  policy: deletionPolicySchema.default("deactivate"),
+});
+
+export const moveSubtreeSchema = z.object({
+  parentId: z.string().min(1, "Target parent is required"),
+  position: z.enum(["left", "right"], { required_error: "Target position is required" }),
+  reason: z.string().max(500, "Reason must be less than 500 characters").optional(),
+  dryRun: z.boolean().optional(),
+});
+
+export const placementPreviewSchema = z.object({
+  sponsorId: z.string().optional(),
+  strategy: placementStrategySchema.optional(),
+  position: z.enum(["left", "right"]).optional(),
+});
+
+// Levels of the placement tree returned per genealogy request
+export const MAX_GENEALOGY_DEPTH = 6;
+
+export const genealogyQuerySchema = z.object({
+  rootId: z.string().optional(),
+  depth: z.coerce.number().int().min(1).max(MAX_GENEALOGY_DEPTH).default(3),
+});
+
+export const genealogySearchSchema = z.object({
+  rootId: z.string().optional(),
+  username: z.string().trim().min(1, "Username is required"),
+});
+
+// A TOTP code, or a recovery code in place of one
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20, "Code is too long"),
+});
+
+export const updateSecuritySettingsSchema = z.object({
+  requireAdminTwoFactor: z.boolean(),
 });
 
-export const paymentConfirmationSchema = z.object({
+export const createPaymentIntentSchema = z.object({
   clientData: createClientSchema,
-  paymentConfirmed: z.boolean()
+});
+
+export const simulatePaymentSchema = z.object({
+  outcome: z.enum(["success", "failure"]),
 });
 
 // Plans table schema
 export const plans = pgTable("plans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  price: text("price").notNull(), // Stored as text to handle currency formatting
+  price: integer("price").notNull(), // Minor units (paise)
   businessVolume: text("business_volume").notNull(),
-  referralCommission: text("referral_commission").notNull(),
-  treeCommission: text("tree_commission").notNull(),
+  referralCommission: integer("referral_commission").notNull(), // Minor units (paise)
+  treeCommission: integer("tree_commission").notNull(), // Minor units (paise) paid per matched pair
+  dailyPairCap: integer("daily_pair_cap").notNull().default(0), // Pairs paid per day; 0 means no cap
+  monthlyPairCap: integer("monthly_pair_cap").notNull().default(0), // Pairs paid per calendar month; 0 means no cap
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
   status: text("status").notNull().default("active"), // "active" | "disabled"
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertPlanSchema = createInsertSchema(plans).omit({
+export const insertPlanSchema = createInsertSchema(plans, {
+  price: minorAmountSchema,
+  referralCommission: minorAmountSchema,
+  treeCommission: minorAmountSchema,
+  dailyPairCap: z.number().int().nonnegative("Pair cap cannot be negative"),
+  monthlyPairCap: z.number().int().nonnegative("Pair cap cannot be negative"),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -87,24 +161,234 @@ export const earnings = pgTable("earnings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   clientId: varchar("client_id").notNull().references(() => users.id),
   type: text("type").notNull(), // "referral" | "tree" | "bonus"
-  amount: text("amount").notNull(), // Stored as text to handle currency formatting
+  amount: integer("amount").notNull(), // Minor units (paise)
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
   description: text("description").notNull(),
   fromClientId: varchar("from_client_id").references(() => users.id), // The client who generated this earning
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Saved payout destinations: a bank account (holder, account number, IFSC)
+// or a UPI VPA. Admins verify a method before money is paid to it.
+export const payoutMethods = pgTable("payout_methods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // "bank" | "upi"
+  accountHolderName: text("account_holder_name").notNull(),
+  accountNumber: text("account_number"), // Bank only
+  ifsc: text("ifsc"), // Bank only
+  upiId: text("upi_id"), // UPI only
+  isVerified: boolean("is_verified").notNull().default(false),
+  verifiedBy: varchar("verified_by").references(() => users.id),
+  verifiedAt: timestamp("verified_at"),
+  isActive: boolean("is_active").notNull().default(true), // Removed methods stay for withdrawal history
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Withdrawals table schema
 export const withdrawals = pgTable("withdrawals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   clientId: varchar("client_id").notNull().references(() => users.id),
-  amount: text("amount").notNull(),
-  bankDetails: text("bank_details").notNull(),
-  status: text("status").notNull().default("pending"), // "pending" | "approved" | "rejected" | "completed"
+  amount: integer("amount").notNull(), // Gross amount taken from the wallet, minor units (paise)
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  tdsRate: integer("tds_rate").notNull().default(0), // Basis points applied (500 = 5%)
+  tdsAmount: integer("tds_amount").notNull().default(0),
+  adminCharge: integer("admin_charge").notNull().default(0),
+  netAmount: integer("net_amount").notNull(), // Gross minus TDS and admin charge; what the client receives
+  bankDetails: text("bank_details").notNull(), // Masked summary of the payout method at request time
+  payoutMethodId: varchar("payout_method_id").references(() => payoutMethods.id),
+  status: text("status").notNull().default("pending"), // See withdrawalStatuses
   adminNotes: text("admin_notes"),
+  batchId: varchar("batch_id"), // Payout batch the withdrawal is paid in
   requestedAt: timestamp("requested_at").defaultNow().notNull(),
-  processedAt: timestamp("processed_at"),
+  processedAt: timestamp("processed_at"), // Last status change after the request
+  approvedAt: timestamp("approved_at"), // Set once, when the withdrawal is approved; deductions count from here
+});
+
+// Plan payments for new clients. The client account is only created when
+// the provider's signed webhook reports the payment as paid.
+export const paymentIntents = pgTable("payment_intents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // "mock" | "razorpay"
+  providerOrderId: text("provider_order_id").notNull().unique(),
+  providerPaymentId: text("provider_payment_id"),
+  amount: integer("amount").notNull(), // Plan price in minor units (paise)
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  status: text("status").notNull().default("created"), // "created" | "paid" | "failed"
+  clientData: text("client_data").notNull(), // JSON of the pending client, without the password
+  passwordHash: text("password_hash").notNull(),
+  clientId: varchar("client_id").references(() => users.id), // Set once the client is created
+  failureReason: text("failure_reason"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  settledAt: timestamp("settled_at"),
+});
+
+// Audit trail of every withdrawal status change
+export const withdrawalEvents = pgTable("withdrawal_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  withdrawalId: varchar("withdrawal_id").notNull().references(() => withdrawals.id),
+  fromStatus: text("from_status"), // Null for the initial request
+  toStatus: text("to_status").notNull(),
+  actorId: varchar("actor_id").references(() => users.id), // Admin (or client) who made the change
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Approved withdrawals grouped for a single bank bulk transfer
+export const payoutBatches = pgTable("payout_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reference: text("reference").notNull().unique(), // e.g. "PB-20250101-1A2B3C"
+  status: text("status").notNull().default("processing"), // "processing" | "paid"
+  totalAmount: integer("total_amount").notNull(), // Net amount to transfer, minor units (paise)
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  withdrawalCount: integer("withdrawal_count").notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidBy: varchar("paid_by").references(() => users.id),
+  paidAt: timestamp("paid_at"),
+});
+
+// Double-entry wallet ledger: the entries of one transaction always sum to zero
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  clientId: varchar("client_id").notNull().references(() => users.id), // Wallet the transaction belongs to
+  account: text("account").notNull(), // "wallet_available" | "wallet_held" | "commission_expense" | "payouts"
+  amount: integer("amount").notNull(), // Signed minor units (positive increases the account)
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  entryType: text("entry_type").notNull(), // "earning" | "withdrawal_hold" | "withdrawal_release" | "withdrawal_payout" | "withdrawal_reversal"
+  referenceId: varchar("reference_id"), // Earning or withdrawal that caused the entry
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Binary pairing state: running left/right business volume for every node
+export const binaryVolumes = pgTable("binary_volumes", {
+  clientId: varchar("client_id").primaryKey().references(() => users.id),
+  leftBv: integer("left_bv").notNull().default(0), // Lifetime BV received on the left leg
+  rightBv: integer("right_bv").notNull().default(0), // Lifetime BV received on the right leg
+  leftCarry: integer("left_carry").notNull().default(0), // Unmatched left BV carried forward
+  rightCarry: integer("right_carry").notNull().default(0), // Unmatched right BV carried forward
+  totalPairs: integer("total_pairs").notNull().default(0), // Pairs paid out
+  flushedPairs: integer("flushed_pairs").notNull().default(0), // Pairs lost to the plan's pair caps
+  pairsOnDate: integer("pairs_on_date").notNull().default(0), // Pairs paid on pairDate
+  pairDate: text("pair_date"), // "YYYY-MM-DD" of the last pairing
+  pairsInMonth: integer("pairs_in_month").notNull().default(0), // Pairs paid in pairMonth
+  pairMonth: text("pair_month"), // "YYYY-MM" of the last pairing
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per pairing where matched pairs went unpaid because a cap was hit
+export const pairFlushes = pgTable("pair_flushes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => users.id),
+  fromClientId: varchar("from_client_id").references(() => users.id), // Joiner whose BV completed the pairs
+  pairs: integer("pairs").notNull(),
+  reason: text("reason").notNull(), // "daily_cap" | "monthly_cap"
+  cap: integer("cap").notNull(), // The cap that was reached
+  forgoneAmount: integer("forgone_amount").notNull(), // Tree commission not paid, minor units (paise)
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  pairDate: text("pair_date").notNull(), // "YYYY-MM-DD"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Audit trail of admin placement corrections. Each row moves one member,
+// together with their whole subtree, to a new parent and position.
+export const placementChanges = pgTable("placement_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Root of the moved subtree (kept if the user is later deleted)
+  fromParentId: varchar("from_parent_id"),
+  fromPosition: text("from_position"),
+  toParentId: varchar("to_parent_id").notNull(),
+  toPosition: text("to_position").notNull(),
+  subtreeSize: integer("subtree_size").notNull(), // Members moved, including the root
+  subtreeBv: integer("subtree_bv").notNull(), // BV shifted from the old upline to the new one
+  reason: text("reason"),
+  movedBy: varchar("moved_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Session rows written by connect-pg-simple; declared here so db:push keeps the table
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// One row per signed-in browser, keyed by the express-session id. Deleting a
+// row revokes that session on its next request.
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sid: varchar("sid").notNull().unique(), // Never sent to the browser; id is the public handle
+  userId: varchar("user_id").notNull().references(() => users.id),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
 });
 
+// TOTP two-factor authentication, kept out of users so the secret never rides
+// along with a user object. enabledAt stays null until the first code is confirmed.
+export const twoFactorSettings = pgTable("two_factor_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  secret: text("secret").notNull(), // Base32 TOTP secret
+  enabledAt: timestamp("enabled_at"),
+  recoveryCodeHashes: json("recovery_code_hashes").$type<string[]>().notNull().default([]), // SHA-256 of unused codes
+  lastUsedStep: integer("last_used_step"), // Last accepted TOTP step, so codes cannot be replayed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Installation-wide settings; a single row with id "default". The
+// organisation fields are filled in by the first-run setup.
+export const appSettings = pgTable("app_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  requireAdminTwoFactor: boolean("require_admin_two_factor").notNull().default(false),
+  companyName: text("company_name"),
+  logoUrl: text("logo_url"), // Small data: URL image
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY), // Fixed at setup; new plans are priced in it
+  upiPayeeVpa: text("upi_payee_vpa"), // Falls back to UPI_PAYEE_VPA
+  upiPayeeName: text("upi_payee_name"),
+  setupCompletedAt: timestamp("setup_completed_at"),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Failed sign-in counters, keyed "user:<username>" or "ip:<address>".
+// Attempts are refused until blockedUntil.
+export const loginThrottles = pgTable("login_throttles", {
+  key: varchar("key").primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").defaultNow().notNull(),
+  blockedUntil: timestamp("blocked_until"),
+});
+
+// One-time password reset codes. Only a hash of the code is kept, and issuing
+// a new code replaces any earlier one for the user.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull(), // SHA-256 of the code
+  attempts: integer("attempts").notNull().default(0), // Wrong codes entered against this one
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Sign-in attempts against existing accounts, shown to the account owner
+export const loginEvents = pgTable("login_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  outcome: text("outcome").notNull(), // success, invalid_password, invalid_code, blocked
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_login_events_user").on(table.userId, table.createdAt),
+]);
+
 // Validation schemas for client features
 export const createReportSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters").max(100, "Title must be less than 100 characters"),
@@ -113,11 +397,79 @@ export const createReportSchema = z.object({
   priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
 });
 
+export const createEarningSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  type: z.enum(["referral", "tree", "bonus"]),
+  amount: minorAmountSchema.positive("Amount must be greater than zero"),
+  description: z.string().min(1, "Description is required"),
+  fromClientId: z.string().optional(),
+});
+
+export const ifscSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, "Enter a valid 11-character IFSC code");
+export const accountNumberSchema = z.string().trim().regex(/^\d{9,18}$/, "Account number must be 9 to 18 digits");
+export const upiIdSchema = z.string().trim().regex(/^[a-zA-Z0-9._-]{2,256}@[a-zA-Z]{2,64}$/, "Enter a valid UPI ID, e.g. name@bank");
+
+export const panSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{5}[0-9]{4}[A-Z]$/, "Enter a valid 10-character PAN, e.g. ABCDE1234F");
+
+export const createPayoutMethodSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bank"),
+    accountHolderName: z.string().trim().min(2, "Account holder name is required").max(100),
+    accountNumber: accountNumberSchema,
+    ifsc: ifscSchema,
+  }),
+  z.object({
+    type: z.literal("upi"),
+    accountHolderName: z.string().trim().min(2, "Account holder name is required").max(100),
+    upiId: upiIdSchema,
+  }),
+]);
+
+export const verifyPayoutMethodSchema = z.object({
+  isVerified: z.boolean(),
+});
+
 export const createWithdrawalSchema = z.object({
-  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a valid number"),
-  bankDetails: z.string().min(10, "Bank details must be at least 10 characters").max(500, "Bank details must be less than 500 characters"),
+  amount: minorAmountSchema.positive("Amount must be greater than zero"),
+  payoutMethodId: z.string().min(1, "Select a payout method"),
+});
+
+// Withdrawal lifecycle: pending -> approved -> processing -> completed,
+// with rejection or cancellation possible until processing starts
+export const withdrawalStatuses = ["pending", "approved", "processing", "completed", "rejected", "cancelled"] as const;
+export type WithdrawalStatus = typeof withdrawalStatuses[number];
+
+export const withdrawalTransitions: Record<WithdrawalStatus, WithdrawalStatus[]> = {
+  pending: ["approved", "rejected", "cancelled"],
+  approved: ["processing", "rejected", "cancelled"],
+  processing: ["completed"],
+  completed: [],
+  rejected: [],
+  cancelled: [],
+};
+
+export function canTransitionWithdrawal(from: string, to: string): boolean {
+  return (withdrawalTransitions[from as WithdrawalStatus] || []).includes(to as WithdrawalStatus);
+}
+
+export const updateWithdrawalStatusSchema = z.object({
+  status: z.enum(withdrawalStatuses, { required_error: "Status is required" }),
+  adminNotes: z.string().max(500, "Notes must be less than 500 characters").optional(),
+});
+
+export const createPayoutBatchSchema = z.object({
+  withdrawalIds: z.array(z.string()).min(1, "Select at least one approved withdrawal"),
 });
 
+// Required for admin and owner passwords
+export const strongPasswordSchema = z.string()
+  .min(12, "Password must be at least 12 characters")
+  .max(100, "Password must be less than 100 characters")
+  .regex(/[a-z]/, "Password must contain a lowercase letter")
+  .regex(/[A-Z]/, "Password must contain an uppercase letter")
+  .regex(/[0-9]/, "Password must contain a number")
+  .regex(/[^A-Za-z0-9]/, "Password must contain a symbol");
+
 export const updatePasswordSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
   newPassword: z.string().min(6, "New password must be at least 6 characters").max(50, "Password must be less than 50 characters"),
@@ -127,26 +479,174 @@ export const updatePasswordSchema = z.object({
   path: ["confirmPassword"],
 });
 
+export const updateAdminPasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: strongPasswordSchema,
+  confirmPassword: z.string().min(1, "Confirm password is required"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+}).refine((data) => data.newPassword !== data.currentPassword, {
+  message: "Choose a password different from the current one",
+  path: ["newPassword"],
+});
+
+export const requestPasswordResetSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+});
+
+// Admin accounts are also held to the strong password policy on the server
+export const confirmPasswordResetSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code"),
+  newPassword: z.string().min(6, "New password must be at least 6 characters").max(100, "Password must be less than 100 characters"),
+  confirmPassword: z.string().min(1, "Confirm password is required"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+// Logos are uploaded as data: URLs and sent with the public branding, so keep them small
+export const MAX_LOGO_BYTES = 64 * 1024;
+const logoSchema = z.string()
+  .regex(/^data:image\/(png|jpeg|webp|svg\+xml);base64,/, "Logo must be a PNG, JPEG, WebP or SVG image")
+  .max(Math.ceil(MAX_LOGO_BYTES / 3) * 4 + 40, "Logo must be smaller than 64 KB");
+
+// Company details; empty strings clear the optional ones
+export const organizationSettingsSchema = z.object({
+  companyName: z.string().trim().min(2, "Company name must be at least 2 characters").max(80, "Company name must be less than 80 characters"),
+  logoUrl: logoSchema.or(z.literal("")),
+  upiPayeeVpa: z.string().trim().regex(/^[a-zA-Z0-9._-]{2,256}@[a-zA-Z]{2,64}$/, "Enter a UPI ID like name@bank").or(z.literal("")),
+  upiPayeeName: z.string().trim().max(50, "Payee name must be less than 50 characters"),
+});
+
+// First-run setup: the owner account plus the organisation. The setup code is
+// printed in the server log, so only someone with access to the deployment can
+// claim a fresh install.
+export const setupSchema = organizationSettingsSchema.extend({
+  setupCode: z.string().trim().min(1, "Enter the setup code from the server log"),
+  currency: z.enum(SUPPORTED_CURRENCIES),
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(50, "Name must be less than 50 characters"),
+  username: createClientSchema.shape.username,
+  email: z.string().email("Please enter a valid email address"),
+  password: strongPasswordSchema,
+  confirmPassword: z.string().min(1, "Confirm password is required"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
 export const updateProfileSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters").max(50, "Name must be less than 50 characters").optional(),
   email: z.string().email("Please enter a valid email address").optional(),
   mobile: z.string().regex(/^[0-9]{10}$/, "Mobile number must be exactly 10 digits").optional(),
+  pan: panSchema.or(z.literal("")).optional(), // Empty string clears the PAN
 });
 
-// Plan pricing information (keeping for backward compatibility)
-export const planPricing = {
-  Silver: 510,
-  Gold: 1010,
-  Diamond: 1510
-} as const;
-
 export type CreateClientRequest = z.infer<typeof createClientSchema>;
-export type PaymentConfirmationRequest = z.infer<typeof paymentConfirmationSchema>;
+export type PlacementStrategy = z.infer<typeof placementStrategySchema>;
+export type DeletionPolicy = z.infer<typeof deletionPolicySchema>;
+// A member re-seated in the tree; null parent and position detach them
+export type TreeMove = { userId: string; parentId: string | null; position: "left" | "right" | null };
+export type DeletionPlan = {
+  policy: DeletionPolicy;
+  allowed: boolean;
+  reason: string | null; // Why the policy cannot be used
+  removal: "deactivate" | "detach" | "delete";
+  moves: TreeMove[];
+};
+// Rows that reference a client; any of these keeps the user row from being deleted
+export type ClientHistory = {
+  earnings: number;
+  generatedEarnings: number;
+  withdrawals: number;
+  ledgerEntries: number;
+  paymentIntents: number;
+  auditRecords: number; // Changes the client made that the audit trail names them in
+};
+export type DeletionImpact = {
+  clientId: string;
+  children: { id: string; name: string | null; username: string; position: string | null }[];
+  downlineSize: number;
+  referrals: number;
+  history: ClientHistory;
+  plans: DeletionPlan[];
+};
+export type CreatePaymentIntentRequest = z.infer<typeof createPaymentIntentSchema>;
+// A client whose plan payment has cleared; the password was hashed when the payment started
+export type PaidClientRequest = Omit<CreateClientRequest, "password"> & { passwordHash: string };
+export type PaymentIntent = typeof paymentIntents.$inferSelect;
+export type InsertPaymentIntent = typeof paymentIntents.$inferInsert;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type UserWithoutPassword = Omit<User, 'password'>;
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type Plan = typeof plans.$inferSelect;
+export type ClientStats = {
+  total: number;
+  byPlan: { planId: string; name: string; count: number }[];
+};
+// Size and shape of a member's placement subtree. Counts and depth cover the
+// whole downline; bv is the lifetime BV each leg has sent up to the member.
+export type LegStats = { count: number; bv: number };
+export type SubtreeStats = {
+  clientId: string;
+  size: number;
+  depth: number;
+  left: LegStats;
+  right: LegStats;
+};
+
+// One window of the placement tree. Nodes at the window's edge come back with
+// null children; hasLeft/hasRight tell the client there is more to fetch.
+export type GenealogyNode = {
+  user: Omit<User, "password">;
+  depth: number;
+  leftCount: number;
+  rightCount: number;
+  hasLeft: boolean;
+  hasRight: boolean;
+  left: GenealogyNode | null;
+  right: GenealogyNode | null;
+};
+
+// Tree integrity report. Repairable issues are fixed by re-seating the member
+// (with their subtree) in the first free slot under their sponsor or an admin.
+export const integrityIssueTypes = [
+  "cycle",
+  "missing_parent",
+  "orphan",
+  "missing_position",
+  "position_without_parent",
+  "duplicate_slot",
+  "too_many_children",
+  "role_mismatch",
+  "missing_sponsor",
+] as const;
+export type IntegrityIssueType = typeof integrityIssueTypes[number];
+export type IntegrityIssue = {
+  type: IntegrityIssueType;
+  userId: string;
+  detail: string;
+  repairable: boolean;
+};
+export type IntegrityRepair = {
+  userId: string;
+  issue: IntegrityIssueType;
+  action: string;
+};
+export type IntegrityReport = {
+  checkedAt: string;
+  userCount: number;
+  issues: IntegrityIssue[];
+  repairs: IntegrityRepair[];
+};
+
+// Sponsor (referral) tree, separate from the binary placement tree
+export type SponsorTreeNode = {
+  user: Omit<User, "password">;
+  referrals: SponsorTreeNode[];
+};
 export type InsertPlan = z.infer<typeof insertPlanSchema>;
 export type UpdatePlan = z.infer<typeof updatePlanSchema>;
 
@@ -154,7 +654,89 @@ export type UpdatePlan = z.infer<typeof updatePlanSchema>;
 export type Report = typeof reports.$inferSelect;
 export type CreateReportRequest = z.infer<typeof createReportSchema>;
 export type Earning = typeof earnings.$inferSelect;
+export type CreateEarningRequest = z.infer<typeof createEarningSchema>;
 export type Withdrawal = typeof withdrawals.$inferSelect;
+export type BinaryVolume = typeof binaryVolumes.$inferSelect;
+export type PairFlush = typeof pairFlushes.$inferSelect;
+export type InsertPairFlush = typeof pairFlushes.$inferInsert;
+export type TwoFactorSettings = typeof twoFactorSettings.$inferSelect;
+export type InsertTwoFactorSettings = typeof twoFactorSettings.$inferInsert;
+export type AppSettings = typeof appSettings.$inferSelect;
+export type UpdateSecuritySettingsRequest = z.infer<typeof updateSecuritySettingsSchema>;
+export type AppSettingsUpdate = Partial<Omit<AppSettings, "id" | "updatedBy" | "updatedAt">>;
+export type OrganizationSettingsRequest = z.infer<typeof organizationSettingsSchema>;
+export type SetupRequest = z.infer<typeof setupSchema>;
+// Public branding, and whether the first-run setup still has to happen
+export type SetupStatus = {
+  required: boolean;
+  companyName: string | null;
+  logoUrl: string | null;
+  currency: string;
+};
+// Returned by login instead of the user while a second step is outstanding:
+// "verify" asks for a code, "setup" means the role requires enrolling first
+export type TwoFactorChallenge = { twoFactor: "verify" | "setup" };
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+};
+export type TwoFactorEnrollment = {
+  secret: string;
+  otpauthUrl: string;
+  qrSvg: string;
+};
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+export type RequestPasswordResetRequest = z.infer<typeof requestPasswordResetSchema>;
+export type ConfirmPasswordResetRequest = z.infer<typeof confirmPasswordResetSchema>;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type LoginEvent = typeof loginEvents.$inferSelect;
+export type InsertLoginEvent = typeof loginEvents.$inferInsert;
+export type LoginOutcome = "success" | "invalid_password" | "invalid_code" | "blocked";
+// A login event as shown in settings: device is derived from the user agent
+export type LoginHistoryEntry = {
+  id: string;
+  outcome: LoginOutcome;
+  device: string;
+  ipAddress: string | null;
+  createdAt: Date;
+};
+export type LockoutStatus = {
+  failures: number;
+  blockedUntil: Date | null;
+};
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = typeof userSessions.$inferInsert;
+// A session as shown in settings: device is derived from the user agent
+export type ActiveSession = {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+};
+export type PlacementChange = typeof placementChanges.$inferSelect;
+export type InsertPlacementChange = typeof placementChanges.$inferInsert;
+export type MoveSubtreeRequest = z.infer<typeof moveSubtreeSchema>;
+// What a subtree move changes. Volume changes are per-ancestor BV deltas
+// (negative on the old upline, positive on the new one).
+export type SubtreeMovePlan = {
+  userId: string;
+  from: { parentId: string | null; position: string | null };
+  to: { parentId: string; position: "left" | "right" };
+  subtreeSize: number;
+  subtreeBv: number;
+  volumeChanges: { clientId: string; left: number; right: number }[];
+};
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
 export type CreateWithdrawalRequest = z.infer<typeof createWithdrawalSchema>;
+export type PayoutMethod = typeof payoutMethods.$inferSelect;
+export type CreatePayoutMethodRequest = z.infer<typeof createPayoutMethodSchema>;
+export type UpdateWithdrawalStatusRequest = z.infer<typeof updateWithdrawalStatusSchema>;
+export type WithdrawalEvent = typeof withdrawalEvents.$inferSelect;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
 export type UpdatePasswordRequest = z.infer<typeof updatePasswordSchema>;
 export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;